@@ -9,6 +9,10 @@ import Inventory from "./pages/Inventory";
 import Customers from "./pages/Customers";
 import Billing from "./pages/Billing";
 import BillsHistory from "./pages/BillsHistory";
+import Quotations from "./pages/Quotations";
+import Settings from "./pages/Settings";
+import Audit from "./pages/Audit";
+import RecycleBin from "./pages/RecycleBin";
 import NotFound from "./pages/NotFound";
 import { Layout } from "./components/Layout";
 
@@ -27,6 +31,10 @@ const App = () => (
           <Route path="/customers" element={<Layout><Customers /></Layout>} />
           <Route path="/billing" element={<Layout><Billing /></Layout>} />
           <Route path="/bills-history" element={<Layout><BillsHistory /></Layout>} />
+          <Route path="/quotations" element={<Layout><Quotations /></Layout>} />
+          <Route path="/recycle-bin" element={<Layout><RecycleBin /></Layout>} />
+          <Route path="/audit" element={<Layout><Audit /></Layout>} />
+          <Route path="/settings" element={<Layout><Settings /></Layout>} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,75 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AGEING_BUCKETS, ageOutstanding, type Ageing } from "@/lib/ledger";
+import { formatRupees } from "@/lib/money";
+import type { Bill, Customer } from "@/lib/storage";
+
+interface AgeingReportCardProps {
+  customers: Customer[];
+  bills: Bill[];
+}
+
+// Who owes what, split by how long the unpaid bills have been open
+export const AgeingReportCard = ({ customers, bills }: AgeingReportCardProps) => {
+  const rows = useMemo(
+    () =>
+      customers
+        .map((customer) => ({
+          customer,
+          ageing: ageOutstanding(bills.filter((bill) => bill.customerId === customer.id)),
+        }))
+        .filter(({ ageing }) => ageing.total > 0)
+        .sort((a, b) => b.ageing.total - a.ageing.total),
+    [customers, bills]
+  );
+  const totals: Ageing = useMemo(
+    () => ageOutstanding(bills.filter((bill) => rows.some(({ customer }) => customer.id === bill.customerId))),
+    [bills, rows]
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-foreground">Outstanding Ageing</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">No customer has anything outstanding.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Customer</TableHead>
+                {AGEING_BUCKETS.map(({ key, label }) => (
+                  <TableHead key={key} className="text-right">{label}</TableHead>
+                ))}
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ customer, ageing }) => (
+                <TableRow key={customer.id}>
+                  <TableCell>{customer.name}</TableCell>
+                  {AGEING_BUCKETS.map(({ key }) => (
+                    <TableCell key={key} className="text-right">
+                      {ageing[key] > 0 ? formatRupees(ageing[key]) : "—"}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right font-semibold">{formatRupees(ageing.total)}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="font-semibold">
+                <TableCell>Total</TableCell>
+                {AGEING_BUCKETS.map(({ key }) => (
+                  <TableCell key={key} className="text-right">{formatRupees(totals[key])}</TableCell>
+                ))}
+                <TableCell className="text-right">{formatRupees(totals.total)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
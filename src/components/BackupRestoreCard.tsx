@@ -0,0 +1,308 @@
+import { useEffect, useRef, useState } from "react";
+import { DatabaseBackup, Download, FolderOpen, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TABLE_NAMES } from "@/lib/backends/types";
+import { getStorageBackend } from "@/lib/storage";
+import {
+  BackupError,
+  downloadBackup,
+  parseBackup,
+  previewRestore,
+  restoreBackup,
+  type BackupArchive,
+  type RestoreMode,
+  type RestorePreview,
+} from "@/lib/backup";
+import {
+  chooseBackupFolder,
+  forgetBackupFolder,
+  isFolderBackupSupported,
+  markBackedUp,
+  saveAutoBackupSettings,
+  type AutoBackupSettings,
+  type BackupFrequency,
+} from "@/lib/autoBackup";
+import { useBackupStatus } from "@/hooks/use-backup-status";
+
+const tableLabels = {
+  products: "Products",
+  customers: "Customers",
+  bills: "Bills",
+  receipts: "Receipts",
+  creditNotes: "Credit notes",
+  quotations: "Quotations",
+  audit: "Audit log",
+};
+
+interface BackupRestoreCardProps {
+  onRestored?: () => void;
+}
+
+export const BackupRestoreCard = ({ onRestored }: BackupRestoreCardProps) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("replace");
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const backupStatus = useBackupStatus();
+
+  useEffect(() => {
+    if (!archive) return;
+    previewRestore(getStorageBackend(), archive, mode).then(setPreview);
+  }, [archive, mode]);
+
+  const handleBackup = async () => {
+    try {
+      const downloaded = await downloadBackup(getStorageBackend());
+      markBackedUp(downloaded.createdAt);
+      toast.success("Backup downloaded");
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not create the backup");
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setArchive(await parseBackup(await file.text()));
+      setMode("replace");
+    } catch (error) {
+      toast.error(error instanceof BackupError ? error.message : "Could not read the backup file");
+    }
+  };
+
+  const updateAutoBackup = (updates: Partial<AutoBackupSettings>) => {
+    saveAutoBackupSettings({ ...backupStatus.settings, ...updates });
+  };
+
+  const handleChooseFolder = async () => {
+    try {
+      if (await chooseBackupFolder()) toast.success("Backup folder set");
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not use that folder");
+    }
+  };
+
+  const closeDialog = () => {
+    setArchive(null);
+    setPreview(null);
+  };
+
+  const handleRestore = async () => {
+    if (!archive) return;
+    setRestoring(true);
+    try {
+      await restoreBackup(getStorageBackend(), archive, mode);
+      toast.success(mode === "replace" ? "Backup restored" : "Backup merged");
+      closeDialog();
+      onRestored?.();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof BackupError ? error.message : "Restore failed; your data was not changed");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-foreground">
+          <DatabaseBackup className="h-5 w-5" />
+          Backup & Restore
+        </CardTitle>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => fileInput.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" />
+            Restore
+          </Button>
+          <Button onClick={handleBackup}>
+            <Download className="mr-2 h-4 w-4" />
+            Download Backup
+          </Button>
+          <input ref={fileInput} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          The backup is a single file with every product, customer and bill, the document counters, numbering
+          settings and the unsaved held bills. Keep a recent copy outside the browser: clearing site data deletes
+          everything stored here.
+        </p>
+
+        <div className="border rounded-lg p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-foreground">Automatic Backups</h3>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="auto-backup-enabled"
+                checked={backupStatus.settings.enabled}
+                onCheckedChange={(checked) => updateAutoBackup({ enabled: checked })}
+              />
+              <Label htmlFor="auto-backup-enabled">{backupStatus.settings.enabled ? "On" : "Off"}</Label>
+            </div>
+          </div>
+          <div className="grid gap-4 md:grid-cols-[160px_140px_1fr] items-end">
+            <div>
+              <Label>Frequency</Label>
+              <Select
+                value={backupStatus.settings.frequency}
+                onValueChange={(value) => updateAutoBackup({ frequency: value as BackupFrequency })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="hourly">Every hour</SelectItem>
+                  <SelectItem value="daily">Every day</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="auto-backup-keep">Keep last</Label>
+              <Input
+                id="auto-backup-keep"
+                type="number"
+                min="1"
+                value={backupStatus.settings.keep}
+                onChange={(e) => updateAutoBackup({ keep: parseInt(e.target.value) || 1 })}
+              />
+            </div>
+            {isFolderBackupSupported() ? (
+              <div className="flex items-center gap-2">
+                <Button variant="outline" onClick={handleChooseFolder}>
+                  <FolderOpen className="mr-2 h-4 w-4" />
+                  {backupStatus.folderName ? "Change Folder" : "Choose Folder"}
+                </Button>
+                {backupStatus.folderName && (
+                  <>
+                    <span className="text-sm text-foreground truncate">{backupStatus.folderName}</span>
+                    <Button variant="ghost" size="sm" onClick={forgetBackupFolder}>
+                      Forget
+                    </Button>
+                  </>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                This browser cannot save to a folder, so you will be asked to download each backup when it is due.
+              </p>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {backupStatus.lastBackupAt
+              ? `Last backup ${new Date(backupStatus.lastBackupAt).toLocaleString()}`
+              : "No backup taken on this device yet"}
+            {backupStatus.needsPermission && " · the browser needs permission to write to the folder again"}
+            {backupStatus.error && ` · last attempt failed: ${backupStatus.error}`}
+          </p>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!archive} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Restore Backup</DialogTitle>
+            <DialogDescription>
+              {archive && `Backup taken ${new Date(archive.createdAt).toLocaleString()} (schema v${archive.schemaVersion})`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)} className="space-y-2">
+            <div className="flex items-start gap-2">
+              <RadioGroupItem value="replace" id="restore-replace" className="mt-1" />
+              <Label htmlFor="restore-replace" className="font-normal">
+                <span className="font-medium">Replace</span> — make this device match the backup exactly. Anything
+                added since the backup is removed.
+              </Label>
+            </div>
+            <div className="flex items-start gap-2">
+              <RadioGroupItem value="merge" id="restore-merge" className="mt-1" />
+              <Label htmlFor="restore-merge" className="font-normal">
+                <span className="font-medium">Merge</span> — add records that are missing here and keep everything
+                already on this device.
+              </Label>
+            </div>
+          </RadioGroup>
+
+          {preview && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead></TableHead>
+                  <TableHead className="text-right">Added</TableHead>
+                  <TableHead className="text-right">Updated</TableHead>
+                  <TableHead className="text-right">Removed</TableHead>
+                  <TableHead className="text-right">Unchanged</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {TABLE_NAMES.map((table) => (
+                  <TableRow key={table}>
+                    <TableCell className="font-medium">{tableLabels[table]}</TableCell>
+                    <TableCell className="text-right">{preview.tables[table].added}</TableCell>
+                    <TableCell className="text-right">{preview.tables[table].updated}</TableCell>
+                    <TableCell className={preview.tables[table].removed > 0 ? "text-right text-destructive" : "text-right"}>
+                      {preview.tables[table].removed}
+                    </TableCell>
+                    <TableCell className="text-right">{preview.tables[table].unchanged}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {preview && (preview.metaChanged.length > 0 || preview.metaRemoved.length > 0 || preview.draftReplaced) && (
+            <p className="text-sm text-muted-foreground">
+              Also changes: {[...preview.metaChanged, ...preview.metaRemoved, ...(preview.draftReplaced ? ["held bills"] : [])]
+                .map((key) => key.replace(/_/g, " "))
+                .join(", ")}
+            </p>
+          )}
+          {preview && preview.invalid.length > 0 && (
+            <div className="border border-destructive rounded-lg p-3 text-sm space-y-1">
+              <p className="font-medium text-destructive">
+                {preview.invalid.length} record(s) in this backup fail validation, so it cannot be restored:
+              </p>
+              <ul className="max-h-40 overflow-y-auto text-muted-foreground">
+                {preview.invalid.map((record) => (
+                  <li key={`${record.table}:${record.id}`}>
+                    {tableLabels[record.table]} {record.id}: {record.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Cancel
+            </Button>
+            <Button variant={mode === "replace" ? "destructive" : "default"} onClick={handleRestore} disabled={restoring || !preview || preview.invalid.length > 0}>
+              {mode === "replace" ? "Replace My Data" : "Merge Into My Data"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,29 @@
+import { formatDistanceToNow } from "date-fns";
+import { HardDriveDownload, TriangleAlert } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { useBackupStatus } from "@/hooks/use-backup-status";
+import { runBackupNow } from "@/lib/autoBackup";
+
+export const BackupStatusBadge = () => {
+  const status = useBackupStatus();
+  const warn = status.state === "stale" || status.state === "never" || !!status.error;
+
+  const label = status.lastBackupAt
+    ? `Backed up ${formatDistanceToNow(new Date(status.lastBackupAt), { addSuffix: true })}`
+    : "Not backed up";
+  const title = status.error
+    || (status.needsPermission ? "Click to allow access to the backup folder" : "Click to back up now");
+
+  return (
+    <Badge
+      variant={warn ? "destructive" : "outline"}
+      className="gap-1 cursor-pointer"
+      title={title}
+      onClick={() => runBackupNow({ interactive: true })}
+    >
+      {warn ? <TriangleAlert className="h-3 w-3" /> : <HardDriveDownload className="h-3 w-3" />}
+      {label}
+      {status.state === "due" && " · due"}
+    </Badge>
+  );
+};
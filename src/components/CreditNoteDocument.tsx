@@ -0,0 +1,106 @@
+import { TaxBreakupTable } from "@/components/TaxBreakupTable";
+import { stateLabel } from "@/lib/gst";
+import { formatRupees } from "@/lib/money";
+import { paymentModeLabel } from "@/lib/payments";
+import type { CreditNote, ShopProfile } from "@/lib/storage";
+
+interface CreditNoteDocumentProps {
+  shop: ShopProfile;
+  creditNote: CreditNote;
+  customer: {
+    phone?: string;
+    gstin?: string;
+  };
+}
+
+const Row = ({ label, value, bold }: { label: string; value: string; bold?: boolean }) => (
+  <div className={`flex justify-between ${bold ? "font-bold text-sm border-t border-black mt-1 pt-1" : ""}`}>
+    <span>{label}</span>
+    <span>{value}</span>
+  </div>
+);
+
+// 80mm credit note in the same layout as the tax invoice it reverses
+export const CreditNoteDocument = ({ shop, creditNote, customer }: CreditNoteDocumentProps) => {
+  const issuedAt = new Date(creditNote.createdAt);
+
+  return (
+    <div style={{ width: "80mm", padding: "5mm", fontFamily: "monospace", fontSize: "11px" }}>
+      <div className="text-center border-b-2 border-dashed border-black pb-2 mb-2">
+        <div className="text-lg font-bold">{shop.legalName}</div>
+        {shop.address && <div className="text-[10px] whitespace-pre-line">{shop.address}</div>}
+        {shop.gstin && <div className="text-[10px]">GSTIN: {shop.gstin}</div>}
+        {shop.stateCode && <div className="text-[10px]">State: {stateLabel(shop.stateCode)}</div>}
+      </div>
+
+      <div className="text-center font-bold text-sm uppercase mb-2">Credit Note</div>
+
+      <div className="mb-2 space-y-0.5">
+        <div><strong>Credit Note:</strong> {creditNote.creditNoteNumber}</div>
+        <div><strong>Date:</strong> {issuedAt.toLocaleDateString()} {issuedAt.toLocaleTimeString()}</div>
+        <div><strong>Against Invoice:</strong> {creditNote.invoiceNumber}</div>
+        {creditNote.reason && <div><strong>Reason:</strong> {creditNote.reason}</div>}
+      </div>
+
+      <div className="mb-2 border-t border-dashed border-black pt-1 space-y-0.5">
+        <div><strong>Customer:</strong> {creditNote.customerName}</div>
+        {customer.phone && <div><strong>Phone:</strong> {customer.phone}</div>}
+        {customer.gstin && <div><strong>GSTIN:</strong> {customer.gstin}</div>}
+      </div>
+
+      <div className="border-y-2 border-dashed border-black py-1">
+        <table className="w-full">
+          <thead>
+            <tr>
+              <th className="text-left">Item</th>
+              <th className="text-center">Qty</th>
+              <th className="text-right">Taxable</th>
+            </tr>
+          </thead>
+          <tbody>
+            {creditNote.items.map((item, i) => (
+              <tr key={i} className="align-top">
+                <td className="pr-1">
+                  {item.productName}
+                  <div className="text-[9px]">
+                    {item.hsnCode ? `HSN ${item.hsnCode} · ` : ""}GST {item.gstRate}%{item.damaged ? " · damaged" : ""}
+                  </div>
+                </td>
+                <td className="text-center">{item.quantity}</td>
+                <td className="text-right">{formatRupees(item.taxableValue)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-2 space-y-0.5">
+        <Row label="Taxable Value:" value={formatRupees(creditNote.taxable)} />
+        {creditNote.supplyType === "intra" ? (
+          <>
+            <Row label="CGST:" value={formatRupees(creditNote.cgstAmount)} />
+            <Row label="SGST:" value={formatRupees(creditNote.sgstAmount)} />
+          </>
+        ) : (
+          <Row label="IGST:" value={formatRupees(creditNote.igstAmount)} />
+        )}
+        <Row label="TOTAL CREDIT:" value={formatRupees(creditNote.total)} bold />
+        <div className="pt-1">
+          {creditNote.settlement === "refund" && creditNote.refundMode
+            ? `Refunded by ${paymentModeLabel(creditNote.refundMode)}`
+            : "Credited to customer account"}
+        </div>
+      </div>
+
+      <div className="mt-2 border-t border-dashed border-black pt-1">
+        <div className="font-bold text-[10px]">HSN Summary</div>
+        <TaxBreakupTable rows={creditNote.taxBreakup} supplyType={creditNote.supplyType} className="text-[10px]" />
+      </div>
+
+      <div className="mt-4 text-right text-[10px]">
+        <div>For {shop.legalName}</div>
+        <div className="mt-4">Authorised Signatory</div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useStorageChanges } from "@/hooks/use-storage-changes";
+import { availableCredit, buildLedger, outstandingBalance, type LedgerEntry } from "@/lib/ledger";
+import { formatRupees } from "@/lib/money";
+import { PAYMENT_MODES } from "@/lib/payments";
+import { ValidationError } from "@/lib/schemas";
+import { billStorage, creditNoteStorage, receiptStorage, type Customer, type Receipt } from "@/lib/storage";
+
+interface CustomerLedgerDialogProps {
+  // The dialog is open while a customer is given
+  customer: Customer | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const RECEIPT_MODES = PAYMENT_MODES.filter(({ mode }) => mode !== "credit");
+
+const emptyPayment = { amount: "", mode: "cash" as Receipt["mode"], reference: "", note: "" };
+
+// A customer's account with a running balance, and the form to record a payment against it
+export const CustomerLedgerDialog = ({ customer, onOpenChange }: CustomerLedgerDialogProps) => {
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [outstanding, setOutstanding] = useState(0);
+  const [payment, setPayment] = useState(emptyPayment);
+  const [paymentError, setPaymentError] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadLedger = useCallback(async () => {
+    if (!customer) return;
+    const [bills, receipts, creditNotes] = await Promise.all([
+      billStorage.getByCustomer(customer.id),
+      receiptStorage.getByCustomer(customer.id),
+      creditNoteStorage.getByCustomer(customer.id),
+    ]);
+    setEntries(buildLedger(bills, receipts, creditNotes));
+    setOutstanding(outstandingBalance(bills));
+  }, [customer]);
+
+  useEffect(() => {
+    setPayment(emptyPayment);
+    setPaymentError("");
+    loadLedger();
+  }, [loadLedger]);
+
+  useStorageChanges(["bills", "receipts", "creditNotes"], loadLedger);
+
+  const recordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!customer) return;
+    setSaving(true);
+    try {
+      const receipt = await receiptStorage.add({
+        customerId: customer.id,
+        amount: parseFloat(payment.amount || "0"),
+        mode: payment.mode,
+        reference: payment.reference.trim(),
+        note: payment.note.trim(),
+      });
+      toast.success(`Receipt ${receipt.receiptNumber} recorded for ${formatRupees(receipt.amount)}`);
+      setPayment(emptyPayment);
+      setPaymentError("");
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        setPaymentError(error.issues[0]?.message ?? "Could not record the payment");
+        return;
+      }
+      throw error;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const credit = customer ? availableCredit(customer.creditLimit, outstanding) : null;
+
+  return (
+    <Dialog open={customer !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Ledger - {customer?.name}</DialogTitle>
+          <DialogDescription>
+            Outstanding {formatRupees(outstanding)}
+            {credit !== null && ` · Credit available ${formatRupees(credit)} of ${formatRupees(customer?.creditLimit ?? 0)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-80 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead className="text-right">Debit</TableHead>
+                <TableHead className="text-right">Credit</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry, index) => (
+                <TableRow key={index}>
+                  <TableCell className="whitespace-nowrap">{new Date(entry.date).toLocaleDateString()}</TableCell>
+                  <TableCell className="font-mono text-xs">{entry.reference}</TableCell>
+                  <TableCell className="text-muted-foreground">{entry.description}</TableCell>
+                  <TableCell className="text-right">{entry.debit > 0 ? formatRupees(entry.debit) : ""}</TableCell>
+                  <TableCell className="text-right">{entry.credit > 0 ? formatRupees(entry.credit) : ""}</TableCell>
+                  <TableCell className="text-right font-medium">{formatRupees(entry.balance)}</TableCell>
+                </TableRow>
+              ))}
+              {entries.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                    No transactions yet.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <form onSubmit={recordPayment} className="border-t pt-4 space-y-3">
+          <h4 className="font-semibold text-foreground">Record Payment</h4>
+          <div className="grid grid-cols-[1fr_110px_1fr] gap-2">
+            <div>
+              <Label htmlFor="receipt-amount" className="text-xs">Amount</Label>
+              <Input
+                id="receipt-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={payment.amount}
+                onChange={(e) => setPayment({ ...payment, amount: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Mode</Label>
+              <Select
+                value={payment.mode}
+                onValueChange={(mode) => setPayment({ ...payment, mode: mode as Receipt["mode"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RECEIPT_MODES.map(({ mode, label }) => (
+                    <SelectItem key={mode} value={mode}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="receipt-reference" className="text-xs">Reference</Label>
+              <Input
+                id="receipt-reference"
+                value={payment.reference}
+                disabled={payment.mode === "cash"}
+                onChange={(e) => setPayment({ ...payment, reference: e.target.value })}
+              />
+            </div>
+          </div>
+          <Input
+            placeholder="Note (optional)"
+            value={payment.note}
+            onChange={(e) => setPayment({ ...payment, note: e.target.value })}
+          />
+          {paymentError && <p className="text-sm text-destructive">{paymentError}</p>}
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saving || outstanding <= 0}>
+              Record Payment
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
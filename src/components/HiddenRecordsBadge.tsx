@@ -0,0 +1,22 @@
+import { useNavigate } from "react-router-dom";
+import { ShieldAlert } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { useHiddenRecordCount } from "@/hooks/use-hidden-records";
+
+export const HiddenRecordsBadge = () => {
+  const count = useHiddenRecordCount();
+  const navigate = useNavigate();
+  if (count === 0) return null;
+
+  return (
+    <Badge
+      variant="destructive"
+      className="gap-1 cursor-pointer"
+      title="These records fail validation and are hidden until repaired. Click to open the Data Integrity check in Settings."
+      onClick={() => navigate("/settings")}
+    >
+      <ShieldAlert className="h-3 w-3" />
+      {count} hidden {count === 1 ? "record" : "records"}
+    </Badge>
+  );
+};
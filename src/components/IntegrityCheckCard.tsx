@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { getStorageBackend } from "@/lib/storage";
+import {
+  ISSUE_KIND_LABELS,
+  previewRepairs,
+  repairIssues,
+  scanIntegrity,
+  type IntegrityReport,
+  type IssueKind,
+  type RepairAction,
+  type RepairPreview,
+} from "@/lib/integrity";
+
+const actionLabels: Record<RepairAction, string> = {
+  relink: "Relink",
+  recompute: "Recompute",
+  flag: "Flag",
+};
+
+const formatValue = (value: unknown) =>
+  value === undefined || value === null ? "—" : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+export const IntegrityCheckCard = () => {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [previews, setPreviews] = useState<RepairPreview[] | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const runCheck = async () => {
+    setChecking(true);
+    try {
+      const result = await scanIntegrity(getStorageBackend());
+      setReport(result);
+      setSelectedIds(result.issues.filter((issue) => !issue.flagged).map((issue) => issue.id));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    const selected = report?.issues.filter((issue) => selectedIds.includes(issue.id)) || [];
+    if (selected.length === 0) {
+      toast.error("Select at least one problem to repair");
+      return;
+    }
+    setPreviews(await previewRepairs(getStorageBackend(), selected));
+  };
+
+  const handleRepair = async () => {
+    if (!previews) return;
+    const { repaired, flagged } = await repairIssues(getStorageBackend(), previews.map((p) => p.issue));
+    toast.success(`Repaired ${repaired} record(s), flagged ${flagged} problem(s)`);
+    setPreviews(null);
+    runCheck();
+  };
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((x) => x !== id)));
+  };
+
+  const problemKinds = report
+    ? (Object.keys(ISSUE_KIND_LABELS) as IssueKind[]).filter((kind) => report.counts[kind] > 0)
+    : [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-foreground">
+          <ShieldCheck className="h-5 w-5" />
+          Data Integrity
+        </CardTitle>
+        <div className="flex gap-2">
+          {report && report.issues.length > 0 && (
+            <Button variant="outline" onClick={handlePreview}>
+              Repair Selected
+            </Button>
+          )}
+          <Button onClick={runCheck} disabled={checking}>
+            {checking ? "Checking…" : "Run Check"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!report ? (
+          <p className="text-sm text-muted-foreground">
+            Checks bills, products and customers for broken links, invalid stock and totals that do not add up.
+          </p>
+        ) : report.issues.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No problems found ({new Date(report.checkedAt).toLocaleString()}).
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {problemKinds.map((kind) => (
+                <Badge key={kind} variant="destructive">
+                  {ISSUE_KIND_LABELS[kind]}: {report.counts[kind]}
+                </Badge>
+              ))}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10"></TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Problem</TableHead>
+                  <TableHead>Repair</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.issues.map((issue) => (
+                  <TableRow key={issue.id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.includes(issue.id)}
+                        onCheckedChange={(checked) => toggle(issue.id, checked === true)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{issue.recordLabel}</div>
+                      <div className="text-xs text-muted-foreground">{ISSUE_KIND_LABELS[issue.kind]}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">{issue.message}</TableCell>
+                    <TableCell className="text-sm">
+                      <Badge variant="outline" className="mr-2">{actionLabels[issue.action]}</Badge>
+                      {issue.repairDescription}
+                      {issue.flagged && <Badge variant="secondary" className="ml-2">Flagged</Badge>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={!!previews} onOpenChange={(open) => !open && setPreviews(null)}>
+        <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Repair Preview</DialogTitle>
+            <DialogDescription>
+              These changes are written in one step and recorded in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {previews?.map(({ issue, changes }) => (
+              <div key={issue.id} className="border rounded-lg p-3 text-sm space-y-1">
+                <div className="font-medium">
+                  {issue.recordLabel} — {issue.repairDescription}
+                </div>
+                {issue.action === "flag" ? (
+                  <div className="text-muted-foreground">Marked as flagged; the record is not changed.</div>
+                ) : (
+                  Object.entries(changes).map(([field, change]) => (
+                    <div key={field} className="text-muted-foreground break-all">
+                      {field}: {formatValue(change.before)} → <span className="text-foreground">{formatValue(change.after)}</span>
+                    </div>
+                  ))
+                )}
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPreviews(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRepair}>Apply Repairs</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
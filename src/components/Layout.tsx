@@ -1,9 +1,12 @@
 import { ReactNode, useEffect, useState } from "react";
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import { cn } from "@/lib/utils";
-import { LayoutDashboard, Package, Users, Receipt, ShoppingCart, FileText } from "lucide-react";
+import { LayoutDashboard, Package, Users, Receipt, ShoppingCart, FileText, History, Settings, Trash2, ClipboardList } from "lucide-react";
 import { toast } from "sonner";
 import { KeyboardShortcutsDialog } from "./KeyboardShortcutsDialog";
+import { SyncStatusBadge } from "./SyncStatusBadge";
+import { BackupStatusBadge } from "./BackupStatusBadge";
+import { HiddenRecordsBadge } from "./HiddenRecordsBadge";
 
 interface LayoutProps {
   children: ReactNode;
@@ -16,6 +19,10 @@ const navItems = [
   { path: "/customers", icon: Users, label: "Customers" },
   { path: "/billing", icon: Receipt, label: "Billing" },
   { path: "/bills-history", icon: FileText, label: "Bills History" },
+  { path: "/quotations", icon: ClipboardList, label: "Quotations" },
+  { path: "/recycle-bin", icon: Trash2, label: "Recycle Bin" },
+  { path: "/audit", icon: History, label: "Audit" },
+  { path: "/settings", icon: Settings, label: "Settings" },
 ];
 
 export const Layout = ({ children }: LayoutProps) => {
@@ -84,6 +91,9 @@ export const Layout = ({ children }: LayoutProps) => {
             <div className="flex items-center gap-2">
               <Receipt className="h-6 w-6 text-primary" />
               <h1 className="text-xl font-bold text-foreground">AOS Billing System</h1>
+              <SyncStatusBadge />
+              <BackupStatusBadge />
+              <HiddenRecordsBadge />
             </div>
             
             <div className="flex gap-1">
@@ -0,0 +1,52 @@
+import { useState } from "react";
+import { Download, RotateCw, TriangleAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { downloadBackup } from "@/lib/backup";
+import type { MigrationError } from "@/lib/migrations";
+
+// Shown instead of the app when stored data could not be upgraded on start-up
+export const MigrationFailed = ({ error }: { error: MigrationError }) => {
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  const handleDownload = async () => {
+    try {
+      await downloadBackup(error.backend);
+      setDownloadError(null);
+    } catch (e) {
+      setDownloadError(e instanceof Error ? e.message : "The backup could not be created");
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="max-w-lg w-full">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-destructive">
+            <TriangleAlert className="h-5 w-5" />
+            Your data could not be upgraded
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <p className="text-muted-foreground">
+            This version of the app needs to update the stored data before it can open, and the update
+            failed. Nothing was changed. Download a backup of the data as it is now and keep it safe
+            before trying again or contacting support.
+          </p>
+          <p className="font-mono text-xs border rounded-lg p-3 break-words">{error.message}</p>
+          {downloadError && <p className="text-destructive">{downloadError}</p>}
+          <div className="flex gap-2">
+            <Button onClick={handleDownload}>
+              <Download className="mr-2 h-4 w-4" />
+              Download Backup
+            </Button>
+            <Button variant="outline" onClick={() => window.location.reload()}>
+              <RotateCw className="mr-2 h-4 w-4" />
+              Try Again
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import { useEffect, useMemo, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { creditLimitError } from "@/lib/ledger";
+import { formatRupees } from "@/lib/money";
+import { PAYMENT_MODES, PAYMENT_STATUS_LABELS, settlePayments, type Settlement } from "@/lib/payments";
+import { ValidationError } from "@/lib/schemas";
+import type { PaymentMode } from "@/lib/storage";
+
+interface TenderRow {
+  mode: PaymentMode;
+  amount: string;
+  reference: string;
+}
+
+interface PaymentDialogProps {
+  open: boolean;
+  total: number;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (settlement: Settlement) => void;
+  confirming?: boolean;
+  // The customer's credit limit and what they already owe; no limit when not given
+  creditLimit?: number | null;
+  outstanding?: number;
+}
+
+// Payment step shown once the bill is ready; a bill can be split across several tenders
+export const PaymentDialog = ({
+  open,
+  total,
+  onOpenChange,
+  onConfirm,
+  confirming,
+  creditLimit = null,
+  outstanding = 0,
+}: PaymentDialogProps) => {
+  const [tenders, setTenders] = useState<TenderRow[]>([]);
+
+  // Start with the whole amount in cash each time the dialog opens
+  useEffect(() => {
+    if (open) setTenders([{ mode: "cash", amount: String(total), reference: "" }]);
+  }, [open, total]);
+
+  const result = useMemo((): { settlement?: Settlement; error?: string } => {
+    try {
+      return {
+        settlement: settlePayments(
+          total,
+          tenders.map((t) => ({ mode: t.mode, amount: parseFloat(t.amount || "0"), reference: t.reference }))
+        ),
+      };
+    } catch (error) {
+      if (error instanceof ValidationError) return { error: error.issues[0]?.message };
+      throw error;
+    }
+  }, [tenders, total]);
+
+  const updateTender = (index: number, changes: Partial<TenderRow>) =>
+    setTenders(tenders.map((t, i) => (i === index ? { ...t, ...changes } : t)));
+
+  const { settlement } = result;
+  const error = result.error ?? (settlement && creditLimitError(creditLimit, outstanding, settlement.balanceDue));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Payment</DialogTitle>
+          <DialogDescription>
+            Bill total {formatRupees(total)}
+            {creditLimit !== null && ` · Customer owes ${formatRupees(outstanding)} of a ${formatRupees(creditLimit)} limit`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {tenders.map((tender, index) => (
+            <div key={index} className="grid grid-cols-[110px_1fr_1fr_auto] gap-2 items-end">
+              <div>
+                {index === 0 && <Label className="text-xs">Mode</Label>}
+                <Select value={tender.mode} onValueChange={(mode) => updateTender(index, { mode: mode as PaymentMode })}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_MODES.map(({ mode, label }) => (
+                      <SelectItem key={mode} value={mode}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                {index === 0 && <Label className="text-xs">Amount</Label>}
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={tender.amount}
+                  onChange={(e) => updateTender(index, { amount: e.target.value })}
+                  className="h-9"
+                />
+              </div>
+              <div>
+                {index === 0 && <Label className="text-xs">Reference</Label>}
+                <Input
+                  value={tender.reference}
+                  placeholder={tender.mode === "upi" ? "UPI ref." : tender.mode === "card" ? "Slip no." : ""}
+                  disabled={tender.mode === "cash"}
+                  onChange={(e) => updateTender(index, { reference: e.target.value })}
+                  className="h-9"
+                />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-9 w-9 p-0"
+                disabled={tenders.length === 1}
+                onClick={() => setTenders(tenders.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              const left = settlement ? Math.max(settlement.balanceDue, 0) : 0;
+              setTenders([...tenders, { mode: "upi", amount: left > 0 ? String(left) : "", reference: "" }]);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Tender
+          </Button>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {settlement && (
+            <div className="border-t pt-3 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Paid</span>
+                <span>{formatRupees(settlement.amountPaid)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Balance due</span>
+                <span>{formatRupees(settlement.balanceDue)}</span>
+              </div>
+              <div className="flex justify-between font-semibold text-base">
+                <span>Change due</span>
+                <span>{formatRupees(settlement.changeDue)}</span>
+              </div>
+              <div className="flex justify-end">
+                <Badge variant={settlement.paymentStatus === "paid" ? "default" : "secondary"}>
+                  {PAYMENT_STATUS_LABELS[settlement.paymentStatus]}
+                </Badge>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Back
+          </Button>
+          <Button disabled={!settlement || !!error || confirming} onClick={() => settlement && onConfirm(settlement)}>
+            Confirm Payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,228 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { formatRupees } from "@/lib/money";
+import { PAYMENT_MODES, balanceDue } from "@/lib/payments";
+import { creditNoteFor, returnableQuantities, type CreditNoteTotals, type ReturnLine } from "@/lib/returns";
+import { ValidationError } from "@/lib/schemas";
+import { creditNoteStorage, type Bill, type CreditNote, type CreditNoteSettlement } from "@/lib/storage";
+
+interface ReturnDialogProps {
+  // The dialog is open while a bill is given
+  bill: Bill | null;
+  onOpenChange: (open: boolean) => void;
+  onReturned: (creditNote: CreditNote) => void;
+}
+
+interface ReturnRow {
+  quantity: string;
+  damaged: boolean;
+}
+
+const REFUND_MODES = PAYMENT_MODES.filter(({ mode }) => mode !== "credit");
+
+// Picks what comes back from a bill and issues the credit note for it
+export const ReturnDialog = ({ bill, onOpenChange, onReturned }: ReturnDialogProps) => {
+  const [earlier, setEarlier] = useState<CreditNote[]>([]);
+  const [rows, setRows] = useState<ReturnRow[]>([]);
+  const [settlement, setSettlement] = useState<CreditNoteSettlement>("refund");
+  const [refundMode, setRefundMode] = useState<NonNullable<CreditNote["refundMode"]>>("cash");
+  const [reason, setReason] = useState("");
+  const [saveError, setSaveError] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!bill) return;
+    setRows(bill.items.map(() => ({ quantity: "", damaged: false })));
+    // Anything still owed on the bill is the natural place for the return to go
+    setSettlement(balanceDue(bill) > 0 ? "account" : "refund");
+    setRefundMode("cash");
+    setReason("");
+    setSaveError("");
+    creditNoteStorage.getByBill(bill.id).then(setEarlier);
+  }, [bill]);
+
+  const returnable = useMemo(() => (bill ? returnableQuantities(bill, earlier) : []), [bill, earlier]);
+
+  const lines = useMemo(
+    (): ReturnLine[] =>
+      rows.map((row, lineIndex) => ({ lineIndex, quantity: parseFloat(row.quantity || "0"), damaged: row.damaged })),
+    [rows]
+  );
+
+  const preview = useMemo((): { totals?: CreditNoteTotals; error?: string } => {
+    if (!bill || lines.every((line) => !(line.quantity > 0))) return {};
+    try {
+      return { totals: creditNoteFor(bill, earlier, lines) };
+    } catch (error) {
+      if (error instanceof ValidationError) return { error: error.issues[0]?.message };
+      throw error;
+    }
+  }, [bill, earlier, lines]);
+
+  const updateRow = (index: number, changes: Partial<ReturnRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    setSaveError("");
+  };
+
+  const issueCreditNote = async () => {
+    if (!bill) return;
+    setSaving(true);
+    try {
+      const creditNote = await creditNoteStorage.add(bill.id, { lines, settlement, refundMode, reason });
+      onReturned(creditNote);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        setSaveError(error.issues[0]?.message ?? "Could not issue the credit note");
+        return;
+      }
+      throw error;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const { totals } = preview;
+  const error = preview.error ?? saveError;
+
+  return (
+    <Dialog open={bill !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Return Items - {bill?.invoiceNumber}</DialogTitle>
+          <DialogDescription>
+            Returned goods go back into stock, or into damaged stock, and a credit note is issued against this invoice.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead className="text-right">Sold</TableHead>
+              <TableHead className="text-right">Returnable</TableHead>
+              <TableHead className="w-24">Return</TableHead>
+              <TableHead>Damaged</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {bill?.items.map((item, index) => (
+              <TableRow key={index}>
+                <TableCell>{item.productName}</TableCell>
+                <TableCell className="text-right">{item.quantity}</TableCell>
+                <TableCell className="text-right">{returnable[index]}</TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={returnable[index]}
+                    value={rows[index]?.quantity ?? ""}
+                    disabled={!returnable[index]}
+                    onChange={(e) => updateRow(index, { quantity: e.target.value })}
+                    className="h-8"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Checkbox
+                    checked={rows[index]?.damaged ?? false}
+                    disabled={!returnable[index]}
+                    onCheckedChange={(checked) => updateRow(index, { damaged: checked === true })}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label className="text-xs">Settle by</Label>
+            <Select value={settlement} onValueChange={(value) => {
+                setSettlement(value as CreditNoteSettlement);
+                setSaveError("");
+              }}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="refund">Refund the customer</SelectItem>
+                <SelectItem value="account">Credit the customer's account</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {settlement === "refund" && (
+            <div>
+              <Label className="text-xs">Refund by</Label>
+              <Select value={refundMode} onValueChange={(mode) => setRefundMode(mode as typeof refundMode)}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REFUND_MODES.map(({ mode, label }) => (
+                    <SelectItem key={mode} value={mode}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        <Input placeholder="Reason for the return" value={reason} onChange={(e) => setReason(e.target.value)} />
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {totals && (
+          <div className="border-t pt-3 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Taxable value</span>
+              <span>{formatRupees(totals.taxable)}</span>
+            </div>
+            {totals.supplyType === "intra" ? (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">CGST reversed</span>
+                  <span>{formatRupees(totals.cgstAmount)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">SGST reversed</span>
+                  <span>{formatRupees(totals.sgstAmount)}</span>
+                </div>
+              </>
+            ) : (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">IGST reversed</span>
+                <span>{formatRupees(totals.igstAmount)}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-semibold text-base">
+              <span>Credit note total</span>
+              <span>{formatRupees(totals.total)}</span>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={!totals || saving} onClick={issueCreditNote}>
+            Issue Credit Note
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
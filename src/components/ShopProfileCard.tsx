@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from "react";
+import { ImagePlus, Store, X } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DEFAULT_SHOP_PROFILE, shopProfileStorage, type ShopProfile } from "@/lib/storage";
+import { INDIAN_STATES, gstinStateCode } from "@/lib/gst";
+import { MAX_LOGO_LENGTH, ValidationError } from "@/lib/schemas";
+
+const NO_STATE = "none";
+
+// Printed at the top and bottom of every invoice
+export const ShopProfileCard = () => {
+  const [profile, setProfile] = useState<ShopProfile>(DEFAULT_SHOP_PROFILE);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const logoInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    shopProfileStorage.get().then(setProfile);
+  }, []);
+
+  const update = (changes: Partial<ShopProfile>) => setProfile({ ...profile, ...changes });
+
+  const handleLogo = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const logo = String(reader.result);
+      if (logo.length > MAX_LOGO_LENGTH) {
+        toast.error("Logo is too large; use an image under 150 KB");
+        return;
+      }
+      update({ logo });
+    };
+    reader.readAsDataURL(file);
+    if (logoInput.current) logoInput.current.value = "";
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await shopProfileStorage.save(profile);
+      setErrors({});
+      toast.success("Shop profile saved");
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        setErrors(error.fieldErrors);
+      } else {
+        toast.error("Failed to save shop profile");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fieldError = (field: keyof ShopProfile) =>
+    errors[field] && <p className="text-xs text-destructive mt-1">{errors[field]}</p>;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-foreground">
+          <Store className="h-5 w-5" />
+          Shop Profile
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Printed on every invoice. With a GSTIN, taxed bills print as a Tax Invoice; otherwise as a Bill of Supply.
+          Sales to customers in another state are billed with IGST.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <Label htmlFor="shop-legal-name">Legal Name</Label>
+            <Input
+              id="shop-legal-name"
+              value={profile.legalName}
+              onChange={(e) => update({ legalName: e.target.value })}
+            />
+            {fieldError("legalName")}
+          </div>
+          <div>
+            <Label htmlFor="shop-phone">Phone</Label>
+            <Input id="shop-phone" value={profile.phone} onChange={(e) => update({ phone: e.target.value })} />
+            {fieldError("phone")}
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="shop-address">Address</Label>
+            <Textarea
+              id="shop-address"
+              rows={2}
+              value={profile.address}
+              onChange={(e) => update({ address: e.target.value })}
+            />
+            {fieldError("address")}
+          </div>
+          <div>
+            <Label htmlFor="shop-gstin">GSTIN</Label>
+            <Input
+              id="shop-gstin"
+              value={profile.gstin}
+              placeholder="Leave blank if not registered"
+              onChange={(e) => {
+                const gstin = e.target.value.toUpperCase();
+                update({ gstin, stateCode: profile.stateCode || gstinStateCode(gstin) });
+              }}
+            />
+            {fieldError("gstin")}
+          </div>
+          <div>
+            <Label>State</Label>
+            <Select
+              value={profile.stateCode || NO_STATE}
+              onValueChange={(value) => update({ stateCode: value === NO_STATE ? "" : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_STATE}>Not set</SelectItem>
+                {INDIAN_STATES.map((state) => (
+                  <SelectItem key={state.code} value={state.code}>
+                    {state.code} - {state.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {fieldError("stateCode")}
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="shop-footer">Footer Text</Label>
+            <Textarea
+              id="shop-footer"
+              rows={2}
+              value={profile.footer}
+              onChange={(e) => update({ footer: e.target.value })}
+            />
+            {fieldError("footer")}
+          </div>
+          <div className="md:col-span-2">
+            <Label>Logo</Label>
+            <div className="flex items-center gap-3 mt-1">
+              {profile.logo && <img src={profile.logo} alt="Shop logo" className="h-12 max-w-32 object-contain border rounded" />}
+              <Button type="button" variant="outline" size="sm" onClick={() => logoInput.current?.click()}>
+                <ImagePlus className="h-4 w-4 mr-1" />
+                {profile.logo ? "Change" : "Upload"}
+              </Button>
+              {profile.logo && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => update({ logo: "" })}>
+                  <X className="h-4 w-4 mr-1" />
+                  Remove
+                </Button>
+              )}
+              <input
+                ref={logoInput}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => handleLogo(e.target.files?.[0])}
+              />
+            </div>
+            {fieldError("logo")}
+          </div>
+        </div>
+        <Button onClick={handleSave} disabled={saving}>
+          Save Profile
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,50 @@
+import { HardDrive, RotateCw, TriangleAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+interface StorageUnavailableProps {
+  error: unknown;
+  // Open the app on localStorage instead; absent when that is what already failed
+  onUseBrowserStorage?: () => void;
+}
+
+// Shown instead of the app when the storage backend cannot be opened, e.g. IndexedDB in a private window
+export const StorageUnavailable = ({ error, onUseBrowserStorage }: StorageUnavailableProps) => (
+  <div className="min-h-screen flex items-center justify-center bg-background p-4">
+    <Card className="max-w-lg w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-destructive">
+          <TriangleAlert className="h-5 w-5" />
+          Your data could not be opened
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <p className="text-muted-foreground">
+          The browser refused access to the app's storage. This happens in some private windows or when
+          site data is blocked. Nothing was changed.
+        </p>
+        <p className="font-mono text-xs border rounded-lg p-3 break-words">
+          {error instanceof Error ? error.message : String(error)}
+        </p>
+        {onUseBrowserStorage && (
+          <p className="text-muted-foreground">
+            You can carry on with basic browser storage instead. Records kept there are separate from your
+            usual data, and invoice numbers start again from the beginning of the series.
+          </p>
+        )}
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => window.location.reload()}>
+            <RotateCw className="mr-2 h-4 w-4" />
+            Try Again
+          </Button>
+          {onUseBrowserStorage && (
+            <Button variant="outline" onClick={onUseBrowserStorage}>
+              <HardDrive className="mr-2 h-4 w-4" />
+              Use Browser Storage
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  </div>
+);
@@ -0,0 +1,34 @@
+import { Cloud, CloudOff, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { useSyncStatus } from "@/hooks/use-sync-status";
+import { getSyncEngine } from "@/lib/sync/syncEngine";
+
+const labels = {
+  idle: "Synced",
+  syncing: "Syncing",
+  offline: "Offline",
+  error: "Sync error",
+};
+
+export const SyncStatusBadge = () => {
+  const status = useSyncStatus();
+  if (!status) return null;
+
+  const Icon = status.state === "offline" ? CloudOff : status.state === "syncing" ? RefreshCw : Cloud;
+  const title = status.error
+    || (status.lastSyncedAt ? `Last synced ${new Date(status.lastSyncedAt).toLocaleString()}` : "Not synced yet");
+
+  return (
+    <Badge
+      variant={status.state === "error" ? "destructive" : "outline"}
+      className="gap-1 cursor-pointer"
+      title={title}
+      onClick={() => getSyncEngine()?.syncNow()}
+    >
+      <Icon className={status.state === "syncing" ? "h-3 w-3 animate-spin" : "h-3 w-3"} />
+      {labels[status.state]}
+      {status.pending > 0 && ` · ${status.pending} pending`}
+      {status.quarantined > 0 && ` · ${status.quarantined} refused`}
+    </Badge>
+  );
+};
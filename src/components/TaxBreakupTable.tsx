@@ -0,0 +1,52 @@
+import type { SupplyType } from "@/lib/gst";
+import type { TaxBreakupRow } from "@/lib/storage";
+import { formatAmount } from "@/lib/money";
+
+interface TaxBreakupTableProps {
+  rows: TaxBreakupRow[];
+  supplyType: SupplyType;
+  className?: string;
+}
+
+// HSN-wise tax summary printed under the bill totals
+export const TaxBreakupTable = ({ rows, supplyType, className }: TaxBreakupTableProps) => {
+  if (rows.length === 0) return null;
+  const intra = supplyType === "intra";
+
+  return (
+    <table className={`w-full ${className ?? "text-xs"}`}>
+      <thead>
+        <tr className="border-b">
+          <th className="text-left py-1">HSN</th>
+          <th className="text-right py-1">Rate</th>
+          <th className="text-right py-1">Taxable</th>
+          {intra ? (
+            <>
+              <th className="text-right py-1">CGST</th>
+              <th className="text-right py-1">SGST</th>
+            </>
+          ) : (
+            <th className="text-right py-1">IGST</th>
+          )}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={`${row.hsnCode}|${row.gstRate}`}>
+            <td className="py-0.5">{row.hsnCode || "—"}</td>
+            <td className="text-right">{row.gstRate}%</td>
+            <td className="text-right">{formatAmount(row.taxableValue)}</td>
+            {intra ? (
+              <>
+                <td className="text-right">{formatAmount(row.cgst)}</td>
+                <td className="text-right">{formatAmount(row.sgst)}</td>
+              </>
+            ) : (
+              <td className="text-right">{formatAmount(row.igst)}</td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
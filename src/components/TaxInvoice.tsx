@@ -0,0 +1,192 @@
+import { TaxBreakupTable } from "@/components/TaxBreakupTable";
+import { invoiceTitle, stateLabel } from "@/lib/gst";
+import type { DiscountType, InvoiceTotals } from "@/lib/invoice";
+import { formatRupees } from "@/lib/money";
+import { paymentModeLabel } from "@/lib/payments";
+import type { BillItem, Payment, ShopProfile } from "@/lib/storage";
+
+interface TaxInvoiceProps {
+  shop: ShopProfile;
+  invoiceNumber: string;
+  date: string | Date;
+  customer: {
+    name: string;
+    phone?: string;
+    gstin?: string;
+    state?: string;
+  };
+  // State code; the shop's own state when not given
+  placeOfSupply?: string;
+  items: BillItem[];
+  invoice: InvoiceTotals;
+  // How the bill discount was entered; percent when not given
+  discountType?: DiscountType;
+  // Absent before the bill is paid
+  payments?: Payment[];
+  // Set on quotations, which print as an estimate valid until this YYYY-MM-DD date
+  validUntil?: string;
+  // Reprints of a cancelled bill say so
+  cancelled?: {
+    at: string;
+    reason: string;
+  };
+}
+
+const Row = ({ label, value, bold }: { label: string; value: string; bold?: boolean }) => (
+  <div className={`flex justify-between ${bold ? "font-bold text-sm border-t border-black mt-1 pt-1" : ""}`}>
+    <span>{label}</span>
+    <span>{value}</span>
+  </div>
+);
+
+// 80mm thermal layout with the particulars GST rules require on a tax invoice
+export const TaxInvoice = ({
+  shop,
+  invoiceNumber,
+  date,
+  customer,
+  placeOfSupply,
+  items,
+  invoice,
+  discountType = "percent",
+  payments = [],
+  validUntil,
+  cancelled,
+}: TaxInvoiceProps) => {
+  const title = validUntil ? "Estimate" : invoiceTitle(shop.gstin, invoice.gstAmount);
+  const issuedAt = new Date(date);
+
+  return (
+    <div style={{ width: "80mm", padding: "5mm", fontFamily: "monospace", fontSize: "11px" }}>
+      <div className="text-center border-b-2 border-dashed border-black pb-2 mb-2">
+        {shop.logo && <img src={shop.logo} alt="" className="mx-auto mb-1 max-h-16 object-contain" />}
+        <div className="text-lg font-bold">{shop.legalName}</div>
+        {shop.address && <div className="text-[10px] whitespace-pre-line">{shop.address}</div>}
+        {shop.phone && <div className="text-[10px]">Phone: {shop.phone}</div>}
+        {shop.gstin && <div className="text-[10px]">GSTIN: {shop.gstin}</div>}
+        {shop.stateCode && <div className="text-[10px]">State: {stateLabel(shop.stateCode)}</div>}
+      </div>
+
+      <div className="text-center font-bold text-sm uppercase mb-2">{title}</div>
+
+      {cancelled && (
+        <div className="text-center border-2 border-black py-1 mb-2">
+          <div className="text-base font-bold">CANCELLED</div>
+          <div className="text-[10px]">{new Date(cancelled.at).toLocaleString()}</div>
+          {cancelled.reason && <div className="text-[10px]">{cancelled.reason}</div>}
+        </div>
+      )}
+
+      <div className="mb-2 space-y-0.5">
+        <div><strong>{validUntil ? "Quotation" : "Invoice"}:</strong> {invoiceNumber}</div>
+        <div><strong>Date:</strong> {issuedAt.toLocaleDateString()} {issuedAt.toLocaleTimeString()}</div>
+        {validUntil && (
+          <div><strong>Valid Until:</strong> {new Date(`${validUntil}T00:00:00`).toLocaleDateString()}</div>
+        )}
+        <div><strong>Place of Supply:</strong> {stateLabel(placeOfSupply || shop.stateCode) || "—"}</div>
+        {title === "Tax Invoice" && <div><strong>Reverse Charge:</strong> No</div>}
+      </div>
+
+      <div className="mb-2 border-t border-dashed border-black pt-1 space-y-0.5">
+        <div><strong>Bill To:</strong> {customer.name}</div>
+        {customer.phone && <div><strong>Phone:</strong> {customer.phone}</div>}
+        {customer.gstin && <div><strong>GSTIN:</strong> {customer.gstin}</div>}
+        {customer.state && <div><strong>State:</strong> {stateLabel(customer.state)}</div>}
+      </div>
+
+      <div className="border-y-2 border-dashed border-black py-1">
+        <table className="w-full">
+          <thead>
+            <tr>
+              <th className="text-left">Item</th>
+              <th className="text-center">Qty</th>
+              <th className="text-right">Rate</th>
+              <th className="text-right">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item, i) => (
+              <tr key={i} className="align-top">
+                <td className="pr-1">
+                  {item.productName}
+                  <div className="text-[9px]">
+                    {item.hsnCode ? `HSN ${item.hsnCode} · ` : ""}GST {invoice.lineRates[i]}%
+                  </div>
+                  {invoice.lineDiscounts[i] > 0 && (
+                    <div className="text-[9px]">
+                      Less{item.discount?.type === "percent" ? ` ${item.discount.value}%` : ""}:{" "}
+                      -{formatRupees(invoice.lineDiscounts[i])} = {formatRupees(invoice.lineNetAmounts[i])}
+                    </div>
+                  )}
+                </td>
+                <td className="text-center">{item.quantity}</td>
+                <td className="text-right">{formatRupees(item.price)}</td>
+                <td className="text-right">{formatRupees(invoice.lineTotals[i])}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-2 space-y-0.5">
+        <Row label="Subtotal:" value={formatRupees(invoice.subtotal)} />
+        {invoice.itemDiscount > 0 && <Row label="Item Discounts:" value={`-${formatRupees(invoice.itemDiscount)}`} />}
+        {invoice.discount > 0 && (
+          <Row
+            label={discountType === "percent" ? `Discount (${invoice.discountPercent}%):` : "Discount:"}
+            value={`-${formatRupees(invoice.discount)}`}
+          />
+        )}
+        <Row label="Taxable Value:" value={formatRupees(invoice.taxable)} />
+        {invoice.supplyType === "intra" ? (
+          <>
+            <Row label="CGST:" value={formatRupees(invoice.cgst)} />
+            <Row label="SGST:" value={formatRupees(invoice.sgst)} />
+          </>
+        ) : (
+          <Row label="IGST:" value={formatRupees(invoice.igst)} />
+        )}
+        {invoice.roundOff !== 0 && <Row label="Round Off:" value={formatRupees(invoice.roundOff)} />}
+        <Row label="TOTAL:" value={formatRupees(invoice.total)} bold />
+      </div>
+
+      {payments.length > 0 && (
+        <div className="mt-2 border-t border-dashed border-black pt-1 space-y-0.5">
+          {payments.map((payment, i) => (
+            <div key={i}>
+              <Row
+                label={`${paymentModeLabel(payment.mode)}${payment.reference ? ` (${payment.reference})` : ""}:`}
+                value={formatRupees(payment.tendered ?? payment.amount)}
+              />
+              {payment.tendered !== undefined && (
+                <Row label="Change:" value={formatRupees(payment.tendered - payment.amount)} />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-2 border-t border-dashed border-black pt-1">
+        <div className="font-bold text-[10px]">HSN Summary</div>
+        <TaxBreakupTable rows={invoice.taxBreakup} supplyType={invoice.supplyType} className="text-[10px]" />
+      </div>
+
+      {validUntil && (
+        <div className="mt-2 text-center text-[10px]">Prices and stock are confirmed when the order is billed. This is not a tax invoice.</div>
+      )}
+
+      {title === "Tax Invoice" && (
+        <div className="mt-4 text-right text-[10px]">
+          <div>For {shop.legalName}</div>
+          <div className="mt-4">Authorised Signatory</div>
+        </div>
+      )}
+
+      {shop.footer && (
+        <div className="text-center mt-3 text-[10px] border-t-2 border-dashed border-black pt-2 whitespace-pre-line">
+          {shop.footer}
+        </div>
+      )}
+    </div>
+  );
+};
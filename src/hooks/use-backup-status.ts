@@ -0,0 +1,13 @@
+import * as React from "react";
+import { getBackupStatus, subscribeToBackupStatus, type BackupStatus } from "@/lib/autoBackup";
+
+export function useBackupStatus(): BackupStatus {
+  const [status, setStatus] = React.useState<BackupStatus>(getBackupStatus);
+
+  React.useEffect(() => {
+    setStatus(getBackupStatus());
+    return subscribeToBackupStatus(setStatus);
+  }, []);
+
+  return status;
+}
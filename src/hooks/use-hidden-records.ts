@@ -0,0 +1,14 @@
+import * as React from "react";
+import { getHiddenRecordCount, subscribeHiddenRecords } from "@/lib/storage";
+
+// Records held back from the pages because they fail validation
+export function useHiddenRecordCount(): number {
+  const [count, setCount] = React.useState(getHiddenRecordCount);
+
+  React.useEffect(() => {
+    setCount(getHiddenRecordCount());
+    return subscribeHiddenRecords(setCount);
+  }, []);
+
+  return count;
+}
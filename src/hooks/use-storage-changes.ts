@@ -0,0 +1,21 @@
+import * as React from "react";
+import type { TableName } from "@/lib/backends/types";
+import { subscribeToChanges } from "@/lib/storageEvents";
+
+/**
+ * Call `onChange` whenever one of `tables` is written, in this tab or another.
+ */
+export function useStorageChanges(tables: TableName[], onChange: () => void) {
+  const callback = React.useRef(onChange);
+  callback.current = onChange;
+  const key = tables.join(",");
+
+  React.useEffect(() => {
+    const watched = key.split(",");
+    return subscribeToChanges((changed) => {
+      if (changed.some((table) => watched.includes(table))) {
+        callback.current();
+      }
+    });
+  }, [key]);
+}
@@ -0,0 +1,15 @@
+import * as React from "react";
+import { getSyncEngine, type SyncStatus } from "@/lib/sync/syncEngine";
+
+export function useSyncStatus(): SyncStatus | null {
+  const engine = getSyncEngine();
+  const [status, setStatus] = React.useState<SyncStatus | null>(() => engine?.getStatus() ?? null);
+
+  React.useEffect(() => {
+    if (!engine) return;
+    setStatus(engine.getStatus());
+    return engine.subscribe(setStatus);
+  }, [engine]);
+
+  return status;
+}
@@ -14,13 +14,339 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      bill_items: {
+        Row: {
+          bill_id: string
+          extra: Json
+          line_no: number
+          price: number
+          product_id: string
+          product_name: string
+          quantity: number
+          total: number
+        }
+        Insert: {
+          bill_id: string
+          extra?: Json
+          line_no: number
+          price: number
+          product_id: string
+          product_name: string
+          quantity: number
+          total: number
+        }
+        Update: {
+          bill_id?: string
+          extra?: Json
+          line_no?: number
+          price?: number
+          product_id?: string
+          product_name?: string
+          quantity?: number
+          total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_items_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bills: {
+        Row: {
+          created_at: string
+          customer_id: string
+          customer_name: string
+          deleted_at: string | null
+          discount: number
+          extra: Json
+          gst_amount: number
+          gst_percent: number
+          id: string
+          invoice_number: string
+          subtotal: number
+          total: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          customer_name?: string
+          deleted_at?: string | null
+          discount?: number
+          extra?: Json
+          gst_amount?: number
+          gst_percent?: number
+          id: string
+          invoice_number: string
+          subtotal?: number
+          total?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          customer_name?: string
+          deleted_at?: string | null
+          discount?: number
+          extra?: Json
+          gst_amount?: number
+          gst_percent?: number
+          id?: string
+          invoice_number?: string
+          subtotal?: number
+          total?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      credit_notes: {
+        Row: {
+          bill_id: string
+          created_at: string
+          credit_note_number: string
+          customer_id: string
+          customer_name: string
+          deleted_at: string | null
+          extra: Json
+          gst_amount: number
+          id: string
+          invoice_number: string
+          items: Json
+          settlement: string
+          tax_breakup: Json
+          taxable: number
+          total: number
+          updated_at: string
+        }
+        Insert: {
+          bill_id: string
+          created_at?: string
+          credit_note_number: string
+          customer_id: string
+          customer_name?: string
+          deleted_at?: string | null
+          extra?: Json
+          gst_amount?: number
+          id: string
+          invoice_number?: string
+          items?: Json
+          settlement: string
+          tax_breakup?: Json
+          taxable?: number
+          total?: number
+          updated_at?: string
+        }
+        Update: {
+          bill_id?: string
+          created_at?: string
+          credit_note_number?: string
+          customer_id?: string
+          customer_name?: string
+          deleted_at?: string | null
+          extra?: Json
+          gst_amount?: number
+          id?: string
+          invoice_number?: string
+          items?: Json
+          settlement?: string
+          tax_breakup?: Json
+          taxable?: number
+          total?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      customers: {
+        Row: {
+          address: string
+          created_at: string
+          deleted_at: string | null
+          extra: Json
+          id: string
+          name: string
+          phone: string
+          updated_at: string
+        }
+        Insert: {
+          address?: string
+          created_at?: string
+          deleted_at?: string | null
+          extra?: Json
+          id: string
+          name: string
+          phone?: string
+          updated_at?: string
+        }
+        Update: {
+          address?: string
+          created_at?: string
+          deleted_at?: string | null
+          extra?: Json
+          id?: string
+          name?: string
+          phone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      products: {
+        Row: {
+          created_at: string
+          deleted_at: string | null
+          extra: Json
+          id: string
+          min_stock: number
+          name: string
+          parent_id: string | null
+          price: number
+          stock: number
+          unit: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          deleted_at?: string | null
+          extra?: Json
+          id: string
+          min_stock?: number
+          name: string
+          parent_id?: string | null
+          price?: number
+          stock?: number
+          unit?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          deleted_at?: string | null
+          extra?: Json
+          id?: string
+          min_stock?: number
+          name?: string
+          parent_id?: string | null
+          price?: number
+          stock?: number
+          unit?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      quotations: {
+        Row: {
+          bill_id: string | null
+          created_at: string
+          customer_id: string
+          customer_name: string
+          deleted_at: string | null
+          discount: number
+          extra: Json
+          gst_amount: number
+          id: string
+          items: Json
+          quotation_number: string
+          subtotal: number
+          tax_breakup: Json
+          total: number
+          updated_at: string
+          valid_until: string
+        }
+        Insert: {
+          bill_id?: string | null
+          created_at?: string
+          customer_id: string
+          customer_name?: string
+          deleted_at?: string | null
+          discount?: number
+          extra?: Json
+          gst_amount?: number
+          id: string
+          items?: Json
+          quotation_number: string
+          subtotal?: number
+          tax_breakup?: Json
+          total?: number
+          updated_at?: string
+          valid_until: string
+        }
+        Update: {
+          bill_id?: string | null
+          created_at?: string
+          customer_id?: string
+          customer_name?: string
+          deleted_at?: string | null
+          discount?: number
+          extra?: Json
+          gst_amount?: number
+          id?: string
+          items?: Json
+          quotation_number?: string
+          subtotal?: number
+          tax_breakup?: Json
+          total?: number
+          updated_at?: string
+          valid_until?: string
+        }
+        Relationships: []
+      }
+      receipts: {
+        Row: {
+          allocations: Json
+          amount: number
+          created_at: string
+          customer_id: string
+          customer_name: string
+          deleted_at: string | null
+          extra: Json
+          id: string
+          mode: string
+          receipt_number: string
+          updated_at: string
+        }
+        Insert: {
+          allocations?: Json
+          amount?: number
+          created_at?: string
+          customer_id: string
+          customer_name?: string
+          deleted_at?: string | null
+          extra?: Json
+          id: string
+          mode: string
+          receipt_number: string
+          updated_at?: string
+        }
+        Update: {
+          allocations?: Json
+          amount?: number
+          created_at?: string
+          customer_id?: string
+          customer_name?: string
+          deleted_at?: string | null
+          extra?: Json
+          id?: string
+          mode?: string
+          receipt_number?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      save_bills: {
+        Args: { bills: Json }
+        Returns: undefined
+      }
+      save_products: {
+        Args: { products: Json }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
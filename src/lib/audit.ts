@@ -0,0 +1,78 @@
+import type { StorageBackend } from './backends/types';
+import type { AuditAction, AuditChange, AuditEntityType, AuditEntry } from './storage';
+
+// Name recorded with each change; kept per device since the app has no logins
+const USER_KEY = 'aos-billing-audit-user';
+const UNKNOWN_USER = 'Unknown';
+
+export const getAuditUser = () => localStorage.getItem(USER_KEY) || UNKNOWN_USER;
+
+export const setAuditUser = (name: string) => {
+  if (name.trim()) localStorage.setItem(USER_KEY, name.trim());
+  else localStorage.removeItem(USER_KEY);
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Fields that differ between two versions of a record. A created record lists
+ * every field with only `after`; a deleted one with only `before`.
+ */
+export const diffRecords = (before?: object, after?: object): Record<string, AuditChange> => {
+  const changes: Record<string, AuditChange> = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  for (const key of keys) {
+    const from = before?.[key as keyof typeof before];
+    const to = after?.[key as keyof typeof after];
+    if (before && after && same(from, to)) continue;
+    changes[key] = {
+      ...(before ? { before: from } : {}),
+      ...(after ? { after: to } : {}),
+    };
+  }
+  return changes;
+};
+
+export interface AuditEvent {
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel: string;
+  action: AuditAction;
+  before?: object;
+  after?: object;
+  reason?: string;
+}
+
+/**
+ * Append an entry to the audit log. Call it with the same `db` as the change it
+ * describes so both land in one transaction. Updates that change nothing are
+ * not logged.
+ */
+export const recordAudit = async (db: StorageBackend, event: AuditEvent) => {
+  const changes = diffRecords(event.before, event.after);
+  if (event.action === 'update' && Object.keys(changes).length === 0) return;
+
+  const entry: AuditEntry = {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    user: getAuditUser(),
+    action: event.action,
+    entityType: event.entityType,
+    entityId: event.entityId,
+    entityLabel: event.entityLabel,
+    changes,
+    reason: event.reason?.trim() || null,
+  };
+  await db.put('audit', entry);
+};
+
+const formatValue = (value: unknown) =>
+  value === undefined ? '' : typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+
+// One line per changed field, e.g. "price: 120 → 135"
+export const describeChanges = (entry: AuditEntry) =>
+  Object.entries(entry.changes).map(([field, change]) => {
+    if (!('before' in change)) return `${field}: ${formatValue(change.after)}`;
+    if (!('after' in change)) return `${field}: ${formatValue(change.before)}`;
+    return `${field}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+  });
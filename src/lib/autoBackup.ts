@@ -0,0 +1,280 @@
+import { toast } from 'sonner';
+import { BACKUP_FILE_PREFIX, backupFileName, createBackup, downloadBackup } from './backup';
+import { getStorageBackend } from './storage';
+
+export type BackupFrequency = 'hourly' | 'daily';
+
+export interface AutoBackupSettings {
+  enabled: boolean;
+  frequency: BackupFrequency;
+  // Backup files kept in the folder; older ones are deleted
+  keep: number;
+}
+
+// ok: recent enough; due: the next scheduled backup is waiting; stale: overdue
+export type BackupState = 'ok' | 'due' | 'stale' | 'never';
+
+export interface BackupStatus {
+  settings: AutoBackupSettings;
+  state: BackupState;
+  lastBackupAt: string | null;
+  folderName: string | null;
+  // A folder is chosen but the browser wants the user to allow access again
+  needsPermission: boolean;
+  error: string | null;
+}
+
+// Parts of the File System Access API missing from the DOM typings in use
+interface BackupFolderHandle extends FileSystemDirectoryHandle {
+  queryPermission: (descriptor: { mode: 'readwrite' }) => Promise<PermissionState>;
+  requestPermission: (descriptor: { mode: 'readwrite' }) => Promise<PermissionState>;
+  keys: () => AsyncIterable<string>;
+}
+
+declare global {
+  interface Window {
+    showDirectoryPicker?: (options?: { id?: string; mode?: 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+  }
+}
+
+// Device-local, so kept outside the `billing_*` keys that backups contain
+const STATE_KEY = 'aos-billing-auto-backup';
+const HANDLE_DB = 'aos-billing-device';
+const HANDLE_STORE = 'handles';
+const FOLDER_HANDLE_KEY = 'backup_folder';
+const LOCK_NAME = 'aos-billing-backup';
+
+const HOUR_MS = 60 * 60 * 1000;
+const FREQUENCY_MS: Record<BackupFrequency, number> = { hourly: HOUR_MS, daily: 24 * HOUR_MS };
+// Without automatic backups, warn once the last manual one is a week old
+const MANUAL_STALE_MS = 7 * 24 * HOUR_MS;
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+export const DEFAULT_AUTO_BACKUP: AutoBackupSettings = { enabled: false, frequency: 'daily', keep: 7 };
+
+interface StoredState {
+  settings: AutoBackupSettings;
+  lastBackupAt: string | null;
+  folderName: string | null;
+}
+
+const readState = (): StoredState => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STATE_KEY) || '{}');
+    return {
+      settings: { ...DEFAULT_AUTO_BACKUP, ...stored.settings },
+      lastBackupAt: stored.lastBackupAt ?? null,
+      folderName: stored.folderName ?? null,
+    };
+  } catch {
+    return { settings: DEFAULT_AUTO_BACKUP, lastBackupAt: null, folderName: null };
+  }
+};
+
+const writeState = (updates: Partial<StoredState>) => {
+  localStorage.setItem(STATE_KEY, JSON.stringify({ ...readState(), ...updates }));
+  refreshStatus();
+};
+
+// Directory handles can only be persisted in IndexedDB
+const openHandleDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const req = indexedDB.open(HANDLE_DB, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(HANDLE_STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const handleRequest = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openHandleDb();
+  return new Promise<T>((resolve, reject) => {
+    const req = fn(db.transaction(HANDLE_STORE, mode).objectStore(HANDLE_STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+const loadFolder = async (): Promise<BackupFolderHandle | null> => {
+  if (typeof indexedDB === 'undefined') return null;
+  return ((await handleRequest('readonly', store => store.get(FOLDER_HANDLE_KEY))) as BackupFolderHandle) ?? null;
+};
+
+const saveFolder = (handle: FileSystemDirectoryHandle | null) =>
+  handleRequest('readwrite', store =>
+    handle ? store.put(handle, FOLDER_HANDLE_KEY) : store.delete(FOLDER_HANDLE_KEY)
+  );
+
+let status: BackupStatus = {
+  settings: DEFAULT_AUTO_BACKUP,
+  state: 'never',
+  lastBackupAt: null,
+  folderName: null,
+  needsPermission: false,
+  error: null,
+};
+const listeners = new Set<(status: BackupStatus) => void>();
+let timer: ReturnType<typeof setInterval> | null = null;
+// Last backup time we already prompted after, so the fallback toast shows once per backup.
+// Undefined until the first prompt, as null is the last backup time of a device never backed up.
+let promptedFor: string | null | undefined;
+
+const backupState = (settings: AutoBackupSettings, lastBackupAt: string | null): BackupState => {
+  if (!lastBackupAt) return 'never';
+  const age = Date.now() - Date.parse(lastBackupAt);
+  const interval = FREQUENCY_MS[settings.frequency];
+  if (age > (settings.enabled ? 2 * interval : MANUAL_STALE_MS)) return 'stale';
+  if (settings.enabled && age > interval) return 'due';
+  return 'ok';
+};
+
+const setStatus = (updates: Partial<BackupStatus>) => {
+  status = { ...status, ...updates };
+  listeners.forEach(listener => listener(status));
+};
+
+const refreshStatus = () => {
+  const { settings, lastBackupAt, folderName } = readState();
+  setStatus({ settings, lastBackupAt, folderName, state: backupState(settings, lastBackupAt) });
+};
+
+export const isFolderBackupSupported = () => typeof window !== 'undefined' && !!window.showDirectoryPicker;
+
+const hasPermission = async (folder: BackupFolderHandle, interactive: boolean) => {
+  if ((await folder.queryPermission({ mode: 'readwrite' })) === 'granted') return true;
+  // Asking again needs a user gesture, so only interactive runs may prompt
+  return interactive && (await folder.requestPermission({ mode: 'readwrite' })) === 'granted';
+};
+
+// Delete all but the newest `keep` backups; names sort by the time they were taken
+const pruneFolder = async (folder: BackupFolderHandle, keep: number) => {
+  const names: string[] = [];
+  for await (const name of folder.keys()) {
+    if (name.startsWith(BACKUP_FILE_PREFIX) && name.endsWith('.json')) names.push(name);
+  }
+  names.sort();
+  for (const name of names.slice(0, Math.max(0, names.length - keep))) {
+    await folder.removeEntry(name);
+  }
+};
+
+export const markBackedUp = (at = new Date().toISOString()) => {
+  setStatus({ error: null, needsPermission: false });
+  writeState({ lastBackupAt: at });
+};
+
+/**
+ * Take a backup now. It is written to the chosen folder when the browser allows
+ * it; interactive runs (from a click) may ask for folder access again or fall
+ * back to downloading the file. Resolves to whether a backup was taken.
+ */
+export const runBackupNow = async ({ interactive = false }: { interactive?: boolean } = {}): Promise<boolean> => {
+  try {
+    const folder = isFolderBackupSupported() ? await loadFolder() : null;
+    if (folder && (await hasPermission(folder, interactive))) {
+      const archive = await createBackup(getStorageBackend());
+      const file = await folder.getFileHandle(backupFileName(archive), { create: true });
+      const writable = await file.createWritable();
+      await writable.write(JSON.stringify(archive));
+      await writable.close();
+      await pruneFolder(folder, readState().settings.keep);
+      markBackedUp(archive.createdAt);
+      return true;
+    }
+    if (interactive) {
+      const archive = await downloadBackup(getStorageBackend());
+      markBackedUp(archive.createdAt);
+      return true;
+    }
+    setStatus({ needsPermission: !!folder });
+    return false;
+  } catch (error) {
+    console.error('Backup failed:', error);
+    setStatus({ error: error instanceof Error ? error.message : 'Backup failed' });
+    return false;
+  }
+};
+
+export const chooseBackupFolder = async () => {
+  if (!window.showDirectoryPicker) return false;
+  try {
+    const folder = await window.showDirectoryPicker({ id: 'aos-billing-backups', mode: 'readwrite' });
+    await saveFolder(folder);
+    writeState({ folderName: folder.name });
+    setStatus({ needsPermission: false });
+    return runBackupNow({ interactive: true });
+  } catch (error) {
+    // Closing the picker rejects with AbortError
+    if (error instanceof DOMException && error.name === 'AbortError') return false;
+    throw error;
+  }
+};
+
+export const forgetBackupFolder = async () => {
+  await saveFolder(null);
+  writeState({ folderName: null });
+};
+
+export const saveAutoBackupSettings = (settings: AutoBackupSettings) => {
+  writeState({ settings: { ...settings, keep: Math.max(1, Math.round(settings.keep)) } });
+  checkSchedule();
+};
+
+// Only one tab runs a scheduled backup; the others see it through `storage`
+const withBackupLock = (fn: () => Promise<void>) => {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(LOCK_NAME, { ifAvailable: true }, lock => (lock ? fn() : undefined));
+  }
+  return fn();
+};
+
+const checkSchedule = () => {
+  refreshStatus();
+  if (!status.settings.enabled || status.state === 'ok') return;
+
+  withBackupLock(async () => {
+    const { settings, lastBackupAt } = readState();
+    if (!settings.enabled || backupState(settings, lastBackupAt) === 'ok') return;
+    if (await runBackupNow()) return;
+
+    // No folder access without a click: ask once per missed backup
+    if (promptedFor === lastBackupAt) return;
+    promptedFor = lastBackupAt;
+    toast.warning('A scheduled backup is due', {
+      description: status.needsPermission
+        ? 'Allow access to the backup folder again to keep writing backups there.'
+        : 'This browser cannot write to a folder automatically, so the backup will be downloaded.',
+      action: { label: 'Back up now', onClick: () => runBackupNow({ interactive: true }) },
+      duration: Infinity,
+    });
+  });
+};
+
+const handleStorageEvent = (event: StorageEvent) => {
+  if (event.key === STATE_KEY) refreshStatus();
+};
+
+/**
+ * Check every minute whether a scheduled backup is due. Safe to call once at
+ * startup in every tab.
+ */
+export const startAutoBackup = () => {
+  if (timer) return;
+  window.addEventListener('storage', handleStorageEvent);
+  timer = setInterval(checkSchedule, CHECK_INTERVAL_MS);
+  checkSchedule();
+};
+
+export const stopAutoBackup = () => {
+  if (timer) clearInterval(timer);
+  timer = null;
+  window.removeEventListener('storage', handleStorageEvent);
+};
+
+export const getBackupStatus = () => status;
+
+export const subscribeToBackupStatus = (listener: (status: BackupStatus) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,57 @@
+import { keepPreMigrationBackup } from '../backup';
+import { MigrationError, runMigrations } from '../migrations';
+import { setStorageBackend } from '../storage';
+import { withChangeEvents } from '../storageEvents';
+import { createSyncEngine, setSyncEngine } from '../sync/syncEngine';
+import { indexedDbBackend } from './indexedDbBackend';
+import { localStorageBackend } from './localStorageBackend';
+import { createSyncedBackend } from './syncedBackend';
+import type { StorageBackend } from './types';
+
+export type { KeyRange, StorageBackend, TableName, TableRecords } from './types';
+
+const backends: Record<string, () => StorageBackend | Promise<StorageBackend>> = {
+  local: () => localStorageBackend,
+  indexeddb: () => indexedDbBackend,
+  // IndexedDB on the device, mirrored to Supabase whenever it is reachable
+  supabase: async () => {
+    const [{ supabase }, { createSupabaseRemote }] = await Promise.all([
+      import('@/integrations/supabase/client'),
+      import('../sync/supabaseRemote'),
+    ]);
+    const engine = createSyncEngine(indexedDbBackend, createSupabaseRemote(supabase));
+    setSyncEngine(engine);
+    return createSyncedBackend(indexedDbBackend, engine);
+  },
+};
+
+const defaultBackend = () => (typeof indexedDB !== 'undefined' ? 'indexeddb' : 'local');
+
+/**
+ * Select and initialise the storage backend. Called once before the app renders;
+ * the choice comes from `VITE_STORAGE_BACKEND` and defaults to IndexedDB where
+ * the browser has it. Stored records are upgraded to the current schema before
+ * any page reads them; if that fails a MigrationError is thrown instead, since
+ * the pages cannot safely work on data in an older shape.
+ */
+export const initStorage = async (
+  name: string = import.meta.env.VITE_STORAGE_BACKEND || defaultBackend()
+): Promise<StorageBackend> => {
+  const create = backends[name];
+  if (!create) {
+    console.warn(`Unknown storage backend "${name}", falling back to localStorage`);
+  }
+  const backend = await (create || backends.local)();
+  await backend.init();
+  try {
+    const report = await runMigrations(backend, { backup: keepPreMigrationBackup });
+    if (report.steps.length > 0) {
+      console.info(`Migrated stored data from schema v${report.fromVersion} to v${report.toVersion}`, report);
+    }
+  } catch (error) {
+    console.error('Schema migration failed:', error);
+    throw new MigrationError(error instanceof Error ? error.message : String(error), backend);
+  }
+  setStorageBackend(withChangeEvents(backend));
+  return backend;
+};
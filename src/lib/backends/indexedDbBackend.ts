@@ -0,0 +1,159 @@
+import type { KeyRange, StorageBackend, TableName, TableRecords } from './types';
+
+const DB_NAME = 'aos-billing';
+const DB_VERSION = 7;
+const META_STORE = 'meta';
+
+// Indexed fields per table; queries on other fields fall back to a full scan
+const TABLE_INDEXES: Record<TableName, string[]> = {
+  products: ['parentId', 'deletedAt'],
+  customers: ['phone', 'deletedAt'],
+  bills: ['createdAt', 'customerId', 'invoiceNumber', 'deletedAt'],
+  receipts: ['createdAt', 'customerId', 'receiptNumber'],
+  creditNotes: ['createdAt', 'customerId', 'billId', 'creditNoteNumber'],
+  quotations: ['createdAt', 'customerId', 'quotationNumber'],
+  audit: ['timestamp', 'entityType', 'entityId'],
+};
+
+// Legacy localStorage keys copied over on first start
+const LEGACY_PREFIX = 'billing_';
+const LEGACY_META_KEYS = ['invoice_counter'];
+const MIGRATION_MARKER = 'migrated_from_local_storage';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        for (const [table, indexes] of Object.entries(TABLE_INDEXES)) {
+          const store = db.objectStoreNames.contains(table)
+            ? req.transaction!.objectStore(table)
+            : db.createObjectStore(table, { keyPath: 'id' });
+          // Indexes added in later versions are created on existing stores too
+          for (const field of indexes) {
+            if (!store.indexNames.contains(field)) store.createIndex(field, field, { unique: false });
+          }
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+  return dbPromise;
+};
+
+const getStore = async (name: string, mode: IDBTransactionMode) => {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+};
+
+const toKeyRange = (range: KeyRange): IDBKeyRange | undefined => {
+  const { lower, upper } = range;
+  if (lower !== undefined && upper !== undefined) return IDBKeyRange.bound(lower, upper);
+  if (lower !== undefined) return IDBKeyRange.lowerBound(lower);
+  if (upper !== undefined) return IDBKeyRange.upperBound(upper);
+  return undefined;
+};
+
+/**
+ * Copy the `billing_*` localStorage tables and counters into IndexedDB once.
+ * The legacy keys are left in place so an older build can still read them.
+ */
+const migrateFromLocalStorage = async () => {
+  const db = await openDatabase();
+  const marker = await request((await getStore(META_STORE, 'readonly')).get(MIGRATION_MARKER));
+  if (marker) return;
+
+  const tables = Object.keys(TABLE_INDEXES);
+  const tx = db.transaction([...tables, META_STORE], 'readwrite');
+  for (const table of tables) {
+    const data = localStorage.getItem(`${LEGACY_PREFIX}${table}`);
+    if (!data) continue;
+    const store = tx.objectStore(table);
+    for (const record of JSON.parse(data)) {
+      store.put(record);
+    }
+  }
+  const meta = tx.objectStore(META_STORE);
+  for (const key of LEGACY_META_KEYS) {
+    const data = localStorage.getItem(`${LEGACY_PREFIX}${key}`);
+    if (data) meta.put(JSON.parse(data), key);
+  }
+  meta.put(new Date().toISOString(), MIGRATION_MARKER);
+  await transactionDone(tx);
+};
+
+/**
+ * IndexedDB backend: one object store per table keyed by id, with indexes on
+ * the fields pages filter by, plus a key-value store for counters.
+ */
+export const indexedDbBackend: StorageBackend = {
+  name: 'indexeddb',
+  init: async () => {
+    await openDatabase();
+    await migrateFromLocalStorage();
+  },
+  getAll: async <K extends TableName>(table: K) =>
+    request((await getStore(table, 'readonly')).getAll()) as Promise<TableRecords[K][]>,
+  get: async <K extends TableName>(table: K, id: string) =>
+    request((await getStore(table, 'readonly')).get(id)) as Promise<TableRecords[K] | undefined>,
+  put: async (table, record) => {
+    await request((await getStore(table, 'readwrite')).put(record));
+  },
+  replaceAll: async (table, records) => {
+    const db = await openDatabase();
+    const tx = db.transaction(table, 'readwrite');
+    const store = tx.objectStore(table);
+    store.clear();
+    for (const record of records) {
+      store.put(record);
+    }
+    await transactionDone(tx);
+  },
+  remove: async (table, id) => {
+    await request((await getStore(table, 'readwrite')).delete(id));
+  },
+  query: async <K extends TableName>(table: K, field: keyof TableRecords[K] & string, range: KeyRange) => {
+    const store = await getStore(table, 'readonly');
+    if (!TABLE_INDEXES[table].includes(field)) {
+      const records = (await request(store.getAll())) as TableRecords[K][];
+      const keyRange = toKeyRange(range);
+      return records.filter(r => r[field] != null && (!keyRange || keyRange.includes(String(r[field]))));
+    }
+    return request(store.index(field).getAll(toKeyRange(range))) as Promise<TableRecords[K][]>;
+  },
+  count: async (table) => request((await getStore(table, 'readonly')).count()),
+  metaKeys: async () => {
+    const keys = await request((await getStore(META_STORE, 'readonly')).getAllKeys());
+    return keys.map(String).filter(key => key !== MIGRATION_MARKER);
+  },
+  getMeta: async <T>(key: string) => {
+    const value = await request((await getStore(META_STORE, 'readonly')).get(key));
+    return value === undefined ? null : (value as T);
+  },
+  setMeta: async (key, value) => {
+    await request((await getStore(META_STORE, 'readwrite')).put(value, key));
+  },
+  removeMeta: async (key) => {
+    await request((await getStore(META_STORE, 'readwrite')).delete(key));
+  },
+};
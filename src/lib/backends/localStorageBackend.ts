@@ -0,0 +1,66 @@
+import { TABLE_NAMES, type KeyRange, type StorageBackend, type TableName, type TableRecords } from './types';
+
+// Every table and meta value lives under a `billing_` prefixed key
+const KEY_PREFIX = 'billing_';
+
+const tableKey = (table: TableName) => `${KEY_PREFIX}${table}`;
+const metaKey = (key: string) => `${KEY_PREFIX}${key}`;
+
+const readTable = <K extends TableName>(table: K): TableRecords[K][] => {
+  const data = localStorage.getItem(tableKey(table));
+  return data ? JSON.parse(data) : [];
+};
+
+const writeTable = <K extends TableName>(table: K, records: TableRecords[K][]) => {
+  localStorage.setItem(tableKey(table), JSON.stringify(records));
+};
+
+const inRange = (value: unknown, range: KeyRange): boolean => {
+  if (value == null) return false;
+  const key = String(value);
+  if (range.lower !== undefined && key < range.lower) return false;
+  if (range.upper !== undefined && key > range.upper) return false;
+  return true;
+};
+
+/**
+ * Original backend: each table is a single JSON array in localStorage.
+ */
+export const localStorageBackend: StorageBackend = {
+  name: 'local',
+  init: async () => {},
+  getAll: async (table) => readTable(table),
+  get: async (table, id) => readTable(table).find(r => r.id === id),
+  put: async (table, record) => {
+    const records = readTable(table);
+    const index = records.findIndex(r => r.id === record.id);
+    if (index !== -1) {
+      records[index] = record;
+    } else {
+      records.push(record);
+    }
+    writeTable(table, records);
+  },
+  replaceAll: async (table, records) => writeTable(table, records),
+  remove: async (table, id) => {
+    writeTable(table, readTable(table).filter(r => r.id !== id));
+  },
+  query: async (table, field, range) => readTable(table).filter(r => inRange(r[field], range)),
+  count: async (table) => readTable(table).length,
+  metaKeys: async () => {
+    const tableKeys = TABLE_NAMES.map(tableKey);
+    return Object.keys(localStorage)
+      .filter(key => key.startsWith(KEY_PREFIX) && !tableKeys.includes(key))
+      .map(key => key.slice(KEY_PREFIX.length));
+  },
+  getMeta: async <T>(key: string) => {
+    const data = localStorage.getItem(metaKey(key));
+    return data ? (JSON.parse(data) as T) : null;
+  },
+  setMeta: async (key, value) => {
+    localStorage.setItem(metaKey(key), JSON.stringify(value));
+  },
+  removeMeta: async (key) => {
+    localStorage.removeItem(metaKey(key));
+  },
+};
@@ -0,0 +1,34 @@
+import type { SyncEngine } from '../sync/syncEngine';
+import type { StorageBackend } from './types';
+
+/**
+ * Wrap a local backend so every write is also queued for the sync engine.
+ * Reads always come from the local store, so the app works the same offline.
+ */
+export const createSyncedBackend = (local: StorageBackend, engine: SyncEngine): StorageBackend => ({
+  ...local,
+  name: `${local.name}+sync`,
+  init: async () => {
+    await local.init();
+    await engine.start();
+  },
+  put: async (table, record) => {
+    await local.put(table, record);
+    await engine.track(table, record.id, 'upsert');
+  },
+  replaceAll: async (table, records) => {
+    const previous = await local.getAll(table);
+    await local.replaceAll(table, records);
+    const kept = new Set(records.map(r => r.id));
+    for (const record of records) {
+      await engine.track(table, record.id, 'upsert');
+    }
+    for (const record of previous) {
+      if (!kept.has(record.id)) await engine.track(table, record.id, 'delete');
+    }
+  },
+  remove: async (table, id) => {
+    await local.remove(table, id);
+    await engine.track(table, id, 'delete');
+  },
+});
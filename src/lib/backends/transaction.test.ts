@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStorage } from '@/test/memoryStorage';
+import type { Customer, Product } from '../storage';
+import { localStorageBackend } from './localStorageBackend';
+import { runTransaction } from './transaction';
+
+const db = localStorageBackend;
+
+const product = (id: string, stock: number): Product => ({
+  id,
+  name: `Product ${id}`,
+  parentId: null,
+  price: 100,
+  stock,
+  minStock: 0,
+  unit: 'pcs',
+  hsnCode: '',
+  gstRate: 0,
+  createdAt: '2025-04-01T00:00:00.000Z',
+});
+
+const customer: Customer = {
+  id: 'c1',
+  name: 'Ravi',
+  phone: '',
+  address: '',
+  state: '',
+  gstin: '',
+  creditLimit: null,
+  createdAt: '2025-04-01T00:00:00.000Z',
+};
+
+beforeEach(async () => {
+  vi.stubGlobal('localStorage', new MemoryStorage());
+  await db.put('products', product('p1', 5));
+  await db.put('products', product('p2', 8));
+  await db.put('customers', customer);
+  await db.setMeta('invoice_counter', { period: 'all', value: 1004 });
+  await db.setMeta('shop_profile', { name: 'AOS Stores' });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('runTransaction', () => {
+  it('keeps every write when the function succeeds', async () => {
+    const result = await runTransaction(db, async tx => {
+      await tx.put('products', product('p1', 3));
+      await tx.setMeta('invoice_counter', { period: 'all', value: 1005 });
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect((await db.get('products', 'p1'))?.stock).toBe(3);
+    expect(await db.getMeta('invoice_counter')).toEqual({ period: 'all', value: 1005 });
+  });
+
+  it('undoes puts, removes and meta changes and rethrows when the function throws', async () => {
+    const failure = new Error('out of stock');
+
+    const running = runTransaction(db, async tx => {
+      await tx.put('products', product('p1', 1));
+      // A second write to the same record must still roll back to the original
+      await tx.put('products', product('p1', 0));
+      await tx.put('products', product('p3', 2));
+      await tx.remove('customers', 'c1');
+      await tx.setMeta('invoice_counter', { period: 'all', value: 1005 });
+      await tx.setMeta('backup_last_at', '2025-04-10T00:00:00.000Z');
+      await tx.removeMeta('shop_profile');
+      throw failure;
+    });
+
+    await expect(running).rejects.toBe(failure);
+    expect((await db.get('products', 'p1'))?.stock).toBe(5);
+    expect(await db.get('products', 'p3')).toBeUndefined();
+    expect(await db.get('customers', 'c1')).toEqual(customer);
+    expect(await db.getMeta('invoice_counter')).toEqual({ period: 'all', value: 1004 });
+    expect(await db.getMeta('backup_last_at')).toBeNull();
+    expect(await db.getMeta('shop_profile')).toEqual({ name: 'AOS Stores' });
+  });
+
+  it('restores a whole table replaced inside a failed transaction', async () => {
+    const running = runTransaction(db, async tx => {
+      await tx.replaceAll('products', [product('p9', 1)]);
+      await tx.put('products', product('p9', 0));
+      throw new Error('restore failed');
+    });
+
+    await expect(running).rejects.toThrow('restore failed');
+    const products = await db.getAll('products');
+    expect(products.map(p => [p.id, p.stock]).sort()).toEqual([
+      ['p1', 5],
+      ['p2', 8],
+    ]);
+  });
+
+  it('runs transactions one after another, even after one fails', async () => {
+    const order: string[] = [];
+    const first = runTransaction(db, async tx => {
+      const stock = (await tx.get('products', 'p1'))!.stock;
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await tx.put('products', product('p1', stock - 1));
+      order.push('first');
+      throw new Error('first failed');
+    });
+    const second = runTransaction(db, async tx => {
+      const stock = (await tx.get('products', 'p1'))!.stock;
+      await tx.put('products', product('p1', stock - 2));
+      order.push('second');
+    });
+
+    await expect(first).rejects.toThrow('first failed');
+    await second;
+    expect(order).toEqual(['first', 'second']);
+    expect((await db.get('products', 'p1'))?.stock).toBe(3);
+  });
+});
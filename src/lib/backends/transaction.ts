@@ -0,0 +1,98 @@
+import type { StorageBackend, TableName } from './types';
+
+type UndoStep = () => Promise<void>;
+
+// Web Lock shared by every tab of the app on this origin
+const LOCK_NAME = 'aos-billing-storage';
+
+// Transactions in this tab run one after another
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Hold the cross-tab lock while `fn` runs. Browsers without the Web Locks API
+ * only get the in-tab ordering from `queue`.
+ */
+const withLock = <T>(fn: () => Promise<T>): Promise<T> => {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(LOCK_NAME, fn) as Promise<T>;
+  }
+  return fn();
+};
+
+/**
+ * Run `fn` against a journaling view of `backend`. The first write to each record
+ * or meta key saves its previous value; if `fn` throws, those values are written
+ * back in reverse order and the error is rethrown, so either every write lands or
+ * none does. Transactions are serialised across tabs, so a read-modify-write such
+ * as taking the next invoice number cannot interleave with another tab's.
+ */
+export const runTransaction = <T>(
+  backend: StorageBackend,
+  fn: (tx: StorageBackend) => Promise<T>
+): Promise<T> => {
+  const run = async () => {
+    const undo: UndoStep[] = [];
+    const saved = new Set<string>();
+
+    const saveRecord = async (table: TableName, id: string) => {
+      const key = `${table}:${id}`;
+      if (saved.has(key)) return;
+      saved.add(key);
+      const previous = await backend.get(table, id);
+      undo.push(() => (previous ? backend.put(table, previous) : backend.remove(table, id)));
+    };
+
+    const saveTable = async (table: TableName) => {
+      const key = `${table}:*`;
+      if (saved.has(key)) return;
+      saved.add(key);
+      const previous = await backend.getAll(table);
+      undo.push(() => backend.replaceAll(table, previous));
+    };
+
+    const saveMeta = async (metaKey: string) => {
+      const key = `meta:${metaKey}`;
+      if (saved.has(key)) return;
+      saved.add(key);
+      const previous = await backend.getMeta(metaKey);
+      undo.push(() => (previous === null ? backend.removeMeta(metaKey) : backend.setMeta(metaKey, previous)));
+    };
+
+    const tx: StorageBackend = {
+      ...backend,
+      put: async (table, record) => {
+        await saveRecord(table, record.id);
+        await backend.put(table, record);
+      },
+      replaceAll: async (table, records) => {
+        await saveTable(table);
+        await backend.replaceAll(table, records);
+      },
+      remove: async (table, id) => {
+        await saveRecord(table, id);
+        await backend.remove(table, id);
+      },
+      setMeta: async (key, value) => {
+        await saveMeta(key);
+        await backend.setMeta(key, value);
+      },
+      removeMeta: async (key) => {
+        await saveMeta(key);
+        await backend.removeMeta(key);
+      },
+    };
+
+    try {
+      return await fn(tx);
+    } catch (error) {
+      for (const step of undo.reverse()) {
+        await step();
+      }
+      throw error;
+    }
+  };
+
+  const result = queue.then(() => withLock(run));
+  queue = result.catch(() => undefined);
+  return result;
+};
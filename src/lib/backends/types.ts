@@ -0,0 +1,50 @@
+import type { AuditEntry, Bill, CreditNote, Customer, Product, Quotation, Receipt } from '../storage';
+
+/**
+ * Record type stored in each table of a backend
+ */
+export interface TableRecords {
+  products: Product;
+  customers: Customer;
+  bills: Bill;
+  receipts: Receipt;
+  creditNotes: CreditNote;
+  quotations: Quotation;
+  audit: AuditEntry;
+}
+
+export type TableName = keyof TableRecords;
+
+export const TABLE_NAMES: TableName[] = ['products', 'customers', 'bills', 'receipts', 'creditNotes', 'quotations', 'audit'];
+
+/**
+ * Inclusive bounds for an index query. Omit a bound to leave that side open.
+ */
+export interface KeyRange {
+  lower?: string;
+  upper?: string;
+}
+
+/**
+ * A persistence backend. Repositories in `storage.ts` are written against this
+ * interface only, so swapping the backend does not touch any page.
+ */
+export interface StorageBackend {
+  readonly name: string;
+  init: () => Promise<void>;
+  getAll: <K extends TableName>(table: K) => Promise<TableRecords[K][]>;
+  get: <K extends TableName>(table: K, id: string) => Promise<TableRecords[K] | undefined>;
+  put: <K extends TableName>(table: K, record: TableRecords[K]) => Promise<void>;
+  replaceAll: <K extends TableName>(table: K, records: TableRecords[K][]) => Promise<void>;
+  remove: (table: TableName, id: string) => Promise<void>;
+  query: <K extends TableName>(
+    table: K,
+    field: keyof TableRecords[K] & string,
+    range: KeyRange
+  ) => Promise<TableRecords[K][]>;
+  count: (table: TableName) => Promise<number>;
+  metaKeys: () => Promise<string[]>;
+  getMeta: <T>(key: string) => Promise<T | null>;
+  setMeta: <T>(key: string, value: T) => Promise<void>;
+  removeMeta: (key: string) => Promise<void>;
+}
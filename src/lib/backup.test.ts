@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStorage } from '@/test/memoryStorage';
+import { localStorageBackend } from './backends/localStorageBackend';
+import { BackupError, createBackup, parseBackup, previewRestore, restoreBackup } from './backup';
+import { runMigrations } from './migrations';
+import type { Product } from './storage';
+
+const db = localStorageBackend;
+
+const product = (id: string, stock: number): Product => ({
+  id,
+  name: `Product ${id}`,
+  parentId: null,
+  price: 100,
+  stock,
+  minStock: 0,
+  unit: 'pcs',
+  hsnCode: '',
+  gstRate: 0,
+  createdAt: '2025-04-01T00:00:00.000Z',
+  deletedAt: null,
+});
+
+// A backup as it comes back from a file
+const backupFile = async () => parseBackup(JSON.stringify(await createBackup(db)));
+
+// Recompute the checksum after editing an archive, as a hand-edited file would
+const checksumOf = async (data: unknown) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(data)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const stockOf = async (id: string) => (await db.get('products', id))?.stock;
+
+beforeEach(async () => {
+  vi.stubGlobal('localStorage', new MemoryStorage());
+  await runMigrations(db);
+  await db.put('products', product('p1', 5));
+  await db.setMeta('invoice_counter', { period: 'all', value: 1010 });
+  await db.setMeta('sync_device_code', 'A1B2');
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parseBackup', () => {
+  it('refuses a file whose data does not match its checksum', async () => {
+    const archive = await createBackup(db);
+    archive.data.tables.products[0].stock = 500;
+
+    const parsing = parseBackup(JSON.stringify(archive));
+    await expect(parsing).rejects.toBeInstanceOf(BackupError);
+    await expect(parsing).rejects.toThrow(/checksum does not match/);
+  });
+
+  it('leaves device-local sync state out of the archive', async () => {
+    const archive = await backupFile();
+
+    expect(archive.data.meta).not.toHaveProperty('sync_device_code');
+    expect(archive.data.meta).toHaveProperty('invoice_counter');
+  });
+});
+
+describe('restoreBackup', () => {
+  it('puts back exactly what was backed up on a replace', async () => {
+    const archive = await backupFile();
+    await db.put('products', product('p1', 2));
+    await db.put('products', product('p2', 9));
+    await db.setMeta('invoice_counter', { period: 'all', value: 1020 });
+
+    const preview = await restoreBackup(db, archive, 'replace');
+
+    expect(preview.tables.products).toEqual({ added: 0, updated: 1, removed: 1, unchanged: 0 });
+    expect(await db.getAll('products')).toEqual([product('p1', 5)]);
+    expect(await db.getMeta('invoice_counter')).toEqual({ period: 'all', value: 1010 });
+    expect(await db.getMeta('sync_device_code')).toBe('A1B2');
+    expect((await db.getAll('audit')).map(a => a.action)).toContain('restore');
+  });
+
+  it('only adds missing records on a merge and keeps the later counter', async () => {
+    await db.put('products', product('p2', 9));
+    const archive = await backupFile();
+    await db.remove('products', 'p2');
+    await db.put('products', product('p1', 2));
+    await db.setMeta('invoice_counter', { period: 'all', value: 1020 });
+
+    await restoreBackup(db, archive, 'merge');
+
+    expect(await stockOf('p1')).toBe(2);
+    expect(await stockOf('p2')).toBe(9);
+    expect(await db.getMeta('invoice_counter')).toEqual({ period: 'all', value: 1020 });
+  });
+
+  it('writes nothing when a record in the backup fails validation', async () => {
+    const archive = await createBackup(db);
+    archive.data.tables.products.push({ ...product('p2', 1), price: -1 });
+    const damaged = await parseBackup(JSON.stringify({ ...archive, checksum: await checksumOf(archive.data) }));
+    await db.put('products', product('p1', 2));
+
+    expect((await previewRestore(db, damaged, 'replace')).invalid).toEqual([
+      { table: 'products', id: 'p2', message: expect.stringMatching(/^price:/) },
+    ]);
+    await expect(restoreBackup(db, damaged, 'replace')).rejects.toThrow(/1 invalid record\(s\); nothing was restored/);
+    expect(await db.getAll('products')).toEqual([product('p1', 2)]);
+    expect(await db.getAll('audit')).toEqual([]);
+  });
+});
@@ -0,0 +1,332 @@
+import { runTransaction } from './backends/transaction';
+import { TABLE_NAMES, type StorageBackend, type TableName, type TableRecords } from './backends/types';
+import {
+  BACKUP_KEY,
+  CURRENT_SCHEMA_VERSION,
+  SCHEMA_VERSION_KEY,
+  getSchemaVersion,
+  readDraft,
+  upgradeData,
+  type StoredRecord,
+} from './migrations';
+import { recordAudit } from './audit';
+import { ENTITY_SCHEMAS, toFieldIssues } from './schemas';
+import { DRAFT_KEY } from './storage';
+
+export const BACKUP_FORMAT = 'aos-billing-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+export const BACKUP_FILE_PREFIX = 'aos-billing-backup-';
+
+export interface BackupData {
+  tables: Record<TableName, StoredRecord[]>;
+  meta: Record<string, unknown>;
+  draft: StoredRecord | null;
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  createdAt: string;
+  // SHA-256 of JSON.stringify(data)
+  checksum: string;
+  data: BackupData;
+}
+
+// Replace wipes this device's data first; merge only adds what is missing here
+export type RestoreMode = 'replace' | 'merge';
+
+export interface TableRestorePreview {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+export interface InvalidRestoreRecord {
+  table: TableName;
+  id: string;
+  message: string;
+}
+
+export interface RestorePreview {
+  mode: RestoreMode;
+  tables: Record<TableName, TableRestorePreview>;
+  metaChanged: string[];
+  metaRemoved: string[];
+  draftReplaced: boolean;
+  // Records that would be written but fail validation; the restore is refused while there are any
+  invalid: InvalidRestoreRecord[];
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+// Device-local state that must not travel to another install
+const isPortableMeta = (key: string) => key !== BACKUP_KEY && !key.startsWith('sync_');
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const readTables = async (db: StorageBackend) =>
+  Object.fromEntries(
+    await Promise.all(TABLE_NAMES.map(async table => [table, await db.getAll(table)]))
+  ) as BackupData['tables'];
+
+const readMeta = async (db: StorageBackend) => {
+  const keys = (await db.metaKeys()).filter(isPortableMeta);
+  return Object.fromEntries(await Promise.all(keys.map(async key => [key, await db.getMeta(key)])));
+};
+
+/**
+ * Snapshot every table, counter, setting and the bills held on the Billing page into one
+ * archive, keeping record IDs exactly as stored.
+ */
+export const createBackup = async (db: StorageBackend): Promise<BackupArchive> => {
+  const data: BackupData = { tables: await readTables(db), meta: await readMeta(db), draft: readDraft() };
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: await getSchemaVersion(db),
+    createdAt: new Date().toISOString(),
+    checksum: await sha256(JSON.stringify(data)),
+    data,
+  };
+};
+
+export const backupFileName = (archive: BackupArchive) =>
+  `${BACKUP_FILE_PREFIX}${archive.createdAt.slice(0, 19).replace(/[T:]/g, '-')}.json`;
+
+export const downloadArchive = (archive: BackupArchive) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(archive)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = backupFileName(archive);
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadBackup = async (db: StorageBackend) => {
+  const archive = await createBackup(db);
+  downloadArchive(archive);
+  return archive;
+};
+
+// The copy taken before a schema migration has an IndexedDB database of its own,
+// so it never competes with the data for localStorage space
+const SNAPSHOT_DB = 'aos-billing-snapshots';
+const SNAPSHOT_STORE = 'archives';
+const PRE_MIGRATION_SNAPSHOT = 'pre_migration';
+
+const snapshotRequest = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    const open = indexedDB.open(SNAPSHOT_DB, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(SNAPSHOT_STORE);
+    open.onerror = () => reject(open.error);
+    open.onsuccess = () => {
+      const req = fn(open.result.transaction(SNAPSHOT_STORE, mode).objectStore(SNAPSHOT_STORE));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    };
+  });
+
+/**
+ * Keep a full archive of the data before a migration writes to it, replacing the
+ * previous one. Returns where it was kept, or null without IndexedDB.
+ */
+export const keepPreMigrationBackup = async (db: StorageBackend) => {
+  if (typeof indexedDB === 'undefined') return null;
+  const archive = await createBackup(db);
+  await snapshotRequest('readwrite', store => store.put(archive, PRE_MIGRATION_SNAPSHOT));
+  return `${SNAPSHOT_DB}/${PRE_MIGRATION_SNAPSHOT}`;
+};
+
+export const getPreMigrationBackup = async (): Promise<BackupArchive | null> => {
+  if (typeof indexedDB === 'undefined') return null;
+  return (await snapshotRequest<BackupArchive | undefined>('readonly', store => store.get(PRE_MIGRATION_SNAPSHOT))) ?? null;
+};
+
+/**
+ * Parse and verify a backup file. Throws BackupError when the file is not an
+ * archive, was written by a newer version of the app, or fails its checksum.
+ */
+export const parseBackup = async (text: string): Promise<BackupArchive> => {
+  let archive: BackupArchive;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new BackupError('This file is not a backup archive');
+  }
+  if (!archive || archive.format !== BACKUP_FORMAT || !archive.data?.tables) {
+    throw new BackupError('This file is not a backup archive');
+  }
+  if (archive.formatVersion > BACKUP_FORMAT_VERSION || archive.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new BackupError('This backup was made by a newer version of the app');
+  }
+  if ((await sha256(JSON.stringify(archive.data))) !== archive.checksum) {
+    throw new BackupError('This backup is damaged: its checksum does not match');
+  }
+  for (const table of TABLE_NAMES) {
+    // Tables added after the backup was taken are simply empty
+    const records = (archive.data.tables[table] ??= []);
+    if (!Array.isArray(records) || records.some(r => typeof r?.id !== 'string')) {
+      throw new BackupError(`This backup has an invalid ${table} table`);
+    }
+  }
+  return archive;
+};
+
+interface Counter {
+  period: string;
+  value: number;
+}
+
+const toCounter = (value: unknown): Counter | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number' || typeof value === 'string') return { period: 'all', value: Number(value) };
+  return value as Counter;
+};
+
+// The later of two number-series counters, so a merge never re-issues a number
+const laterCounter = (a: unknown, b: unknown) => {
+  const [x, y] = [toCounter(a), toCounter(b)];
+  if (!x || !y) return x ? a : b;
+  const cmp = x.period.localeCompare(y.period) || x.value - y.value;
+  return cmp >= 0 ? a : b;
+};
+
+// The audit log is never rewritten, so a restore only ever adds entries to it
+const APPEND_ONLY_TABLES: TableName[] = ['audit'];
+
+const tableMode = (table: TableName, mode: RestoreMode): RestoreMode =>
+  APPEND_ONLY_TABLES.includes(table) ? 'merge' : mode;
+
+interface RestorePlan {
+  preview: RestorePreview;
+  // Whole tables for a replace, only the missing records for a merge
+  tables: Record<TableName, StoredRecord[]>;
+  meta: Record<string, unknown>;
+  draft: StoredRecord | null;
+}
+
+const planRestore = async (db: StorageBackend, archive: BackupArchive, mode: RestoreMode): Promise<RestorePlan> => {
+  // Bring older archives up to the current schema before comparing
+  const incoming = upgradeData(
+    { tables: archive.data.tables, draft: archive.data.draft },
+    archive.schemaVersion
+  ).data;
+  const current = await readTables(db);
+  const currentMeta = await readMeta(db);
+  const currentDraft = readDraft();
+
+  const tables = {} as RestorePlan['tables'];
+  const previewTables = {} as RestorePreview['tables'];
+  for (const table of TABLE_NAMES) {
+    const merge = tableMode(table, mode) === 'merge';
+    const existing = new Map(current[table].map(r => [String(r.id), r]));
+    const restored = new Map(incoming.tables[table].map(r => [String(r.id), r]));
+    const counts: TableRestorePreview = { added: 0, updated: 0, removed: 0, unchanged: 0 };
+    for (const [id, record] of restored) {
+      const local = existing.get(id);
+      if (!local) counts.added++;
+      else if (!merge && JSON.stringify(local) !== JSON.stringify(record)) counts.updated++;
+      else counts.unchanged++;
+    }
+    if (merge) {
+      tables[table] = incoming.tables[table].filter(r => !existing.has(String(r.id)));
+    } else {
+      counts.removed = [...existing.keys()].filter(id => !restored.has(id)).length;
+      tables[table] = incoming.tables[table];
+    }
+    previewTables[table] = counts;
+  }
+
+  const invalid: InvalidRestoreRecord[] = [];
+  for (const table of TABLE_NAMES) {
+    if (table === 'audit') continue;
+    for (const record of tables[table]) {
+      const result = ENTITY_SCHEMAS[table].safeParse(record);
+      if (!result.success) {
+        const message = toFieldIssues(result.error).map(i => (i.path ? `${i.path}: ${i.message}` : i.message)).join('; ');
+        invalid.push({ table, id: String(record.id), message });
+      }
+    }
+  }
+
+  const archiveMeta = Object.fromEntries(Object.entries(archive.data.meta || {}).filter(([key]) => isPortableMeta(key)));
+  const meta: Record<string, unknown> = mode === 'replace' ? { ...archiveMeta } : { ...currentMeta };
+  if (mode === 'merge') {
+    for (const [key, value] of Object.entries(archiveMeta)) {
+      if (key.endsWith('_counter')) meta[key] = laterCounter(currentMeta[key], value);
+      else if (!(key in currentMeta)) meta[key] = value;
+    }
+  }
+  meta[SCHEMA_VERSION_KEY] = CURRENT_SCHEMA_VERSION;
+
+  const draft = mode === 'replace' ? incoming.draft : currentDraft || incoming.draft;
+  return {
+    preview: {
+      mode,
+      tables: previewTables,
+      metaChanged: Object.keys(meta).filter(
+        key => key !== SCHEMA_VERSION_KEY && JSON.stringify(meta[key]) !== JSON.stringify(currentMeta[key])
+      ),
+      metaRemoved: Object.keys(currentMeta).filter(key => !(key in meta)),
+      draftReplaced: JSON.stringify(draft) !== JSON.stringify(currentDraft),
+      invalid,
+    },
+    tables,
+    meta,
+    draft,
+  };
+};
+
+export const previewRestore = async (db: StorageBackend, archive: BackupArchive, mode: RestoreMode) =>
+  (await planRestore(db, archive, mode)).preview;
+
+/**
+ * Restore a parsed archive in one transaction, so a failure part-way leaves
+ * the current data untouched. Throws BackupError, writing nothing, when any
+ * record in the archive fails validation.
+ */
+export const restoreBackup = async (db: StorageBackend, archive: BackupArchive, mode: RestoreMode) => {
+  const plan = await runTransaction(db, async tx => {
+    const plan = await planRestore(tx, archive, mode);
+    if (plan.preview.invalid.length > 0) {
+      throw new BackupError(`This backup has ${plan.preview.invalid.length} invalid record(s); nothing was restored`);
+    }
+    for (const table of TABLE_NAMES) {
+      const records = plan.tables[table] as unknown as TableRecords[TableName][];
+      if (tableMode(table, mode) === 'replace') {
+        await tx.replaceAll(table, records);
+      } else {
+        for (const record of records) {
+          await tx.put(table, record);
+        }
+      }
+    }
+    await recordAudit(tx, {
+      entityType: 'backup',
+      entityId: archive.checksum,
+      entityLabel: `Backup of ${new Date(archive.createdAt).toLocaleString()}`,
+      action: 'restore',
+      after: { mode, ...plan.preview.tables },
+    });
+    for (const key of plan.preview.metaRemoved) {
+      await tx.removeMeta(key);
+    }
+    for (const [key, value] of Object.entries(plan.meta)) {
+      await tx.setMeta(key, value);
+    }
+    return plan;
+  });
+  if (plan.draft) localStorage.setItem(DRAFT_KEY, JSON.stringify(plan.draft));
+  else localStorage.removeItem(DRAFT_KEY);
+  return plan.preview;
+};
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStorage } from '@/test/memoryStorage';
+import { ValidationError } from './schemas';
+import { billStorage, getStorageBackend, type BillInput, type Product } from './storage';
+
+const product: Product = {
+  id: 'p1',
+  name: 'Rice 5kg',
+  parentId: null,
+  price: 100,
+  stock: 5,
+  minStock: 0,
+  unit: 'bag',
+  hsnCode: '',
+  gstRate: 0,
+  createdAt: '2025-04-01T00:00:00.000Z',
+};
+
+// A cash sale of `quantity` bags, paid in full
+const sale = (quantity: number): BillInput => {
+  const total = quantity * 100;
+  return {
+    customerId: 'c1',
+    customerName: 'Ravi',
+    items: [{ productId: 'p1', productName: 'Rice 5kg', quantity, price: 100, total }],
+    subtotal: total,
+    discount: 0,
+    gstAmount: 0,
+    total,
+    supplyType: 'intra',
+    cgstAmount: 0,
+    sgstAmount: 0,
+    igstAmount: 0,
+    taxBreakup: [],
+    payments: [{ mode: 'cash', amount: total, reference: '', receivedAt: new Date().toISOString() }],
+    amountPaid: total,
+    paymentStatus: 'paid',
+  };
+};
+
+const stockOf = async (id: string) => (await getStorageBackend().get('products', id))?.stock;
+
+beforeEach(async () => {
+  vi.stubGlobal('localStorage', new MemoryStorage());
+  await getStorageBackend().put('products', product);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('billStorage.revise', () => {
+  it('moves stock by the difference and keeps the number and the replaced copy', async () => {
+    const bill = (await billStorage.add(sale(2)))!;
+
+    const revised = await billStorage.revise(bill.id, sale(4), 'Customer took two more');
+
+    expect(revised).toMatchObject({ id: bill.id, invoiceNumber: 'INV-1001', total: 400, createdAt: bill.createdAt });
+    expect(revised?.revisions).toEqual([
+      expect.objectContaining({ total: 200, reason: 'Customer took two more' }),
+    ]);
+    expect(await stockOf('p1')).toBe(1);
+    expect(await billStorage.previewInvoiceNumber()).toBe('INV-1002');
+
+    await billStorage.revise(bill.id, sale(1));
+    expect(await stockOf('p1')).toBe(4);
+  });
+
+  it('changes nothing when the edit needs more stock than there is', async () => {
+    const bill = (await billStorage.add(sale(2)))!;
+
+    expect(await billStorage.revise(bill.id, sale(8))).toBeNull();
+
+    expect(await stockOf('p1')).toBe(3);
+    expect(await billStorage.getById(bill.id)).toEqual(bill);
+  });
+});
+
+describe('billStorage.cancel', () => {
+  it('returns the stock and keeps the bill and its number', async () => {
+    const bill = (await billStorage.add(sale(2)))!;
+
+    await billStorage.cancel(bill.id, ' Wrong customer ');
+
+    expect(await stockOf('p1')).toBe(5);
+    expect(await billStorage.getById(bill.id)).toMatchObject({
+      invoiceNumber: 'INV-1001',
+      status: 'cancelled',
+      cancelReason: 'Wrong customer',
+    });
+    expect(await billStorage.previewInvoiceNumber()).toBe('INV-1002');
+
+    // Cancelling again must not return the stock twice
+    await billStorage.cancel(bill.id, 'Wrong customer');
+    expect(await stockOf('p1')).toBe(5);
+  });
+
+  it('requires a reason and refuses to edit a cancelled bill', async () => {
+    const bill = (await billStorage.add(sale(2)))!;
+
+    await expect(billStorage.cancel(bill.id, '  ')).rejects.toBeInstanceOf(ValidationError);
+    expect(await stockOf('p1')).toBe(3);
+
+    await billStorage.cancel(bill.id, 'Duplicate bill');
+    await expect(billStorage.revise(bill.id, sale(1))).rejects.toThrow(/Cancelled bills cannot be edited/);
+    expect(await stockOf('p1')).toBe(5);
+  });
+});
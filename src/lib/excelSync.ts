@@ -1,5 +1,20 @@
 import * as XLSX from 'xlsx';
 import { Product, productStorage, Customer, customerStorage } from './storage';
+import { customerInputSchema, productSchema } from './schemas';
+import { roundRupees } from './money';
+import { DEFAULT_GST_RATE, findStateCode, gstinStateCode, stateLabel } from './gst';
+
+type SheetRow = Record<string, unknown>;
+
+// Blank cells count as 0; anything else must be a number, so typos are reported instead of saved as 0
+const toNumber = (value: unknown) =>
+  value === undefined || value === null || String(value).trim() === '' ? 0 : Number(String(value).trim());
+
+const toText = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim());
+
+// One warning per failing field, e.g. "Row 4: Price must be a number"
+const rowErrors = (rowNum: number, issues: { message: string }[]) =>
+  issues.map(issue => `Row ${rowNum}: ${issue.message}`);
 
 /**
  * Export products to Excel file
@@ -15,10 +30,12 @@ export const exportProductsToExcel = (products: Product[]): void => {
       'ID': product.id,
       'Name': product.name,
       'Parent Category': parent ? parent.name : 'None – Top Level',
-      'Price': product.price,
+      'Price': roundRupees(product.price),
       'Stock': product.stock,
       'Min Stock': product.minStock,
       'Unit': product.unit,
+      'HSN Code': product.hsnCode,
+      'GST %': product.gstRate,
       'Created At': product.createdAt
     };
   });
@@ -37,6 +54,8 @@ export const exportProductsToExcel = (products: Product[]): void => {
     { wch: 10 }, // Stock
     { wch: 12 }, // Min Stock
     { wch: 10 }, // Unit
+    { wch: 10 }, // HSN Code
+    { wch: 8 },  // GST %
     { wch: 20 }  // Created At
   ];
 
@@ -64,7 +83,7 @@ export const importProductsFromExcel = async (
     const worksheet = workbook.Sheets[sheetName];
     
     // Convert to JSON
-    const jsonData = XLSX.utils.sheet_to_json(worksheet) as any[];
+    const jsonData = XLSX.utils.sheet_to_json<SheetRow>(worksheet);
 
     if (!jsonData || jsonData.length === 0) {
       return {
@@ -75,7 +94,7 @@ export const importProductsFromExcel = async (
     }
 
     // Get existing products to build parent mapping
-    const existingProducts = productStorage.getAll();
+    const existingProducts = await productStorage.getAll();
     const existingProductMap = new Map(existingProducts.map(p => [p.name.toLowerCase(), p]));
     
     // Track imported products
@@ -90,34 +109,33 @@ export const importProductsFromExcel = async (
       const rowNum = i + 2; // Excel rows start at 1, header is row 1
 
       try {
-        // Validate required fields
-        if (!row['Name']) {
-          errors.push(`Row ${rowNum}: Name is required`);
-          continue;
-        }
-
-        const name = String(row['Name']).trim();
-        const parentCategory = row['Parent Category'] ? String(row['Parent Category']).trim() : 'None – Top Level';
-        const price = parseFloat(row['Price'] || 0);
-        const stock = parseFloat(row['Stock'] || 0);
-        const minStock = parseFloat(row['Min Stock'] || 0);
-        const unit = row['Unit'] ? String(row['Unit']).trim() : '';
+        const name = toText(row['Name']);
+        const parentCategory = toText(row['Parent Category']) || 'None – Top Level';
+        const rowId = toText(row['ID']);
 
         // Check if product exists by ID or name
-        const existingById = row['ID'] ? existingProducts.find(p => p.id === row['ID']) : null;
+        const existingById = rowId ? existingProducts.find(p => p.id === rowId) : null;
         const existingByName = existingProductMap.get(name.toLowerCase());
         const existing = existingById || existingByName;
 
-        const product: Product = {
-          id: existing?.id || row['ID'] || crypto.randomUUID(),
+        const parsed = productSchema.safeParse({
+          id: existing?.id || rowId || crypto.randomUUID(),
           name,
           parentId: null, // Will be set in second pass
-          price: isNaN(price) ? 0 : price,
-          stock: isNaN(stock) ? 0 : stock,
-          minStock: isNaN(minStock) ? 0 : minStock,
-          unit,
+          price: toNumber(row['Price']),
+          stock: toNumber(row['Stock']),
+          minStock: toNumber(row['Min Stock']),
+          unit: toText(row['Unit']),
+          hsnCode: toText(row['HSN Code']),
+          // A sheet without the column keeps the current rate
+          gstRate: toText(row['GST %']) ? toNumber(row['GST %']) : existing?.gstRate ?? DEFAULT_GST_RATE,
           createdAt: existing?.createdAt || new Date().toISOString()
-        };
+        });
+        if (!parsed.success) {
+          errors.push(...rowErrors(rowNum, parsed.error.issues));
+          continue;
+        }
+        const product: Product = parsed.data;
 
         // Store parent category name temporarily
         (product as any)._parentCategoryName = parentCategory;
@@ -172,7 +190,7 @@ export const importProductsFromExcel = async (
       }
     }
 
-    productStorage.save(finalProducts);
+    await productStorage.save(finalProducts);
 
     const message = errors.length > 0
       ? `Imported ${importedProducts.length} products with ${errors.length} warnings: ${errors.join('; ')}`
@@ -203,6 +221,9 @@ export const exportCustomersToExcel = (customers: Customer[]): void => {
     'Name': customer.name,
     'Phone': customer.phone,
     'Address': customer.address,
+    'State': stateLabel(customer.state),
+    'GSTIN': customer.gstin,
+    'Credit Limit': customer.creditLimit ?? '',
     'Created At': customer.createdAt
   }));
 
@@ -215,6 +236,9 @@ export const exportCustomersToExcel = (customers: Customer[]): void => {
     { wch: 25 }, // Name
     { wch: 15 }, // Phone
     { wch: 40 }, // Address
+    { wch: 25 }, // State
+    { wch: 18 }, // GSTIN
+    { wch: 14 }, // Credit Limit
     { wch: 20 }  // Created At
   ];
 
@@ -237,7 +261,7 @@ export const importCustomersFromExcel = async (
     const sheetName = workbook.SheetNames[0];
     const worksheet = workbook.Sheets[sheetName];
     
-    const jsonData = XLSX.utils.sheet_to_json(worksheet) as any[];
+    const jsonData = XLSX.utils.sheet_to_json<SheetRow>(worksheet);
 
     if (!jsonData || jsonData.length === 0) {
       return {
@@ -247,7 +271,7 @@ export const importCustomersFromExcel = async (
       };
     }
 
-    const existingCustomers = customerStorage.getAll();
+    const existingCustomers = await customerStorage.getAll();
     const existingCustomerMap = new Map(existingCustomers.map(c => [c.phone, c]));
     
     const importedCustomers: Customer[] = [];
@@ -258,27 +282,36 @@ export const importCustomersFromExcel = async (
       const rowNum = i + 2;
 
       try {
-        if (!row['Name'] || !row['Phone']) {
-          errors.push(`Row ${rowNum}: Name and Phone are required`);
+        const phone = toText(row['Phone']);
+        const rowId = toText(row['ID']);
+        const state = findStateCode(toText(row['State']));
+        if (state === null) {
+          errors.push(`Row ${rowNum}: Unknown state "${toText(row['State'])}"`);
           continue;
         }
 
-        const name = String(row['Name']).trim();
-        const phone = String(row['Phone']).trim();
-        const address = row['Address'] ? String(row['Address']).trim() : '';
-
         // Check if customer exists by ID or phone
-        const existingById = row['ID'] ? existingCustomers.find(c => c.id === row['ID']) : null;
+        const existingById = rowId ? existingCustomers.find(c => c.id === rowId) : null;
         const existingByPhone = existingCustomerMap.get(phone);
         const existing = existingById || existingByPhone;
+        // Blank cells keep what the customer already has
+        const gstin = toText(row['GSTIN']).toUpperCase() || existing?.gstin || '';
 
-        const customer: Customer = {
-          id: existing?.id || row['ID'] || crypto.randomUUID(),
-          name,
+        const parsed = customerInputSchema.safeParse({
+          id: existing?.id || rowId || crypto.randomUUID(),
+          name: toText(row['Name']),
           phone,
-          address,
+          address: toText(row['Address']),
+          state: state || existing?.state || gstinStateCode(gstin),
+          gstin,
+          creditLimit: toText(row['Credit Limit']) ? toNumber(row['Credit Limit']) : existing?.creditLimit ?? null,
           createdAt: existing?.createdAt || new Date().toISOString()
-        };
+        });
+        if (!parsed.success) {
+          errors.push(...rowErrors(rowNum, parsed.error.issues));
+          continue;
+        }
+        const customer: Customer = parsed.data;
 
         importedCustomers.push(customer);
 
@@ -305,7 +338,7 @@ export const importCustomersFromExcel = async (
       }
     }
 
-    customerStorage.save(finalCustomers);
+    await customerStorage.save(finalCustomers);
 
     const message = errors.length > 0
       ? `Imported ${importedCustomers.length} customers with ${errors.length} warnings: ${errors.join('; ')}`
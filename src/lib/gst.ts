@@ -0,0 +1,93 @@
+// GST reference data: rate slabs, HSN code format and state codes
+
+export const GST_RATES = [0, 5, 12, 18, 28] as const;
+
+// Rate for products saved before rates were per product
+export const DEFAULT_GST_RATE = 18;
+
+// HSN codes are 4, 6 or 8 digits
+export const HSN_CODE_PATTERN = /^(\d{4}|\d{6}|\d{8})$/;
+
+// 15 characters: state code, PAN, entity number, "Z" and a check character
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+// Intra-state sales are taxed as CGST + SGST, inter-state sales as IGST
+export type SupplyType = 'intra' | 'inter';
+
+// State and union territory codes as used in GSTINs
+export const INDIAN_STATES: { code: string; name: string }[] = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+  { code: '97', name: 'Other Territory' },
+];
+
+export const isStateCode = (code: string) => INDIAN_STATES.some(s => s.code === code);
+
+export const stateName = (code: string) => INDIAN_STATES.find(s => s.code === code)?.name || '';
+
+// "33 - Tamil Nadu"; empty when the state is not set
+export const stateLabel = (code: string) => (isStateCode(code) ? `${code} - ${stateName(code)}` : '');
+
+// Accepts a code ("33"), a name ("Tamil Nadu") or a label ("33 - Tamil Nadu")
+export const findStateCode = (value: string) => {
+  const text = value.trim().toLowerCase();
+  if (!text) return '';
+  const match = INDIAN_STATES.find(
+    s => s.code === text.padStart(2, '0') || s.name.toLowerCase() === text || stateLabel(s.code).toLowerCase() === text
+  );
+  return match?.code ?? null;
+};
+
+// The state a GSTIN is registered in, from its first two digits
+export const gstinStateCode = (gstin: string) => {
+  const code = gstin.trim().slice(0, 2);
+  return isStateCode(code) ? code : '';
+};
+
+/**
+ * A sale is inter-state when both the shop's and the customer's states are
+ * known and differ; otherwise it is taxed as a local sale.
+ */
+export const supplyTypeFor = (shopState: string, customerState: string): SupplyType =>
+  shopState && customerState && shopState !== customerState ? 'inter' : 'intra';
+
+/**
+ * A registered supplier (one with a GSTIN) charging tax issues a tax invoice;
+ * unregistered suppliers and bills with no tax on them get a bill of supply.
+ */
+export const invoiceTitle = (supplierGstin: string, taxAmount: number) =>
+  supplierGstin && taxAmount > 0 ? 'Tax Invoice' : 'Bill of Supply';
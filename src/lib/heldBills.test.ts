@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStorage } from '@/test/memoryStorage';
+import {
+  expireHeldBills,
+  holdAndStartNew,
+  mergeHeldBills,
+  newDraft,
+  readHeldBills,
+  recallHold,
+  updateActiveHold,
+  writeHeldBills,
+} from './heldBills';
+import { TABLE_NAMES } from './backends/types';
+import { upgradeData, type MigratableData } from './migrations';
+import { DRAFT_KEY, type BillItem } from './storage';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const item = (productId: string, quantity = 1): BillItem => ({
+  productId,
+  productName: `Product ${productId}`,
+  quantity,
+  price: 100,
+  total: 100 * quantity,
+});
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', new MemoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('held bills', () => {
+  it('keeps every held bill and drops the empty one on screen when saved', () => {
+    const now = Date.parse('2025-04-01T10:00:00.000Z');
+    const first = { ...newDraft(now), selectedCustomer: 'c1', items: [item('p1')] };
+
+    let held = holdAndStartNew({ activeId: first.id, bills: [first] }, now);
+    held = updateActiveHold(held, { selectedCustomer: 'c2', items: [item('p2')], discount: '0' }, now);
+    held = holdAndStartNew(held, now);
+    writeHeldBills(held);
+
+    const saved = readHeldBills();
+    expect(saved.bills.map(bill => bill.selectedCustomer)).toEqual(['c1', 'c2']);
+    expect(saved.activeId).toBe(held.activeId);
+  });
+
+  it('drops only the hold that fails validation', () => {
+    const good = { ...newDraft(), selectedCustomer: 'c1', items: [item('p1')] };
+    const bad = { ...newDraft(), selectedCustomer: 'c2', items: [{ ...item('p2'), discount: { type: 'percent', value: 150 } }] };
+    localStorage.setItem(DRAFT_KEY, JSON.stringify({ activeId: bad.id, bills: [good, bad] }));
+
+    expect(readHeldBills()).toEqual({ activeId: bad.id, bills: [good] });
+  });
+
+  it('keeps the holds another tab made or changed when saving', () => {
+    const now = Date.parse('2025-04-01T10:00:00.000Z');
+    const shared = { ...newDraft(now), selectedCustomer: 'c1', items: [item('p1')] };
+    const sold = { ...newDraft(now), selectedCustomer: 'c2', items: [item('p2')] };
+    const mine = { ...newDraft(now), selectedCustomer: 'c3', items: [item('p3')] };
+    const theirs = { ...newDraft(now), selectedCustomer: 'c4', items: [item('p4')] };
+    const edited = { ...shared, items: [item('p1', 2)], timestamp: now + HOUR_MS };
+
+    // This tab saw `shared` and `sold`; the other tab has since sold one, edited the other and held a new bill
+    const merged = mergeHeldBills(
+      [edited, theirs],
+      { activeId: mine.id, bills: [shared, sold, mine] },
+      new Set([shared.id, sold.id])
+    );
+
+    expect(merged).toEqual({ activeId: mine.id, bills: [edited, mine, theirs] });
+  });
+
+  it('does not bring back a hold this tab removed', () => {
+    const first = { ...newDraft(), selectedCustomer: 'c1', items: [item('p1')] };
+    const second = { ...newDraft(), selectedCustomer: 'c2', items: [item('p2')] };
+    writeHeldBills({ activeId: second.id, bills: [first, second] });
+
+    writeHeldBills({ activeId: second.id, bills: [second] });
+
+    expect(readHeldBills().bills).toEqual([second]);
+  });
+
+  it('recalls a held bill by id', () => {
+    const first = { ...newDraft(), selectedCustomer: 'c1', items: [item('p1')] };
+    const second = { ...newDraft(), selectedCustomer: 'c2' };
+    const empty = newDraft();
+
+    expect(recallHold({ activeId: empty.id, bills: [first, second, empty] }, second.id)).toEqual({
+      activeId: second.id,
+      bills: [first, second],
+    });
+    expect(recallHold({ activeId: empty.id, bills: [first, empty] }, 'gone')).toBeNull();
+  });
+
+  it('autosaves the form into the active hold only', () => {
+    const now = Date.parse('2025-04-01T10:00:00.000Z');
+    const parked = { ...newDraft(now - HOUR_MS), selectedCustomer: 'c1', items: [item('p1')] };
+    const active = newDraft(now - HOUR_MS);
+
+    const { bills } = updateActiveHold(
+      { activeId: active.id, bills: [parked, active] },
+      { selectedCustomer: 'c2', items: [item('p2', 3)], discount: '5', discountType: 'percent' },
+      now
+    );
+
+    expect(bills[0]).toBe(parked);
+    expect(bills[1]).toEqual({
+      ...active,
+      selectedCustomer: 'c2',
+      items: [item('p2', 3)],
+      discount: '5',
+      timestamp: now,
+    });
+  });
+
+  it('turns the single draft saved before v9 into the first held bill', () => {
+    const timestamp = Date.parse('2025-04-01T09:30:00.000Z');
+    const legacy = { selectedCustomer: 'c1', items: [item('p1', 2)], discount: '10', discountType: 'amount', timestamp };
+    const tables = Object.fromEntries(TABLE_NAMES.map(table => [table, []])) as MigratableData['tables'];
+
+    const { draft } = upgradeData({ tables, draft: legacy }, 8).data;
+    localStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
+
+    expect(readHeldBills()).toEqual({
+      activeId: 'draft',
+      bills: [{ ...legacy, id: 'draft', heldAt: timestamp }],
+    });
+  });
+});
+
+describe('expireHeldBills', () => {
+  it('drops holds left untouched past the expiry', () => {
+    const now = Date.parse('2025-04-01T18:00:00.000Z');
+    const fresh = { ...newDraft(now - 2 * HOUR_MS), timestamp: now - HOUR_MS };
+    const stale = newDraft(now - 30 * HOUR_MS);
+
+    expect(expireHeldBills({ activeId: stale.id, bills: [stale, fresh] }, 24, now)).toEqual({
+      held: { activeId: null, bills: [fresh] },
+      expired: 1,
+    });
+  });
+});
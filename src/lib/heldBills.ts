@@ -0,0 +1,112 @@
+// Bills parked on the Billing page while another customer is served
+import { billDraftSchema, heldBillsSchema } from './schemas';
+import { DRAFT_KEY, type BillDraft, type HeldBills } from './storage';
+
+// Device-local, like the held bills themselves
+const EXPIRY_KEY = 'aos-billing-hold-expiry';
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_HOLD_EXPIRY_HOURS = 24;
+
+export const getHoldExpiryHours = (): number => {
+  const hours = parseFloat(localStorage.getItem(EXPIRY_KEY) ?? '');
+  return hours > 0 ? hours : DEFAULT_HOLD_EXPIRY_HOURS;
+};
+
+export const saveHoldExpiryHours = (hours: number) => {
+  localStorage.setItem(EXPIRY_KEY, String(hours));
+};
+
+export const newDraft = (now = Date.now()): BillDraft => ({
+  id: crypto.randomUUID(),
+  selectedCustomer: '',
+  items: [],
+  discount: '0',
+  discountType: 'percent',
+  heldAt: now,
+  timestamp: now,
+});
+
+export const isEmptyDraft = (draft: BillDraft) => draft.items.length === 0 && !draft.selectedCustomer;
+
+// Ids of the holds this tab last read or wrote, to tell holds made in another tab from ones removed here
+let seenHoldIds = new Set<string>();
+
+// Holds that fail validation are dropped one by one rather than blocking the Billing page
+const savedHolds = (): HeldBills => {
+  try {
+    const { activeId, bills } = heldBillsSchema.parse(JSON.parse(localStorage.getItem(DRAFT_KEY) || ''));
+    return {
+      activeId,
+      bills: bills.flatMap(bill => {
+        const parsed = billDraftSchema.safeParse(bill);
+        return parsed.success ? [parsed.data] : [];
+      }),
+    };
+  } catch {
+    return { activeId: null, bills: [] };
+  }
+};
+
+export const readHeldBills = (): HeldBills => {
+  const held = savedHolds();
+  seenHoldIds = new Set(held.bills.map(bill => bill.id));
+  return held;
+};
+
+/**
+ * Merges this tab's holds into the ones saved now, as two Billing tabs each save the whole list.
+ * A saved hold this tab has not seen was made in another tab and is kept; a hold it has seen that
+ * is missing on one side was removed there. A hold on both sides keeps the later autosave.
+ */
+export const mergeHeldBills = (saved: BillDraft[], { activeId, bills }: HeldBills, seen: ReadonlySet<string>): HeldBills => {
+  const savedById = new Map(saved.map(bill => [bill.id, bill]));
+  const mine = new Set(bills.map(bill => bill.id));
+  const kept = bills.flatMap(bill => {
+    const other = savedById.get(bill.id);
+    if (!other) return seen.has(bill.id) && bill.id !== activeId ? [] : [bill];
+    return [other.timestamp > bill.timestamp ? other : bill];
+  });
+  return { activeId, bills: [...kept, ...saved.filter(bill => !mine.has(bill.id) && !seen.has(bill.id))] };
+};
+
+// Empty bills are not worth keeping. Returns the merged holds, empty ones included.
+export const writeHeldBills = (held: HeldBills): HeldBills => {
+  const merged = mergeHeldBills(savedHolds().bills, held, seenHoldIds);
+  const kept = merged.bills.filter(bill => !isEmptyDraft(bill));
+  if (kept.length === 0) localStorage.removeItem(DRAFT_KEY);
+  else localStorage.setItem(DRAFT_KEY, JSON.stringify({ activeId: merged.activeId, bills: kept }));
+  seenHoldIds = new Set(kept.map(bill => bill.id));
+  return merged;
+};
+
+// What the Billing form edits on the bill it shows
+export type DraftFields = Pick<BillDraft, 'selectedCustomer' | 'items' | 'discount' | 'discountType'>;
+
+// The holds with the form's current state saved into the active one only
+export const updateActiveHold = ({ activeId, bills }: HeldBills, fields: DraftFields, now = Date.now()): HeldBills => ({
+  activeId,
+  bills: bills.map(bill => (bill.id === activeId ? { ...bill, ...fields, timestamp: now } : bill)),
+});
+
+// Parks every bill as it is and makes a fresh one active
+export const holdAndStartNew = ({ bills }: HeldBills, now = Date.now()): HeldBills => {
+  const draft = newDraft(now);
+  return { activeId: draft.id, bills: [...bills, draft] };
+};
+
+// Makes `id` the active bill; an empty bill left behind is not worth keeping. Null for an unknown id.
+export const recallHold = ({ bills }: HeldBills, id: string): HeldBills | null => {
+  if (!bills.some(bill => bill.id === id)) return null;
+  return { activeId: id, bills: bills.filter(bill => bill.id === id || !isEmptyDraft(bill)) };
+};
+
+// Splits off holds not autosaved within `expiryHours`
+export const expireHeldBills = (held: HeldBills, expiryHours: number, now = Date.now()) => {
+  const cutoff = now - expiryHours * HOUR_MS;
+  const bills = held.bills.filter(bill => bill.timestamp >= cutoff);
+  return {
+    held: { activeId: bills.some(b => b.id === held.activeId) ? held.activeId : null, bills },
+    expired: held.bills.length - bills.length,
+  };
+};
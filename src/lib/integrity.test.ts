@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { recomputeBillTotals } from './integrity';
+import type { Bill } from './storage';
+
+const bill = (total: number, amountPaid: number): Bill => ({
+  id: 'b1',
+  invoiceNumber: 'INV-1001',
+  customerId: 'c1',
+  customerName: 'Ravi',
+  items: [{ productId: 'p1', productName: 'Rice 5kg', quantity: 2, price: 100, total: 200, gstRate: 0 }],
+  subtotal: total,
+  discount: 0,
+  gstAmount: 0,
+  total,
+  payments: [{ mode: 'cash', amount: amountPaid, reference: '', receivedAt: '2025-04-01T10:00:00.000Z' }],
+  amountPaid,
+  paymentStatus: amountPaid >= total ? 'paid' : 'partial',
+  status: 'active',
+  createdAt: '2025-04-01T10:00:00.000Z',
+});
+
+describe('recomputeBillTotals', () => {
+  it('settles the payment status against the recomputed total', () => {
+    // Stored as 150 and paid in full, but the lines come to 200
+    expect(recomputeBillTotals(bill(150, 150))).toMatchObject({ total: 200, paymentStatus: 'partial' });
+    // Stored as 250 with 200 paid, but 200 is all that was owed
+    expect(recomputeBillTotals(bill(250, 200))).toMatchObject({ total: 200, paymentStatus: 'paid' });
+  });
+});
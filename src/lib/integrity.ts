@@ -0,0 +1,367 @@
+import { recordAudit, diffRecords } from './audit';
+import { runTransaction } from './backends/transaction';
+import { ENTITY_SCHEMAS } from './schemas';
+import { formatRupees, toPaise } from './money';
+import { calculateBillInvoice } from './invoice';
+import { netTotal, paymentStatusFor } from './payments';
+import type { StorageBackend } from './backends/types';
+import type { AuditChange, Bill, Customer, Product, RecyclableTable } from './storage';
+
+export type IssueKind =
+  | 'orphanBillItem'
+  | 'missingCustomer'
+  | 'missingParent'
+  | 'parentCycle'
+  | 'invalidStock'
+  | 'billTotals'
+  | 'duplicateInvoice'
+  | 'invalidRecord';
+
+// relink: point at an existing record; recompute: derive values again; flag: mark for a person to review
+export type RepairAction = 'relink' | 'recompute' | 'flag';
+
+export const ISSUE_KIND_LABELS: Record<IssueKind, string> = {
+  orphanBillItem: 'Bill items for missing products',
+  missingCustomer: 'Bills for missing customers',
+  missingParent: 'Products under a missing category',
+  parentCycle: 'Category loops',
+  invalidStock: 'Invalid stock values',
+  billTotals: 'Bill totals that do not add up',
+  duplicateInvoice: 'Duplicate invoice numbers',
+  invalidRecord: 'Records that fail validation',
+};
+
+type AnyRecord = Product | Customer | Bill;
+
+export interface IntegrityIssue {
+  // Stable across scans, so a flag stays attached to the same problem
+  id: string;
+  kind: IssueKind;
+  table: RecyclableTable;
+  recordId: string;
+  recordLabel: string;
+  message: string;
+  action: RepairAction;
+  repairDescription: string;
+  flagged: boolean;
+  // Returns the repaired record; absent for `flag` repairs
+  fix?: (record: AnyRecord) => AnyRecord;
+}
+
+export interface IntegrityReport {
+  checkedAt: string;
+  counts: Record<IssueKind, number>;
+  issues: IntegrityIssue[];
+}
+
+export interface RepairPreview {
+  issue: IntegrityIssue;
+  changes: Record<string, AuditChange>;
+}
+
+const FLAGS_KEY = 'integrity_flags';
+
+const isLive = (record: { deletedAt?: string | null }) => !record.deletedAt;
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+// Rupee amounts are compared to the paisa
+const differs = (a: number, b: number) => toPaise(a) !== toPaise(b);
+
+// The bill with its item totals, subtotal, GST and total worked out again from its lines,
+// and its payment status from the new total against what was paid
+export const recomputeBillTotals = (bill: Bill): Bill => {
+  const invoice = calculateBillInvoice(bill);
+  const owed = netTotal({ total: invoice.total, returnedAmount: bill.returnedAmount });
+  return {
+    ...bill,
+    items: bill.items.map((item, i) => ({
+      ...item,
+      total: invoice.lineTotals[i],
+      ...(item.netAmount !== undefined && {
+        discountAmount: invoice.lineDiscounts[i],
+        netAmount: invoice.lineNetAmounts[i],
+      }),
+      ...(item.taxableValue !== undefined && { taxableValue: invoice.lineTaxableValues[i] }),
+    })),
+    subtotal: invoice.subtotal,
+    ...(bill.itemDiscount !== undefined && { itemDiscount: invoice.itemDiscount }),
+    discount: invoice.discount,
+    gstAmount: invoice.gstAmount,
+    total: invoice.total,
+    paymentStatus: paymentStatusFor(owed, bill.amountPaid),
+    // Bills made before per-product GST keep their shape
+    ...(bill.taxBreakup && {
+      cgstAmount: invoice.cgst,
+      sgstAmount: invoice.sgst,
+      igstAmount: invoice.igst,
+      taxBreakup: invoice.taxBreakup,
+    }),
+  };
+};
+
+const checkBillTotals = (bill: Bill) => {
+  const expected = recomputeBillTotals(bill);
+  return (
+    bill.items.some((item, i) => differs(item.total, expected.items[i].total)) ||
+    differs(bill.subtotal, expected.subtotal) ||
+    differs(bill.itemDiscount ?? 0, expected.itemDiscount ?? 0) ||
+    differs(bill.discount, expected.discount) ||
+    differs(bill.gstAmount, expected.gstAmount) ||
+    differs(bill.total, expected.total)
+  );
+};
+
+/**
+ * Scan every live product, customer and bill. Records in the Recycle Bin are
+ * not checked, but count as missing when something still points at them.
+ */
+export const scanIntegrity = async (db: StorageBackend): Promise<IntegrityReport> => {
+  const allProducts = await db.getAll('products');
+  const allCustomers = await db.getAll('customers');
+  const bills = (await db.getAll('bills')).filter(isLive);
+  const flags = (await db.getMeta<Record<string, string>>(FLAGS_KEY)) || {};
+
+  const products = allProducts.filter(isLive);
+  const customers = allCustomers.filter(isLive);
+  const productsById = new Map(products.map(p => [p.id, p]));
+  const customersById = new Map(customers.map(c => [c.id, c]));
+  const binned = new Set([...allProducts, ...allCustomers].filter(r => !isLive(r)).map(r => r.id));
+  const whyMissing = (id: string) => (binned.has(id) ? 'is in the Recycle Bin' : 'no longer exists');
+
+  const issues: IntegrityIssue[] = [];
+  const add = (issue: Omit<IntegrityIssue, 'flagged'>) => issues.push({ ...issue, flagged: !!flags[issue.id] });
+
+  // Records the repositories skip because they fail their schema; stock values have their own repair
+  const invalidIds = new Set<string>();
+  for (const [table, records] of [['products', products], ['customers', customers], ['bills', bills]] as const) {
+    for (const record of records) {
+      const result = ENTITY_SCHEMAS[table].safeParse(record);
+      if (result.success) continue;
+      const problems = result.error.issues.filter(
+        issue => !(table === 'products' && ['stock', 'minStock'].includes(String(issue.path[0])))
+      );
+      if (problems.length === 0) continue;
+      invalidIds.add(record.id);
+      add({
+        id: `invalidRecord:${record.id}`,
+        kind: 'invalidRecord',
+        table,
+        recordId: record.id,
+        recordLabel: String(table === 'bills' ? (record as Bill).invoiceNumber : (record as Product | Customer).name || record.id),
+        message: problems.map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)).join('; '),
+        action: 'flag',
+        repairDescription: 'Hidden from the app until fixed; flag for review',
+      });
+    }
+  }
+
+  // Products
+  for (const product of products) {
+    if (product.parentId && !productsById.has(product.parentId)) {
+      add({
+        id: `missingParent:${product.id}`,
+        kind: 'missingParent',
+        table: 'products',
+        recordId: product.id,
+        recordLabel: product.name,
+        message: `Parent category ${whyMissing(product.parentId)}`,
+        action: 'relink',
+        repairDescription: 'Move to top level',
+        fix: record => ({ ...record, parentId: null }),
+      });
+    } else if (product.parentId) {
+      // Walk up the chain; meeting this product again means a loop
+      const seen = new Set([product.id]);
+      let parent = productsById.get(product.parentId);
+      while (parent?.parentId && !seen.has(parent.id)) {
+        seen.add(parent.id);
+        parent = productsById.get(parent.parentId);
+      }
+      if (parent?.id === product.id) {
+        add({
+          id: `parentCycle:${product.id}`,
+          kind: 'parentCycle',
+          table: 'products',
+          recordId: product.id,
+          recordLabel: product.name,
+          message: 'Is its own ancestor through its parent categories',
+          action: 'relink',
+          repairDescription: 'Move to top level',
+          fix: record => ({ ...record, parentId: null }),
+        });
+      }
+    }
+
+    if (!Number.isFinite(product.stock) || product.stock < 0 || !Number.isFinite(product.minStock) || product.minStock < 0) {
+      add({
+        id: `invalidStock:${product.id}`,
+        kind: 'invalidStock',
+        table: 'products',
+        recordId: product.id,
+        recordLabel: product.name,
+        message: `Stock ${product.stock}, minimum ${product.minStock}`,
+        action: 'recompute',
+        repairDescription: 'Reset invalid or negative values to 0',
+        fix: record => {
+          const p = record as Product;
+          const valid = (n: number) => (Number.isFinite(n) && n >= 0 ? n : 0);
+          return { ...p, stock: valid(p.stock), minStock: valid(p.minStock) };
+        },
+      });
+    }
+  }
+
+  // Bills
+  const byInvoiceNumber = new Map<string, Bill[]>();
+  for (const bill of bills) {
+    // Item and total checks need well-formed items
+    if (invalidIds.has(bill.id) && !Array.isArray(bill.items)) continue;
+    byInvoiceNumber.set(bill.invoiceNumber, [...(byInvoiceNumber.get(bill.invoiceNumber) || []), bill]);
+
+    bill.items.forEach((item, index) => {
+      if (productsById.has(item.productId)) return;
+      const match = products.find(p => sameName(p.name, item.productName));
+      add({
+        id: `orphanBillItem:${bill.id}:${index}`,
+        kind: 'orphanBillItem',
+        table: 'bills',
+        recordId: bill.id,
+        recordLabel: bill.invoiceNumber,
+        message: `Item "${item.productName}": product ${whyMissing(item.productId)}`,
+        ...(match
+          ? {
+              action: 'relink' as const,
+              repairDescription: `Link to product "${match.name}"`,
+              fix: (record: AnyRecord) => {
+                const b = record as Bill;
+                return { ...b, items: b.items.map((it, i) => (i === index ? { ...it, productId: match.id } : it)) };
+              },
+            }
+          : { action: 'flag' as const, repairDescription: 'No product with the same name; flag for review' }),
+      });
+    });
+
+    if (bill.customerId && !customersById.has(bill.customerId)) {
+      const match = customers.find(c => sameName(c.name, bill.customerName));
+      add({
+        id: `missingCustomer:${bill.id}`,
+        kind: 'missingCustomer',
+        table: 'bills',
+        recordId: bill.id,
+        recordLabel: bill.invoiceNumber,
+        message: `Customer "${bill.customerName}" ${whyMissing(bill.customerId)}`,
+        ...(match
+          ? {
+              action: 'relink' as const,
+              repairDescription: `Link to customer "${match.name}"`,
+              fix: (record: AnyRecord) => ({ ...record, customerId: match.id }),
+            }
+          : { action: 'flag' as const, repairDescription: 'No customer with the same name; flag for review' }),
+      });
+    }
+
+    if (checkBillTotals(bill)) {
+      const expected = recomputeBillTotals(bill);
+      add({
+        id: `billTotals:${bill.id}`,
+        kind: 'billTotals',
+        table: 'bills',
+        recordId: bill.id,
+        recordLabel: bill.invoiceNumber,
+        message: `Total ${formatRupees(bill.total)} should be ${formatRupees(expected.total)}`,
+        action: 'recompute',
+        repairDescription: 'Recompute item totals, subtotal, discount, GST, total and payment status',
+        fix: record => recomputeBillTotals(record as Bill),
+      });
+    }
+  }
+
+  for (const [invoiceNumber, sharing] of byInvoiceNumber) {
+    if (sharing.length < 2) continue;
+    for (const bill of sharing) {
+      add({
+        id: `duplicateInvoice:${bill.id}`,
+        kind: 'duplicateInvoice',
+        table: 'bills',
+        recordId: bill.id,
+        recordLabel: invoiceNumber,
+        message: `${sharing.length} bills share this invoice number`,
+        action: 'flag',
+        repairDescription: 'Flag for review; invoice numbers are never changed automatically',
+      });
+    }
+  }
+
+  const counts = Object.fromEntries(
+    (Object.keys(ISSUE_KIND_LABELS) as IssueKind[]).map(kind => [kind, issues.filter(i => i.kind === kind).length])
+  ) as Record<IssueKind, number>;
+  return { checkedAt: new Date().toISOString(), counts, issues };
+};
+
+const recordKey = (issue: IntegrityIssue) => `${issue.table}:${issue.recordId}`;
+
+/**
+ * What repairing `issues` would change, field by field, without writing.
+ * Fixes for the same record are applied in order, as `repairIssues` does.
+ */
+export const previewRepairs = async (db: StorageBackend, issues: IntegrityIssue[]): Promise<RepairPreview[]> => {
+  const working = new Map<string, AnyRecord>();
+  const previews: RepairPreview[] = [];
+  for (const issue of issues) {
+    if (!issue.fix) {
+      previews.push({ issue, changes: {} });
+      continue;
+    }
+    const key = recordKey(issue);
+    const current = working.get(key) ?? (await db.get(issue.table, issue.recordId));
+    if (!current) continue;
+    const next = issue.fix(current);
+    working.set(key, next);
+    previews.push({ issue, changes: diffRecords(current, next) });
+  }
+  return previews;
+};
+
+/**
+ * Apply the repairs for `issues` in one transaction. Relink and recompute
+ * repairs rewrite the record and are logged in the audit trail; flag repairs
+ * only mark the issue so later scans show it as flagged for review.
+ */
+export const repairIssues = (db: StorageBackend, issues: IntegrityIssue[]) =>
+  runTransaction(db, async tx => {
+    const working = new Map<string, { before: AnyRecord; after: AnyRecord; issue: IntegrityIssue; kinds: Set<string> }>();
+    const flags = (await tx.getMeta<Record<string, string>>(FLAGS_KEY)) || {};
+    const now = new Date().toISOString();
+
+    for (const issue of issues) {
+      if (!issue.fix) {
+        flags[issue.id] = flags[issue.id] || now;
+        continue;
+      }
+      const key = recordKey(issue);
+      const entry = working.get(key);
+      const current = entry?.after ?? (await tx.get(issue.table, issue.recordId));
+      if (!current) continue;
+      const after = issue.fix(current);
+      working.set(key, {
+        before: entry?.before ?? current,
+        after,
+        issue,
+        kinds: new Set([...(entry?.kinds || []), ISSUE_KIND_LABELS[issue.kind]]),
+      });
+    }
+
+    for (const { before, after, issue, kinds } of working.values()) {
+      await tx.put(issue.table, after);
+      await recordAudit(tx, {
+        entityType: issue.table,
+        entityId: issue.recordId,
+        entityLabel: issue.recordLabel,
+        action: 'update',
+        before,
+        after,
+        reason: `Integrity repair: ${[...kinds].join(', ')}`,
+      });
+    }
+    await tx.setMeta(FLAGS_KEY, flags);
+    return { repaired: working.size, flagged: issues.filter(i => !i.fix).length };
+  });
@@ -0,0 +1,223 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBillInvoice, calculateInvoice } from './invoice';
+
+describe('calculateInvoice', () => {
+  it('totals lines, discount and GST', () => {
+    const invoice = calculateInvoice({
+      items: [
+        { price: 100, quantity: 2 },
+        { price: 50, quantity: 1 },
+      ],
+      discount: { type: 'percent', value: 10 },
+      gstPercent: 18,
+    });
+
+    expect(invoice.lineTotals).toEqual([200, 50]);
+    expect(invoice.subtotal).toBe(250);
+    expect(invoice.discount).toBe(25);
+    expect(invoice.taxable).toBe(225);
+    expect(invoice.gstAmount).toBe(40.5);
+    expect(invoice.total).toBe(265.5);
+    expect(invoice.roundOff).toBe(0);
+  });
+
+  it('has no float drift in sums', () => {
+    const invoice = calculateInvoice({
+      items: [
+        { price: 0.1, quantity: 1 },
+        { price: 0.2, quantity: 1 },
+      ],
+      gstPercent: 0,
+    });
+
+    expect(invoice.subtotal).toBe(0.3);
+    expect(invoice.total).toBe(0.3);
+  });
+
+  it('rounds each line to the paisa, halves away from zero', () => {
+    const invoice = calculateInvoice({ items: [{ price: 19.99, quantity: 1.5 }], gstPercent: 0 });
+
+    expect(invoice.lineTotals).toEqual([29.99]);
+  });
+
+  it('rounds a percent discount once on the subtotal', () => {
+    const invoice = calculateInvoice({
+      items: [
+        { price: 33.33, quantity: 1 },
+        { price: 33.33, quantity: 1 },
+        { price: 33.34, quantity: 1 },
+      ],
+      discount: { type: 'percent', value: 12.5 },
+      gstPercent: 0,
+    });
+
+    expect(invoice.subtotal).toBe(100);
+    expect(invoice.discount).toBe(12.5);
+  });
+
+  it('rounds GST once on the amount after discount', () => {
+    const invoice = calculateInvoice({ items: [{ price: 10.05, quantity: 1 }], gstPercent: 5 });
+
+    // 10.05 × 5% = 0.5025
+    expect(invoice.gstAmount).toBe(0.5);
+    expect(invoice.total).toBe(10.55);
+  });
+
+  it('takes an amount discount as given', () => {
+    const invoice = calculateInvoice({
+      items: [{ price: 200, quantity: 1 }],
+      discount: { type: 'amount', value: 30 },
+      gstPercent: 18,
+    });
+
+    expect(invoice.discount).toBe(30);
+    expect(invoice.discountPercent).toBe(15);
+    expect(invoice.gstAmount).toBe(30.6);
+    expect(invoice.total).toBe(200.6);
+  });
+
+  it('keeps the discount between zero and the subtotal', () => {
+    const items = [{ price: 50, quantity: 1 }];
+
+    expect(calculateInvoice({ items, discount: { type: 'amount', value: 80 }, gstPercent: 18 }).total).toBe(0);
+    expect(calculateInvoice({ items, discount: { type: 'amount', value: -10 }, gstPercent: 0 }).discount).toBe(0);
+  });
+
+  it('rounds the total to the nearest rupee when asked', () => {
+    const items = [{ price: 99.5, quantity: 1 }];
+
+    const down = calculateInvoice({ items, gstPercent: 18, roundOff: true });
+    expect(down.total).toBe(117);
+    expect(down.roundOff).toBe(-0.41);
+
+    const half = calculateInvoice({ items: [{ price: 10.5, quantity: 1 }], gstPercent: 0, roundOff: true });
+    expect(half.total).toBe(11);
+    expect(half.roundOff).toBe(0.5);
+  });
+
+  it('treats blank or invalid inputs as zero', () => {
+    const invoice = calculateInvoice({
+      items: [{ price: NaN, quantity: 2 }],
+      discount: { type: 'percent', value: NaN },
+      gstPercent: NaN,
+    });
+
+    expect(invoice.total).toBe(0);
+    expect(invoice.gstAmount).toBe(0);
+  });
+
+  it('handles an empty invoice', () => {
+    const invoice = calculateInvoice({ items: [], discount: { type: 'percent', value: 10 }, gstPercent: 18 });
+
+    expect(invoice).toMatchObject({ subtotal: 0, discount: 0, discountPercent: 0, gstAmount: 0, total: 0 });
+  });
+});
+
+describe('per-product GST', () => {
+  const items = [
+    { price: 100, quantity: 1, gstRate: 5, hsnCode: '1006' },
+    { price: 300, quantity: 1, gstRate: 18, hsnCode: '3401' },
+    { price: 50, quantity: 2, gstRate: 5, hsnCode: '1006' },
+  ];
+
+  it('taxes each line at its own rate and groups the summary by HSN and rate', () => {
+    const invoice = calculateInvoice({ items });
+
+    expect(invoice.lineRates).toEqual([5, 18, 5]);
+    expect(invoice.taxBreakup).toEqual([
+      { hsnCode: '1006', gstRate: 5, taxableValue: 200, cgst: 5, sgst: 5, igst: 0 },
+      { hsnCode: '3401', gstRate: 18, taxableValue: 300, cgst: 27, sgst: 27, igst: 0 },
+    ]);
+    expect(invoice.gstAmount).toBe(64);
+    expect(invoice.total).toBe(564);
+  });
+
+  it('charges IGST instead of CGST and SGST between states', () => {
+    const invoice = calculateInvoice({ items, supplyType: 'inter' });
+
+    expect(invoice.cgst).toBe(0);
+    expect(invoice.sgst).toBe(0);
+    expect(invoice.igst).toBe(64);
+    expect(invoice.gstAmount).toBe(64);
+  });
+
+  it('puts an odd paisa of tax in CGST', () => {
+    const invoice = calculateInvoice({ items: [{ price: 10.1, quantity: 1, gstRate: 5 }] });
+
+    // 10.10 × 5% = 0.505, rounded to 0.51
+    expect(invoice.cgst).toBe(0.26);
+    expect(invoice.sgst).toBe(0.25);
+  });
+
+  it('shares the discount across lines before tax, to the paisa', () => {
+    const invoice = calculateInvoice({
+      items: [
+        { price: 100, quantity: 1, gstRate: 5 },
+        { price: 100, quantity: 1, gstRate: 18 },
+        { price: 100, quantity: 1, gstRate: 18 },
+      ],
+      discount: { type: 'amount', value: 10 },
+    });
+
+    expect(invoice.lineTaxableValues).toEqual([96.66, 96.67, 96.67]);
+    expect(invoice.taxBreakup.map(row => row.taxableValue)).toEqual([96.66, 193.34]);
+    expect(invoice.taxable).toBe(290);
+  });
+
+  it('uses the invoice rate for lines without their own', () => {
+    const invoice = calculateInvoice({ items: [{ price: 100, quantity: 1 }], gstPercent: 12 });
+
+    expect(invoice.taxBreakup).toEqual([{ hsnCode: '', gstRate: 12, taxableValue: 100, cgst: 6, sgst: 6, igst: 0 }]);
+  });
+});
+
+describe('line discounts', () => {
+  it('takes each line discount before the bill discount, and both before tax', () => {
+    const invoice = calculateInvoice({
+      items: [{ price: 100, quantity: 1, discount: { type: 'percent', value: 10 } }],
+      discount: { type: 'percent', value: 10 },
+      gstPercent: 5,
+    });
+
+    expect(invoice.lineNetAmounts).toEqual([90]);
+    expect(invoice.itemDiscount).toBe(10);
+    expect(invoice.discount).toBe(9);
+    expect(invoice.taxable).toBe(81);
+    expect(invoice.gstAmount).toBe(4.05);
+    expect(invoice.total).toBe(85.05);
+  });
+
+  it('keeps a flat line discount within the line and shares the bill discount by net amount', () => {
+    const invoice = calculateInvoice({
+      items: [
+        { price: 100, quantity: 2, discount: { type: 'percent', value: 10 } },
+        { price: 50, quantity: 1, discount: { type: 'amount', value: 80 } },
+      ],
+      discount: { type: 'amount', value: 17 },
+      gstPercent: 18,
+    });
+
+    expect(invoice.lineDiscounts).toEqual([20, 50]);
+    expect(invoice.lineTaxableValues).toEqual([163, 0]);
+    expect(invoice.subtotal).toBe(250);
+    expect(invoice.itemDiscount).toBe(70);
+    expect(invoice.discountPercent).toBe(9.44);
+    expect(invoice.gstAmount).toBe(29.34);
+    expect(invoice.total).toBe(192.34);
+  });
+});
+
+describe('calculateBillInvoice', () => {
+  it('reads the stored discount as an amount, not a percent', () => {
+    const invoice = calculateBillInvoice({
+      items: [{ productId: 'p1', productName: 'Rice', quantity: 4, price: 50, total: 200 }],
+      discount: 20,
+      gstPercent: 5,
+    });
+
+    expect(invoice.discount).toBe(20);
+    expect(invoice.discountPercent).toBe(10);
+    expect(invoice.gstAmount).toBe(9);
+    expect(invoice.total).toBe(189);
+  });
+});
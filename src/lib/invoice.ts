@@ -0,0 +1,171 @@
+// Invoice calculation shared by billing, history, print views and integrity
+// checks. Framework-free so it can be unit tested on its own.
+import { allocatePaise, fromPaise, multiplyPaise, percentOfPaise, sumPaise, toPaise, type Paise } from './money';
+import type { SupplyType } from './gst';
+import type { Bill, TaxBreakupRow } from './storage';
+
+export type DiscountType = 'percent' | 'amount';
+
+// Percent off, or a fixed rupee amount
+export interface InvoiceDiscount {
+  type: DiscountType;
+  value: number;
+}
+
+export interface InvoiceLineInput {
+  price: number;
+  quantity: number;
+  // Taken off this line's total before the bill discount
+  discount?: InvoiceDiscount;
+  // Falls back to the invoice's gstPercent when absent
+  gstRate?: number;
+  hsnCode?: string;
+}
+
+export interface InvoiceInput {
+  items: InvoiceLineInput[];
+  // Bill discount, on the total of the lines after their own discounts
+  discount?: InvoiceDiscount;
+  // Rate for lines without their own gstRate
+  gstPercent?: number;
+  supplyType?: SupplyType;
+  // Round the grand total to the nearest rupee
+  roundOff?: boolean;
+}
+
+// Every amount is in rupees, exact to the paisa
+export interface InvoiceTotals {
+  // Price × quantity, before any discount
+  lineTotals: number[];
+  lineDiscounts: number[];
+  // Each line's total less its own discount
+  lineNetAmounts: number[];
+  // Each net amount less its share of the bill discount
+  lineTaxableValues: number[];
+  lineRates: number[];
+  subtotal: number;
+  // Sum of the line discounts
+  itemDiscount: number;
+  // The bill discount alone
+  discount: number;
+  // Bill discount as a percent of the lines after their discounts, for display
+  discountPercent: number;
+  taxable: number;
+  supplyType: SupplyType;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  gstAmount: number;
+  taxBreakup: TaxBreakupRow[];
+  roundOff: number;
+  total: number;
+}
+
+const finiteOr0 = (value: number | undefined) => (Number.isFinite(value) ? (value as number) : 0);
+
+// A discount on `amount` in paise, kept between 0 and the amount
+const discountPaise = (amount: Paise, discount: InvoiceDiscount | undefined): Paise => {
+  if (!discount) return 0;
+  const requested =
+    discount.type === 'percent' ? percentOfPaise(amount, finiteOr0(discount.value)) : toPaise(finiteOr0(discount.value));
+  return Math.min(Math.max(requested, 0), Math.max(amount, 0));
+};
+
+/**
+ * Totals for an invoice. Rounding rules, all to the paisa with halves away
+ * from zero:
+ * - each line is price × quantity, rounded;
+ * - discounts are taken in order: each line's own discount on its total, then
+ *   the bill discount on the sum of what is left. A percent discount is
+ *   rounded once on the amount it applies to; any discount is kept between 0
+ *   and that amount. The bill discount is shared across lines in proportion
+ *   to their net amounts, so each line is taxed after both discounts;
+ * - tax is rounded once per HSN code and rate on the taxable value of those
+ *   lines. Intra-state tax is split into CGST and SGST, with any odd paisa in
+ *   CGST; inter-state tax is all IGST;
+ * - with `roundOff`, the total is moved to the nearest rupee and the
+ *   difference reported as `roundOff`.
+ */
+export const calculateInvoice = ({
+  items,
+  discount,
+  gstPercent = 0,
+  supplyType = 'intra',
+  roundOff = false,
+}: InvoiceInput): InvoiceTotals => {
+  const linePaise = items.map(item => multiplyPaise(toPaise(finiteOr0(item.price)), finiteOr0(item.quantity)));
+  const subtotal = sumPaise(linePaise);
+
+  const lineDiscounts = items.map((item, i) => discountPaise(linePaise[i], item.discount));
+  const lineNet = linePaise.map((line, i) => line - lineDiscounts[i]);
+  const itemDiscount = sumPaise(lineDiscounts);
+  const netSubtotal = subtotal - itemDiscount;
+
+  const billDiscount = discountPaise(netSubtotal, discount);
+  const billShares = allocatePaise(billDiscount, lineNet.map(net => Math.max(net, 0)));
+  const lineTaxable = lineNet.map((net, i) => net - billShares[i]);
+  const lineRates = items.map(item => finiteOr0(item.gstRate ?? gstPercent));
+
+  // Group by HSN code and rate, in first-seen order
+  const groups = new Map<string, { hsnCode: string; gstRate: number; taxable: number }>();
+  items.forEach((item, i) => {
+    const hsnCode = item.hsnCode || '';
+    const key = `${hsnCode}|${lineRates[i]}`;
+    const group = groups.get(key) || { hsnCode, gstRate: lineRates[i], taxable: 0 };
+    group.taxable += lineTaxable[i];
+    groups.set(key, group);
+  });
+
+  const breakup = [...groups.values()].map(({ hsnCode, gstRate, taxable }) => {
+    const tax = percentOfPaise(taxable, gstRate);
+    const cgst = supplyType === 'intra' ? tax - Math.trunc(tax / 2) : 0;
+    const sgst = supplyType === 'intra' ? tax - cgst : 0;
+    return { hsnCode, gstRate, taxable, cgst, sgst, igst: supplyType === 'inter' ? tax : 0 };
+  });
+
+  const cgst = sumPaise(breakup.map(row => row.cgst));
+  const sgst = sumPaise(breakup.map(row => row.sgst));
+  const igst = sumPaise(breakup.map(row => row.igst));
+  const gstAmount = cgst + sgst + igst;
+  const taxable = netSubtotal - billDiscount;
+  const beforeRoundOff = taxable + gstAmount;
+  const total = roundOff ? Math.sign(beforeRoundOff) * Math.round(Math.abs(beforeRoundOff) / 100) * 100 : beforeRoundOff;
+
+  return {
+    lineTotals: linePaise.map(fromPaise),
+    lineDiscounts: lineDiscounts.map(fromPaise),
+    lineNetAmounts: lineNet.map(fromPaise),
+    lineTaxableValues: lineTaxable.map(fromPaise),
+    lineRates,
+    subtotal: fromPaise(subtotal),
+    itemDiscount: fromPaise(itemDiscount),
+    discount: fromPaise(billDiscount),
+    discountPercent: netSubtotal > 0 ? Math.round((billDiscount / netSubtotal) * 10000) / 100 : 0,
+    taxable: fromPaise(taxable),
+    supplyType,
+    cgst: fromPaise(cgst),
+    sgst: fromPaise(sgst),
+    igst: fromPaise(igst),
+    gstAmount: fromPaise(gstAmount),
+    taxBreakup: breakup.map(row => ({
+      hsnCode: row.hsnCode,
+      gstRate: row.gstRate,
+      taxableValue: fromPaise(row.taxable),
+      cgst: fromPaise(row.cgst),
+      sgst: fromPaise(row.sgst),
+      igst: fromPaise(row.igst),
+    })),
+    roundOff: fromPaise(total - beforeRoundOff),
+    total: fromPaise(total),
+  };
+};
+
+// Totals for a saved bill, whose `discount` is the bill discount amount taken off.
+// Line discounts are read from each item as entered.
+export const calculateBillInvoice = (bill: Pick<Bill, 'items' | 'discount' | 'gstPercent' | 'supplyType'>) =>
+  calculateInvoice({
+    items: bill.items,
+    discount: { type: 'amount', value: bill.discount },
+    gstPercent: bill.gstPercent,
+    supplyType: bill.supplyType,
+  });
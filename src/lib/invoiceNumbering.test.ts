@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStorage } from '@/test/memoryStorage';
+import { localStorageBackend } from './backends/localStorageBackend';
+import { DEFAULT_SERIES, buildGapReport, invoiceNumbering, validateTemplate } from './invoiceNumbering';
+import { ValidationError } from './schemas';
+import type { Bill } from './storage';
+
+const db = localStorageBackend;
+const april2025 = new Date(2025, 3, 10);
+const may2026 = new Date(2026, 4, 10);
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', new MemoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('invoiceNumbering', () => {
+  it('requires the financial year in a series that resets', () => {
+    expect(validateTemplate('INV-{SEQ}', true)).toMatch(/must contain \{FY\}/);
+    expect(validateTemplate('INV/{FYYYY}/{SEQ}', true)).toBeNull();
+    expect(validateTemplate('INV-{SEQ}', false)).toBeNull();
+  });
+
+  it('carries the counter on when reset is switched on or off', async () => {
+    await db.setMeta('invoice_counter', { period: 'all', value: 1005 });
+
+    const series = { template: 'INV/{FY}/{SEQ}', startAt: 1001, resetEachFinancialYear: true };
+    await invoiceNumbering.saveSeries(db, 'invoice', series);
+    const reservation = await invoiceNumbering.reserve(db, 'invoice', april2025);
+    expect(reservation.invoiceNumber).toBe('INV/25-26/1006');
+    await reservation.commit();
+
+    await invoiceNumbering.saveSeries(db, 'invoice', { ...series, resetEachFinancialYear: false });
+    expect(await invoiceNumbering.preview(db, 'invoice', april2025)).toBe('INV/25-26/1007');
+  });
+
+  it('starts a reset series over only in a new financial year', async () => {
+    await db.setMeta('quotation_counter', { period: '25-26', value: 12 });
+    expect(await invoiceNumbering.preview(db, 'quotation', april2025)).toBe('QT/25-26/0013');
+    expect(await invoiceNumbering.preview(db, 'quotation', may2026)).toBe('QT/26-27/0001');
+
+    // Saved before the financial year was required, so it must not restart
+    await db.setMeta('number_series', { invoice: { template: 'INV-{SEQ}', startAt: 1, resetEachFinancialYear: true } });
+    await db.setMeta('invoice_counter', { period: 'all', value: 40 });
+    expect(await invoiceNumbering.preview(db, 'invoice', may2026)).toBe('INV-41');
+  });
+
+  it('refuses to hand out a number already issued', async () => {
+    await db.put('bills', { id: 'b1', invoiceNumber: 'INV-1001' } as Bill);
+
+    const reserving = invoiceNumbering.reserve(db, 'invoice', april2025);
+    await expect(reserving).rejects.toBeInstanceOf(ValidationError);
+    await expect(reserving).rejects.toThrow(/INV-1001 has already been issued/);
+  });
+});
+
+describe('buildGapReport', () => {
+  const doc = (number: string, createdAt = '2025-04-10T10:00:00.000Z') => ({ number, createdAt });
+
+  it('lists missing and repeated numbers and those from another template', () => {
+    const report = buildGapReport(DEFAULT_SERIES.invoice, [
+      doc('INV-1001'),
+      doc('INV-1002'),
+      doc('INV-1005'),
+      doc('INV-1002'),
+      doc('BILL-7'),
+    ]);
+
+    expect(report.periods).toEqual([
+      { period: 'all', first: 1001, last: 1005, issued: 4, missing: [1003, 1004], duplicates: ['INV-1002'] },
+    ]);
+    expect(report.unmatched).toEqual(['BILL-7']);
+  });
+
+  it('checks a reset series from its start in each financial year', () => {
+    const report = buildGapReport(DEFAULT_SERIES.receipt, [
+      doc('RCT/25-26/0002'),
+      doc('RCT/25-26/0003'),
+      doc('RCT/26-27/0001', '2026-05-10T10:00:00.000Z'),
+    ]);
+
+    expect(report.periods.map(p => [p.period, p.first, p.missing])).toEqual([
+      ['25-26', 1, [1]],
+      ['26-27', 1, []],
+    ]);
+  });
+
+  it('checks the numbers of each syncing device separately', () => {
+    const report = buildGapReport(DEFAULT_SERIES.invoice, [
+      doc('INV-1001'),
+      doc('A1B2-INV-1001'),
+      doc('A1B2-INV-1002'),
+      doc('C3D4-INV-1002'),
+    ]);
+
+    expect(report.unmatched).toEqual([]);
+    expect(report.periods.map(p => [p.device, p.issued, p.missing, p.duplicates])).toEqual([
+      [undefined, 1, [], []],
+      ['A1B2', 2, [], []],
+      ['C3D4', 1, [], []],
+    ]);
+  });
+});
@@ -0,0 +1,277 @@
+import type { StorageBackend } from './backends/types';
+import { ValidationError } from './schemas';
+
+export type DocumentType = 'invoice' | 'creditNote' | 'quotation' | 'receipt';
+
+/**
+ * A number series. `template` mixes literal text with tokens:
+ * {FY} 25-26, {FYYYY} 2025-26, {YYYY} 2025, {YY} 25, {MM} 04,
+ * {SEQ} the running number, {SEQ:4} the running number padded to 4 digits,
+ * {DEV} this device's code (see `ensureDeviceCode`).
+ */
+export interface NumberSeries {
+  template: string;
+  startAt: number;
+  resetEachFinancialYear: boolean;
+}
+
+export const DOCUMENT_TYPES: DocumentType[] = ['invoice', 'creditNote', 'quotation', 'receipt'];
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  invoice: 'Tax Invoice',
+  creditNote: 'Credit Note',
+  quotation: 'Quotation',
+  receipt: 'Payment Receipt',
+};
+
+// The invoice default keeps the numbering shops already have (INV-1001, ...)
+export const DEFAULT_SERIES: Record<DocumentType, NumberSeries> = {
+  invoice: { template: 'INV-{SEQ}', startAt: 1001, resetEachFinancialYear: false },
+  creditNote: { template: 'CN/{FY}/{SEQ:4}', startAt: 1, resetEachFinancialYear: true },
+  quotation: { template: 'QT/{FY}/{SEQ:4}', startAt: 1, resetEachFinancialYear: true },
+  receipt: { template: 'RCT/{FY}/{SEQ:4}', startAt: 1, resetEachFinancialYear: true },
+};
+
+const SERIES_KEY = 'number_series';
+// Device-local like the rest of sync_*, so a backup restored elsewhere does not bring it along
+const DEVICE_CODE_KEY = 'sync_device_code';
+
+// `invoice_counter` is also the key the original plain counter lived under
+const counterKey = (type: DocumentType) => `${type}_counter`;
+
+interface Counter {
+  period: string;
+  value: number;
+}
+
+export interface InvoiceNumberReservation {
+  invoiceNumber: string;
+  // Consume the number; call only once the document using it is written
+  commit: () => Promise<void>;
+}
+
+export interface SeriesPeriodReport {
+  period: string;
+  // Code of the syncing device that issued these numbers, if any
+  device?: string;
+  first: number;
+  last: number;
+  issued: number;
+  missing: number[];
+  duplicates: string[];
+}
+
+export interface GapReport {
+  periods: SeriesPeriodReport[];
+  // Numbers that do not match the current template (e.g. issued under an older one)
+  unmatched: string[];
+}
+
+const pad = (value: number, width: number) => String(value).padStart(width, '0');
+
+/**
+ * Indian financial year containing `date`, which starts on 1 April.
+ */
+export const financialYear = (date: Date) => {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return {
+    short: `${pad(startYear % 100, 2)}-${pad((startYear + 1) % 100, 2)}`,
+    long: `${startYear}-${pad((startYear + 1) % 100, 2)}`,
+  };
+};
+
+export const formatDocumentNumber = (series: NumberSeries, sequence: number, date: Date, device = '') => {
+  const fy = financialYear(date);
+  return series.template
+    .replace(/\{DEV\}/g, device)
+    .replace(/\{SEQ(?::(\d+))?\}/g, (_, width) => (width ? pad(sequence, Number(width)) : String(sequence)))
+    .replace(/\{FYYYY\}/g, fy.long)
+    .replace(/\{FY\}/g, fy.short)
+    .replace(/\{YYYY\}/g, String(date.getFullYear()))
+    .replace(/\{YY\}/g, pad(date.getFullYear() % 100, 2))
+    .replace(/\{MM\}/g, pad(date.getMonth() + 1, 2));
+};
+
+// The financial year tells a reset series' numbers apart, so it must be in them
+const hasFinancialYear = (template: string) => /\{FY(YYY)?\}/.test(template);
+
+export const validateTemplate = (template: string, resetEachFinancialYear = false): string | null => {
+  if (!/\{SEQ(?::\d+)?\}/.test(template)) return 'Template must contain {SEQ} or {SEQ:n}';
+  if (resetEachFinancialYear && !hasFinancialYear(template)) {
+    return 'A series that resets on 1 April must contain {FY} or {FYYYY}, or its numbers repeat every year';
+  }
+  const unknown = template.match(/\{[^}]*\}/g)?.find(
+    token => !/^\{(SEQ(?::\d+)?|FYYYY|FY|YYYY|YY|MM|DEV)\}$/.test(token)
+  );
+  return unknown ? `Unknown token ${unknown}` : null;
+};
+
+// Regex matching numbers produced by `template`, capturing the sequence and any device code.
+// A template without {DEV} also matches the numbers a syncing device gave it a code prefix.
+const templatePattern = (template: string) => {
+  const named = new Set<string>();
+  // Only the first of a repeated token is captured
+  const capture = (name: string, source: string) =>
+    named.has(name) ? source : (named.add(name), `(?<${name}>${source})`);
+  const source = template
+    .split(/(\{[^}]*\})/)
+    .map(part => {
+      if (/^\{SEQ(?::\d+)?\}$/.test(part)) return capture('seq', '\\d+');
+      if (part === '{DEV}') return capture('dev', '[0-9A-Z]+');
+      if (part === '{FYYYY}') return '\\d{4}-\\d{2}';
+      if (part === '{FY}') return '\\d{2}-\\d{2}';
+      if (part === '{YYYY}') return '\\d{4}';
+      if (part === '{YY}' || part === '{MM}') return '\\d{2}';
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(template.includes('{DEV}') ? `^${source}$` : `^(?:(?<dev>[0-9A-Z]{4})-)?${source}$`);
+};
+
+// A series saved with reset on but no financial year in its template never restarts
+const currentPeriod = (series: NumberSeries, date: Date) =>
+  series.resetEachFinancialYear && hasFinancialYear(series.template) ? financialYear(date).short : 'all';
+
+const readCounter = async (db: StorageBackend, type: DocumentType): Promise<Counter | null> => {
+  const stored = await db.getMeta<Counter | number>(counterKey(type));
+  if (stored === null) return null;
+  // Plain number from before series existed
+  if (typeof stored === 'number' || typeof stored === 'string') return { period: 'all', value: Number(stored) };
+  return stored;
+};
+
+const nextCounter = async (db: StorageBackend, type: DocumentType, series: NumberSeries, date: Date) => {
+  const period = currentPeriod(series, date);
+  const counter = await readCounter(db, type);
+  // Only a new financial year starts a reset series over. Switching reset on or off
+  // also changes the period, but the counter carries on so no issued number comes round again.
+  const newYear = counter && counter.period !== period && counter.period !== 'all' && period !== 'all';
+  const value = counter && !newYear ? counter.value + 1 : series.startAt;
+  return { period, value: Math.max(value, series.startAt) };
+};
+
+// Whether a stored document, Recycle Bin included, already carries `number`
+const isIssued = async (db: StorageBackend, type: DocumentType, number: string) => {
+  const range = { lower: number, upper: number };
+  const found = type === 'invoice'
+    ? await db.query('bills', 'invoiceNumber', range)
+    : type === 'receipt'
+      ? await db.query('receipts', 'receiptNumber', range)
+      : type === 'creditNote'
+        ? await db.query('creditNotes', 'creditNoteNumber', range)
+        : await db.query('quotations', 'quotationNumber', range);
+  return found.length > 0;
+};
+
+/**
+ * Give this device a code of its own, once. Only syncing devices have one: each
+ * numbers its documents offline from its own counter, so the code keeps two
+ * devices from issuing the same number.
+ */
+export const ensureDeviceCode = async (db: StorageBackend) => {
+  if (await db.getMeta<string>(DEVICE_CODE_KEY)) return;
+  await db.setMeta(DEVICE_CODE_KEY, crypto.randomUUID().replace(/-/g, '').slice(0, 4).toUpperCase());
+};
+
+// The series as this device issues it, with its code in front when the template has no {DEV}
+const issuingSeries = async (db: StorageBackend, type: DocumentType) => {
+  const series = (await invoiceNumbering.getSeries(db))[type];
+  const device = (await db.getMeta<string>(DEVICE_CODE_KEY)) || '';
+  const template = device && !series.template.includes('{DEV}') ? `{DEV}-${series.template}` : series.template;
+  return { series: { ...series, template }, device };
+};
+
+/**
+ * Document numbers are reserved and committed inside the same storage
+ * transaction as the document, so a number is only used up when the document is
+ * actually saved and two tabs can never be handed the same one.
+ */
+export const invoiceNumbering = {
+  getSeries: async (db: StorageBackend): Promise<Record<DocumentType, NumberSeries>> => {
+    const stored = (await db.getMeta<Partial<Record<DocumentType, NumberSeries>>>(SERIES_KEY)) || {};
+    return { ...DEFAULT_SERIES, ...stored };
+  },
+  saveSeries: async (db: StorageBackend, type: DocumentType, series: NumberSeries) => {
+    const error = validateTemplate(series.template, series.resetEachFinancialYear);
+    if (error) throw new Error(error);
+    const stored = (await db.getMeta<Partial<Record<DocumentType, NumberSeries>>>(SERIES_KEY)) || {};
+    await db.setMeta(SERIES_KEY, { ...stored, [type]: series });
+  },
+  // Number the next saved document will get; consumes nothing
+  preview: async (db: StorageBackend, type: DocumentType = 'invoice', date = new Date()): Promise<string> => {
+    const { series, device } = await issuingSeries(db, type);
+    const { value } = await nextCounter(db, type, series, date);
+    return formatDocumentNumber(series, value, date, device);
+  },
+  reserve: async (
+    db: StorageBackend,
+    type: DocumentType = 'invoice',
+    date = new Date()
+  ): Promise<InvoiceNumberReservation> => {
+    const { series, device } = await issuingSeries(db, type);
+    const counter = await nextCounter(db, type, series, date);
+    const invoiceNumber = formatDocumentNumber(series, counter.value, date, device);
+    // A lowered start or an edited template can lead back to a number already used
+    if (await isIssued(db, type, invoiceNumber)) {
+      throw new ValidationError('document number', [{
+        path: '',
+        message: `${invoiceNumber} has already been issued; change the ${DOCUMENT_TYPE_LABELS[type]} numbering in Settings`,
+      }]);
+    }
+    return {
+      invoiceNumber,
+      commit: () => db.setMeta(counterKey(type), counter),
+    };
+  },
+};
+
+/**
+ * Check that the numbers issued under `series` run without gaps or repeats in
+ * each period. Reset series are checked from `startAt`; others from the first
+ * number found.
+ */
+export const buildGapReport = (
+  series: NumberSeries,
+  documents: { number: string; createdAt: string }[]
+): GapReport => {
+  const pattern = templatePattern(series.template);
+  const unmatched: string[] = [];
+  const byPeriod = new Map<string, { period: string; device?: string; entries: { sequence: number; number: string }[] }>();
+
+  for (const doc of documents) {
+    const match = doc.number.match(pattern);
+    if (!match) {
+      unmatched.push(doc.number);
+      continue;
+    }
+    // Each device runs its own counter, so its numbers are checked apart from the others'
+    const device = match.groups?.dev;
+    const period = currentPeriod(series, new Date(doc.createdAt));
+    const key = `${period}|${device ?? ''}`;
+    const group = byPeriod.get(key) || { period, ...(device && { device }), entries: [] };
+    group.entries.push({ sequence: Number(match.groups?.seq), number: doc.number });
+    byPeriod.set(key, group);
+  }
+
+  const periods = [...byPeriod.values()].map(({ period, device, entries }) => {
+    const sequences = entries.map(e => e.sequence).sort((a, b) => a - b);
+    const first = series.resetEachFinancialYear ? Math.min(series.startAt, sequences[0]) : sequences[0];
+    const last = sequences[sequences.length - 1];
+    const seen = new Set<number>();
+    const duplicates: string[] = [];
+    for (const entry of entries) {
+      if (seen.has(entry.sequence)) duplicates.push(entry.number);
+      seen.add(entry.sequence);
+    }
+    const missing: number[] = [];
+    for (let n = first; n <= last; n++) {
+      if (!seen.has(n)) missing.push(n);
+    }
+    return { period, ...(device && { device }), first, last, issued: entries.length, missing, duplicates };
+  });
+
+  return {
+    periods: periods.sort((a, b) => a.period.localeCompare(b.period) || (a.device ?? '').localeCompare(b.device ?? '')),
+    unmatched,
+  };
+};
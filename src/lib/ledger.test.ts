@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { ageOutstanding, allocateReceipt, buildLedger, creditLimitError, outstandingBalance } from './ledger';
+import type { Bill, Receipt } from './storage';
+
+const bill = (id: string, createdAt: string, total: number, amountPaid: number): Bill => ({
+  id,
+  invoiceNumber: `INV-${id}`,
+  customerId: 'c1',
+  customerName: 'Ravi',
+  items: [],
+  subtotal: total,
+  discount: 0,
+  gstAmount: 0,
+  total,
+  payments: amountPaid > 0 ? [{ mode: 'cash', amount: amountPaid, reference: '', receivedAt: createdAt }] : [],
+  amountPaid,
+  paymentStatus: amountPaid >= total ? 'paid' : amountPaid > 0 ? 'partial' : 'unpaid',
+  status: 'active',
+  createdAt,
+});
+
+describe('allocateReceipt', () => {
+  it('settles the oldest bills first', () => {
+    const bills = [
+      bill('2', '2025-05-01T00:00:00.000Z', 300, 0),
+      bill('1', '2025-04-01T00:00:00.000Z', 500, 200),
+      bill('3', '2025-03-01T00:00:00.000Z', 100, 100),
+    ];
+
+    expect(allocateReceipt(bills, 450)).toEqual([
+      { billId: '1', invoiceNumber: 'INV-1', amount: 300 },
+      { billId: '2', invoiceNumber: 'INV-2', amount: 150 },
+    ]);
+  });
+});
+
+describe('buildLedger', () => {
+  it('keeps a running balance and shows receipt payments once', () => {
+    const first = bill('1', '2025-04-01T10:00:00.000Z', 1000, 400);
+    const receipt: Receipt = {
+      id: 'r1',
+      receiptNumber: 'RCT/25-26/0001',
+      customerId: 'c1',
+      customerName: 'Ravi',
+      amount: 600,
+      mode: 'upi',
+      reference: '',
+      note: '',
+      allocations: [{ billId: '1', invoiceNumber: 'INV-1', amount: 600 }],
+      createdAt: '2025-04-10T10:00:00.000Z',
+    };
+    first.payments.push({ mode: 'upi', amount: 600, reference: '', receivedAt: receipt.createdAt, receiptId: 'r1' });
+
+    expect(buildLedger([first], [receipt]).map(e => [e.kind, e.debit, e.credit, e.balance])).toEqual([
+      ['invoice', 1000, 0, 1000],
+      ['payment', 0, 400, 600],
+      ['receipt', 0, 600, 0],
+    ]);
+  });
+
+  it('leaves cancelled bills out of the account', () => {
+    const cancelled = { ...bill('2', '2025-04-05T10:00:00.000Z', 300, 0), status: 'cancelled' as const };
+
+    expect(buildLedger([cancelled], [])).toEqual([]);
+    expect(outstandingBalance([bill('1', '2025-04-01T10:00:00.000Z', 500, 100), cancelled])).toBe(400);
+  });
+});
+
+describe('ageOutstanding', () => {
+  it('buckets what is owed by bill age', () => {
+    const asOf = new Date('2025-06-30T00:00:00.000Z');
+    const ageing = ageOutstanding([
+      bill('1', '2025-06-20T00:00:00.000Z', 100, 0),
+      bill('2', '2025-05-15T00:00:00.000Z', 250, 50),
+      bill('3', '2025-01-01T00:00:00.000Z', 80.5, 0),
+      bill('4', '2025-01-01T00:00:00.000Z', 99, 99),
+    ], asOf);
+
+    expect(ageing).toEqual({ days0to30: 100, days31to60: 200, days61to90: 0, over90: 80.5, total: 380.5 });
+  });
+});
+
+describe('creditLimitError', () => {
+  it('allows sales up to the limit only', () => {
+    expect(creditLimitError(null, 5000, 1000)).toBeNull();
+    expect(creditLimitError(1000, 600, 400)).toBeNull();
+    expect(creditLimitError(1000, 600, 400.01)).toMatch(/Credit limit/);
+  });
+});
@@ -0,0 +1,163 @@
+// Customer accounts: ledger, outstanding balances, receipt allocation and ageing
+import { formatRupees, fromPaise, sumPaise, toPaise } from './money';
+import { balanceDue, paymentModeLabel } from './payments';
+import type { Bill, CreditNote, Receipt, ReceiptAllocation } from './storage';
+
+export interface LedgerEntry {
+  date: string;
+  kind: 'invoice' | 'payment' | 'receipt' | 'creditNote' | 'refund';
+  // Invoice, receipt or credit note number
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  // Owed by the customer after this entry
+  balance: number;
+}
+
+/**
+ * A customer's account: invoices and refunds are debits; payments taken at the
+ * sale, receipts recorded later and credit notes are credits. Payments that
+ * came from a receipt or a refund are shown once, from the receipt or credit note.
+ */
+export const buildLedger = (bills: Bill[], receipts: Receipt[], creditNotes: CreditNote[] = []): LedgerEntry[] => {
+  const entries: Omit<LedgerEntry, 'balance'>[] = [];
+  // A cancelled bill never became part of the account
+  for (const bill of bills.filter(b => b.status !== 'cancelled')) {
+    entries.push({
+      date: bill.createdAt,
+      kind: 'invoice',
+      reference: bill.invoiceNumber,
+      description: `Invoice, ${bill.items.length} item(s)`,
+      debit: bill.total,
+      credit: 0,
+    });
+    const atSale = bill.payments.filter(p => p.mode !== 'credit' && !p.receiptId && !p.creditNoteId);
+    for (const payment of atSale) {
+      entries.push({
+        date: payment.receivedAt,
+        kind: 'payment',
+        reference: bill.invoiceNumber,
+        description: `Paid at sale (${paymentModeLabel(payment.mode)})`,
+        debit: 0,
+        credit: payment.amount,
+      });
+    }
+    // Bills from before payment capture were paid in full without tenders on record
+    const recorded = sumPaise(bill.payments.filter(p => p.mode !== 'credit').map(p => toPaise(p.amount)));
+    if (toPaise(bill.amountPaid) > recorded) {
+      entries.push({
+        date: bill.createdAt,
+        kind: 'payment',
+        reference: bill.invoiceNumber,
+        description: 'Paid at sale',
+        debit: 0,
+        credit: fromPaise(toPaise(bill.amountPaid) - recorded),
+      });
+    }
+  }
+  for (const receipt of receipts) {
+    entries.push({
+      date: receipt.createdAt,
+      kind: 'receipt',
+      reference: receipt.receiptNumber,
+      description: `Receipt (${paymentModeLabel(receipt.mode)}${receipt.reference ? ` ${receipt.reference}` : ''})`,
+      debit: 0,
+      credit: receipt.amount,
+    });
+  }
+
+  for (const note of creditNotes) {
+    entries.push({
+      date: note.createdAt,
+      kind: 'creditNote',
+      reference: note.creditNoteNumber,
+      description: `Credit note for ${note.invoiceNumber}`,
+      debit: 0,
+      credit: note.total,
+    });
+    if (note.settlement === 'refund' && note.refundMode) {
+      entries.push({
+        date: note.createdAt,
+        kind: 'refund',
+        reference: note.creditNoteNumber,
+        description: `Refund (${paymentModeLabel(note.refundMode)})`,
+        debit: note.total,
+        credit: 0,
+      });
+    }
+  }
+
+  // Oldest first; on the same instant a debit comes before the payment against it
+  entries.sort((a, b) => a.date.localeCompare(b.date) || b.debit - a.debit);
+  let balance = 0;
+  return entries.map(entry => {
+    balance += toPaise(entry.debit) - toPaise(entry.credit);
+    return { ...entry, balance: fromPaise(balance) };
+  });
+};
+
+// Total owed across a customer's bills
+export const outstandingBalance = (bills: Pick<Bill, 'total' | 'amountPaid' | 'returnedAmount' | 'status'>[]) =>
+  fromPaise(sumPaise(bills.map(bill => toPaise(balanceDue(bill)))));
+
+// A receipt settles the oldest unpaid bills first
+export const allocateReceipt = (bills: Bill[], amount: number): ReceiptAllocation[] => {
+  let left = toPaise(amount);
+  const allocations: ReceiptAllocation[] = [];
+  const oldestFirst = [...bills].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  for (const bill of oldestFirst) {
+    if (left <= 0) break;
+    const due = toPaise(balanceDue(bill));
+    if (due <= 0) continue;
+    const applied = Math.min(due, left);
+    allocations.push({ billId: bill.id, invoiceNumber: bill.invoiceNumber, amount: fromPaise(applied) });
+    left -= applied;
+  }
+  return allocations;
+};
+
+export const AGEING_BUCKETS = [
+  { key: 'days0to30', label: '0-30 days' },
+  { key: 'days31to60', label: '31-60 days' },
+  { key: 'days61to90', label: '61-90 days' },
+  { key: 'over90', label: '90+ days' },
+] as const;
+
+export type AgeingBucket = (typeof AGEING_BUCKETS)[number]['key'];
+
+export type Ageing = Record<AgeingBucket, number> & { total: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const bucketFor = (days: number): AgeingBucket =>
+  days <= 30 ? 'days0to30' : days <= 60 ? 'days31to60' : days <= 90 ? 'days61to90' : 'over90';
+
+// What is still owed on `bills`, by how many days old each bill is on `asOf`
+export const ageOutstanding = (bills: Bill[], asOf = new Date()): Ageing => {
+  const paise: Record<AgeingBucket, number> = { days0to30: 0, days31to60: 0, days61to90: 0, over90: 0 };
+  for (const bill of bills) {
+    const due = toPaise(balanceDue(bill));
+    if (due <= 0) continue;
+    const days = Math.floor((asOf.getTime() - new Date(bill.createdAt).getTime()) / DAY_MS);
+    paise[bucketFor(days)] += due;
+  }
+  return {
+    days0to30: fromPaise(paise.days0to30),
+    days31to60: fromPaise(paise.days31to60),
+    days61to90: fromPaise(paise.days61to90),
+    over90: fromPaise(paise.over90),
+    total: fromPaise(sumPaise(Object.values(paise))),
+  };
+};
+
+// Credit still open to a customer; null when they have no limit
+export const availableCredit = (creditLimit: number | null, outstanding: number) =>
+  creditLimit === null ? null : fromPaise(Math.max(toPaise(creditLimit) - toPaise(outstanding), 0));
+
+// Why `owed` more cannot go on the customer's account, or null when it can
+export const creditLimitError = (creditLimit: number | null, outstanding: number, owed: number) => {
+  const available = availableCredit(creditLimit, outstanding);
+  if (available === null || toPaise(owed) <= toPaise(available)) return null;
+  return `Credit limit of ${formatRupees(creditLimit ?? 0)} exceeded: ${formatRupees(outstanding)} already outstanding`;
+};
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStorage } from '@/test/memoryStorage';
+import { localStorageBackend } from './backends/localStorageBackend';
+import {
+  CURRENT_SCHEMA_VERSION,
+  LAST_REPORT_KEY,
+  SCHEMA_VERSION_KEY,
+  getSchemaVersion,
+  runMigrations,
+  upgradeData,
+} from './migrations';
+import { DRAFT_KEY, type Bill, type Product } from './storage';
+
+const db = localStorageBackend;
+
+// As saved before the schema was versioned
+const legacyProduct = { id: 'p1', name: 'Rice 5kg', price: '99.999', stock: '4', createdAt: '2024-01-05T00:00:00.000Z' };
+const legacyBill = {
+  id: 'b1',
+  invoiceNumber: 'INV-1001',
+  customerId: 'c1',
+  items: [{ productId: 'p1', productName: 'Rice 5kg', quantity: 1, price: 99.999, total: 99.999 }],
+  subtotal: 99.999,
+  discount: 0,
+  gstPercent: 0,
+  gstAmount: 0,
+  total: 99.999,
+  createdAt: '2024-01-05T00:00:00.000Z',
+};
+const legacyDraft = { selectedCustomer: 'c1', items: [], discount: '0', gstPercent: '18', timestamp: 1700000000000 };
+
+const emptyTables = {
+  products: [],
+  customers: [],
+  bills: [],
+  audit: [],
+  receipts: [],
+  creditNotes: [],
+  quotations: [],
+};
+
+beforeEach(async () => {
+  vi.stubGlobal('localStorage', new MemoryStorage());
+  await db.put('products', legacyProduct as unknown as Product);
+  await db.put('bills', legacyBill as unknown as Bill);
+  localStorage.setItem(DRAFT_KEY, JSON.stringify(legacyDraft));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('upgradeData', () => {
+  it('applies only the steps after the given version', () => {
+    const { data, steps } = upgradeData(
+      { tables: { ...emptyTables, bills: [{ id: 'b1', total: 50, status: 'cancelled' }] }, draft: null },
+      7
+    );
+
+    expect(steps.map(s => s.version)).toEqual([8, 9]);
+    expect(steps[0].changed).toEqual({});
+    expect(data.tables.bills[0]).toEqual({ id: 'b1', total: 50, status: 'cancelled' });
+  });
+});
+
+describe('runMigrations', () => {
+  it('reports what would change on a dry run without writing anything', async () => {
+    const report = await runMigrations(db, { dryRun: true });
+
+    expect(report).toMatchObject({ fromVersion: 0, toVersion: CURRENT_SCHEMA_VERSION, dryRun: true });
+    expect(report.steps.find(s => s.version === 1)?.changed).toEqual({ products: 1, bills: 1 });
+    expect(report.steps.find(s => s.version === 9)?.changed).toEqual({ draft: 1 });
+    expect(await db.get('products', 'p1')).toEqual(legacyProduct);
+    expect(await getSchemaVersion(db)).toBe(0);
+    expect(JSON.parse(localStorage.getItem(DRAFT_KEY)!)).toEqual(legacyDraft);
+  });
+
+  it('upgrades records and the draft, then records the new version', async () => {
+    const backup = vi.fn(async () => 'snapshot');
+
+    const report = await runMigrations(db, { backup });
+
+    expect(backup).toHaveBeenCalledOnce();
+    expect(report.backupKey).toBe('snapshot');
+    expect(await db.get('products', 'p1')).toMatchObject({ price: 100, stock: 4, unit: 'pcs', deletedAt: null, gstRate: 18 });
+    expect(await db.get('bills', 'b1')).toMatchObject({
+      total: 100,
+      payments: [],
+      amountPaid: 100,
+      paymentStatus: 'paid',
+      status: 'active',
+    });
+    expect(JSON.parse(localStorage.getItem(DRAFT_KEY)!)).toMatchObject({
+      activeId: 'draft',
+      bills: [{ id: 'draft', selectedCustomer: 'c1', heldAt: 1700000000000 }],
+    });
+    expect(await db.getMeta(SCHEMA_VERSION_KEY)).toBe(CURRENT_SCHEMA_VERSION);
+    expect(await db.getMeta(LAST_REPORT_KEY)).toEqual(report);
+  });
+
+  it('does nothing once the data is current', async () => {
+    await runMigrations(db);
+    const backup = vi.fn(async () => 'snapshot');
+
+    const report = await runMigrations(db, { backup });
+
+    expect(report.steps).toEqual([]);
+    expect(report.toVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(backup).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,306 @@
+import { runTransaction } from './backends/transaction';
+import { TABLE_NAMES, type StorageBackend, type TableName, type TableRecords } from './backends/types';
+import { DRAFT_KEY } from './storage';
+import { roundRupees } from './money';
+import { DEFAULT_GST_RATE } from './gst';
+
+export type StoredRecord = Record<string, unknown>;
+type RecordTransform = (record: StoredRecord) => StoredRecord;
+
+// What a migration can upgrade: every table, plus the Billing page's held bills
+export type MigrationTarget = TableName | 'draft';
+
+/**
+ * One schema step. Each transform receives a record as stored by the previous
+ * version and returns it in this version's shape; it must be safe to run on a
+ * record that is already up to date.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  transforms: Partial<Record<MigrationTarget, RecordTransform>>;
+}
+
+export interface MigrationStepReport {
+  version: number;
+  description: string;
+  changed: Partial<Record<MigrationTarget, number>>;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  dryRun: boolean;
+  steps: MigrationStepReport[];
+  backupKey: string | null;
+  ranAt: string;
+}
+
+export const SCHEMA_VERSION_KEY = 'schema_version';
+export const LAST_REPORT_KEY = 'last_migration_report';
+// Where older versions kept a whole-store snapshot; cleared by the next migration
+export const BACKUP_KEY = 'pre_migration_backup';
+
+/**
+ * Stored data could not be upgraded. The migration is rolled back, so `backend`
+ * still holds the data as it was and can be downloaded as a backup.
+ */
+export class MigrationError extends Error {
+  backend: StorageBackend;
+
+  constructor(message: string, backend: StorageBackend) {
+    super(message);
+    this.name = 'MigrationError';
+    this.backend = backend;
+  }
+}
+
+const toNumber = (value: unknown, fallback = 0) => {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return isNaN(n) ? fallback : n;
+};
+
+const orNow = (value: unknown) => (typeof value === 'string' && value ? value : new Date().toISOString());
+
+// Ordered list of schema versions; append new steps, never edit shipped ones
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Fill missing fields on records saved before the schema was versioned',
+    transforms: {
+      products: (p) => ({
+        ...p,
+        parentId: p.parentId || null,
+        price: toNumber(p.price),
+        stock: toNumber(p.stock),
+        minStock: toNumber(p.minStock),
+        unit: p.unit || 'pcs',
+        createdAt: orNow(p.createdAt),
+      }),
+      customers: (c) => ({
+        ...c,
+        phone: String(c.phone ?? ''),
+        address: String(c.address ?? ''),
+        createdAt: orNow(c.createdAt),
+      }),
+      bills: (b) => ({
+        ...b,
+        customerName: String(b.customerName ?? ''),
+        items: Array.isArray(b.items) ? b.items : [],
+        subtotal: toNumber(b.subtotal),
+        discount: toNumber(b.discount),
+        gstPercent: toNumber(b.gstPercent),
+        gstAmount: toNumber(b.gstAmount),
+        total: toNumber(b.total),
+      }),
+      draft: (d) => ({
+        ...d,
+        selectedCustomer: String(d.selectedCustomer ?? ''),
+        items: Array.isArray(d.items) ? d.items : [],
+        discount: String(d.discount ?? '0'),
+        gstPercent: String(d.gstPercent ?? '18'),
+        timestamp: toNumber(d.timestamp, Date.now()),
+      }),
+    },
+  },
+  {
+    version: 2,
+    description: 'Add deletedAt for the Recycle Bin',
+    transforms: {
+      products: (p) => ({ ...p, deletedAt: p.deletedAt ?? null }),
+      customers: (c) => ({ ...c, deletedAt: c.deletedAt ?? null }),
+      bills: (b) => ({ ...b, deletedAt: b.deletedAt ?? null }),
+    },
+  },
+  {
+    version: 3,
+    description: 'Round stored prices and bill amounts to the paisa',
+    transforms: {
+      products: (p) => ({ ...p, price: roundRupees(toNumber(p.price)) }),
+      bills: (b) => ({
+        ...b,
+        items: (b.items as StoredRecord[]).map(item => ({
+          ...item,
+          price: roundRupees(toNumber(item.price)),
+          total: roundRupees(toNumber(item.total)),
+        })),
+        subtotal: roundRupees(toNumber(b.subtotal)),
+        discount: roundRupees(toNumber(b.discount)),
+        gstAmount: roundRupees(toNumber(b.gstAmount)),
+        total: roundRupees(toNumber(b.total)),
+      }),
+    },
+  },
+  {
+    version: 4,
+    description: 'Add HSN code and GST rate to products and state to customers',
+    transforms: {
+      products: (p) => ({
+        ...p,
+        hsnCode: typeof p.hsnCode === 'string' ? p.hsnCode : '',
+        gstRate: typeof p.gstRate === 'number' ? p.gstRate : DEFAULT_GST_RATE,
+      }),
+      customers: (c) => ({ ...c, state: typeof c.state === 'string' ? c.state : '' }),
+    },
+  },
+  {
+    version: 5,
+    description: 'Add GSTIN to customers',
+    transforms: {
+      customers: (c) => ({ ...c, gstin: typeof c.gstin === 'string' ? c.gstin : '' }),
+    },
+  },
+  {
+    version: 6,
+    description: 'Record bills made before payment capture as paid in full',
+    transforms: {
+      bills: (b) =>
+        Array.isArray(b.payments)
+          ? b
+          : { ...b, payments: [], amountPaid: toNumber(b.total), paymentStatus: 'paid' },
+    },
+  },
+  {
+    version: 7,
+    description: 'Add credit limit to customers',
+    transforms: {
+      customers: (c) => ({ ...c, creditLimit: c.creditLimit === undefined ? null : c.creditLimit }),
+    },
+  },
+  {
+    version: 8,
+    description: 'Mark existing bills as active',
+    transforms: {
+      bills: (b) => ({ ...b, status: b.status === 'cancelled' ? 'cancelled' : 'active' }),
+    },
+  },
+  {
+    version: 9,
+    description: 'Keep the Billing page draft as the first of any number of held bills',
+    transforms: {
+      draft: (d) => {
+        if (Array.isArray(d.bills)) return d;
+        const timestamp = toNumber(d.timestamp, Date.now());
+        return { activeId: 'draft', bills: [{ ...d, id: 'draft', heldAt: timestamp, timestamp }] };
+      },
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const readDraft = (): StoredRecord | null => {
+  const data = localStorage.getItem(DRAFT_KEY);
+  if (!data) return null;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+};
+
+export interface MigratableData {
+  tables: Record<TableName, StoredRecord[]>;
+  draft: StoredRecord | null;
+}
+
+/**
+ * Run every step after `fromVersion` over `data` in memory, counting the
+ * records each step changes. Nothing is read from or written to storage.
+ */
+export const upgradeData = (data: MigratableData, fromVersion: number) => {
+  const tables = { ...data.tables };
+  let draft = data.draft;
+  const changedIds = Object.fromEntries(TABLE_NAMES.map(table => [table, new Set<string>()])) as Record<
+    TableName,
+    Set<string>
+  >;
+  const steps: MigrationStepReport[] = [];
+
+  for (const migration of MIGRATIONS.filter(m => m.version > fromVersion)) {
+    const changed: MigrationStepReport['changed'] = {};
+    for (const table of TABLE_NAMES) {
+      const transform = migration.transforms[table];
+      if (!transform) continue;
+      tables[table] = tables[table].map(record => {
+        const next = transform(record);
+        if (JSON.stringify(next) !== JSON.stringify(record)) {
+          changed[table] = (changed[table] || 0) + 1;
+          changedIds[table].add(String(record.id));
+        }
+        return next;
+      });
+    }
+    if (draft && migration.transforms.draft) {
+      const next = migration.transforms.draft(draft);
+      if (JSON.stringify(next) !== JSON.stringify(draft)) changed.draft = 1;
+      draft = next;
+    }
+    steps.push({ version: migration.version, description: migration.description, changed });
+  }
+  return { data: { tables, draft }, steps, changedIds };
+};
+
+export const getSchemaVersion = async (db: StorageBackend) =>
+  (await db.getMeta<number>(SCHEMA_VERSION_KEY)) ?? 0;
+
+export const getLastMigrationReport = (db: StorageBackend) =>
+  db.getMeta<MigrationReport>(LAST_REPORT_KEY);
+
+/**
+ * Upgrade every stored record to CURRENT_SCHEMA_VERSION. With `dryRun` nothing
+ * is written and the report only counts what would change. Otherwise `backup`
+ * is given the chance to copy the data first, and the records plus the new
+ * version are written in one transaction.
+ */
+export const runMigrations = async (
+  db: StorageBackend,
+  {
+    dryRun = false,
+    backup,
+  }: {
+    dryRun?: boolean;
+    // Keeps a copy of the data outside the store; returns where, or null if it could not
+    backup?: (db: StorageBackend) => Promise<string | null>;
+  } = {}
+): Promise<MigrationReport> => {
+  const fromVersion = await getSchemaVersion(db);
+  const pending = MIGRATIONS.filter(m => m.version > fromVersion);
+  const report: MigrationReport = {
+    fromVersion,
+    toVersion: fromVersion,
+    dryRun,
+    steps: [],
+    backupKey: null,
+    ranAt: new Date().toISOString(),
+  };
+  if (pending.length === 0) return report;
+
+  const tables = Object.fromEntries(
+    await Promise.all(TABLE_NAMES.map(async table => [table, await db.getAll(table)]))
+  ) as MigratableData['tables'];
+  const draft = readDraft();
+  const upgraded = upgradeData({ tables, draft }, fromVersion);
+  report.steps = upgraded.steps;
+  report.toVersion = pending[pending.length - 1].version;
+  if (dryRun) return report;
+
+  report.backupKey = backup ? await backup(db) : null;
+
+  await runTransaction(db, async tx => {
+    for (const table of TABLE_NAMES) {
+      for (const record of upgraded.data.tables[table]) {
+        if (upgraded.changedIds[table].has(String(record.id))) {
+          await tx.put(table, record as unknown as TableRecords[TableName]);
+        }
+      }
+    }
+    await tx.removeMeta(BACKUP_KEY);
+    await tx.setMeta(SCHEMA_VERSION_KEY, report.toVersion);
+    await tx.setMeta(LAST_REPORT_KEY, report);
+  });
+  if (upgraded.data.draft && JSON.stringify(upgraded.data.draft) !== JSON.stringify(draft)) {
+    localStorage.setItem(DRAFT_KEY, JSON.stringify(upgraded.data.draft));
+  }
+  return report;
+};
@@ -0,0 +1,63 @@
+// Money arithmetic in integer paise. Bills store rupee amounts, but every sum,
+// percentage and product is worked out in whole paise so stored totals match
+// what is printed to the paisa.
+
+// A whole number of paise (1/100 rupee)
+export type Paise = number;
+
+// Rounding rule for every amount: to the nearest paisa, halves away from zero
+const roundHalfAway = (value: number) => Math.sign(value) * Math.round(Math.abs(value));
+
+// toPrecision absorbs float noise such as 1.005 * 100 = 100.49999999999999
+const clean = (value: number) => Number(value.toPrecision(12));
+
+export const toPaise = (rupees: number): Paise => roundHalfAway(clean(rupees * 100));
+
+export const fromPaise = (paise: Paise): number => paise / 100;
+
+// Round a rupee amount to the paisa
+export const roundRupees = (rupees: number) => fromPaise(toPaise(rupees));
+
+// Unit price times a quantity, which may be fractional (e.g. 1.5 kg)
+export const multiplyPaise = (unitPrice: Paise, quantity: number): Paise =>
+  roundHalfAway(clean(unitPrice * quantity));
+
+// Rupee total for a bill line, rounded to the paisa
+export const lineTotal = (price: number, quantity: number) => fromPaise(multiplyPaise(toPaise(price), quantity));
+
+export const percentOfPaise = (amount: Paise, percent: number): Paise =>
+  roundHalfAway(clean((amount * percent) / 100));
+
+export const sumPaise = (amounts: Paise[]): Paise => amounts.reduce((sum, amount) => sum + amount, 0);
+
+/**
+ * Split `amount` across `weights` in proportion, in whole paise. Shares are
+ * rounded down and the paise left over go to the largest remainders, so the
+ * shares always add up to `amount` exactly.
+ */
+export const allocatePaise = (amount: Paise, weights: number[]): Paise[] => {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (totalWeight <= 0) return weights.map(() => 0);
+  const exact = weights.map(w => (amount * w) / totalWeight);
+  const shares = exact.map(Math.floor);
+  let left = amount - sumPaise(shares);
+  const byRemainder = exact.map((value, i) => ({ i, rest: value - shares[i] })).sort((a, b) => b.rest - a.rest);
+  for (const { i } of byRemainder) {
+    if (left <= 0) break;
+    shares[i] += 1;
+    left -= 1;
+  }
+  return shares;
+};
+
+// Add rupee amounts without float drift, e.g. revenue across many bills
+export const sumRupees = (amounts: number[]) => fromPaise(sumPaise(amounts.map(toPaise)));
+
+// "1234.50"; for display and exports
+export const formatAmount = (rupees: number) => fromPaise(toPaise(rupees)).toFixed(2);
+
+// "₹1234.50", or "-₹12.00" for negative amounts
+export const formatRupees = (rupees: number) => {
+  const paise = toPaise(rupees);
+  return `${paise < 0 ? '-' : ''}₹${formatAmount(Math.abs(fromPaise(paise)))}`;
+};
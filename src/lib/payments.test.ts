@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { modeShare, settlePayments, totalsByMode } from './payments';
+import { ValidationError } from './schemas';
+
+const at = '2025-04-01T10:00:00.000Z';
+
+describe('settlePayments', () => {
+  it('gives change on cash beyond the total', () => {
+    const settlement = settlePayments(432.5, [{ mode: 'cash', amount: 500 }], at);
+
+    expect(settlement.payments).toEqual([{ mode: 'cash', amount: 432.5, reference: '', tendered: 500, receivedAt: at }]);
+    expect(settlement.changeDue).toBe(67.5);
+    expect(settlement.balanceDue).toBe(0);
+    expect(settlement.paymentStatus).toBe('paid');
+  });
+
+  it('splits a bill across UPI and cash', () => {
+    const settlement = settlePayments(1000, [
+      { mode: 'upi', amount: 600, reference: ' 4123 ' },
+      { mode: 'cash', amount: 400 },
+    ], at);
+
+    expect(settlement.payments.map(p => [p.mode, p.amount, p.reference])).toEqual([
+      ['cash', 400, ''],
+      ['upi', 600, '4123'],
+    ]);
+    expect(settlement.amountPaid).toBe(1000);
+    expect(settlement.changeDue).toBe(0);
+  });
+
+  it('leaves credit and uncovered amounts owing', () => {
+    const partial = settlePayments(1000, [{ mode: 'card', amount: 300 }, { mode: 'credit', amount: 500 }], at);
+    expect(partial.amountPaid).toBe(300);
+    expect(partial.balanceDue).toBe(700);
+    expect(partial.paymentStatus).toBe('partial');
+
+    expect(settlePayments(1000, [{ mode: 'credit', amount: 1000 }], at).paymentStatus).toBe('unpaid');
+  });
+
+  it('refuses card or UPI above the total', () => {
+    expect(() => settlePayments(100, [{ mode: 'card', amount: 150 }], at)).toThrow(ValidationError);
+  });
+});
+
+describe('totalsByMode', () => {
+  it('adds payments per mode', () => {
+    const totals = totalsByMode([
+      { payments: settlePayments(100, [{ mode: 'cash', amount: 200 }], at).payments },
+      { payments: settlePayments(50.1, [{ mode: 'upi', amount: 50.1 }], at).payments },
+      { payments: [] },
+    ]);
+
+    expect(totals).toEqual({ cash: 100, upi: 50.1, card: 0, credit: 0 });
+  });
+});
+
+describe('modeShare', () => {
+  it('counts a split bill under each mode only for what was paid in it', () => {
+    const bill = {
+      total: 1000,
+      payments: settlePayments(1000, [{ mode: 'upi', amount: 600 }, { mode: 'cash', amount: 400 }], at).payments,
+    };
+
+    expect(modeShare(bill, 'upi')).toBe(0.6);
+    expect(modeShare(bill, 'cash')).toBe(0.4);
+    expect(modeShare(bill, 'card')).toBe(0);
+    expect(modeShare(bill, 'all')).toBe(1);
+  });
+});
@@ -0,0 +1,118 @@
+// Payment capture: split tenders, change due and payment status
+import { fromPaise, sumPaise, toPaise } from './money';
+import { ValidationError } from './schemas';
+import type { Bill, Payment, PaymentMode, PaymentStatus } from './storage';
+
+export const PAYMENT_MODES: { mode: PaymentMode; label: string }[] = [
+  { mode: 'cash', label: 'Cash' },
+  { mode: 'upi', label: 'UPI' },
+  { mode: 'card', label: 'Card' },
+  { mode: 'credit', label: 'Credit' },
+];
+
+export const paymentModeLabel = (mode: PaymentMode) => PAYMENT_MODES.find(m => m.mode === mode)?.label || mode;
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  paid: 'Paid',
+  partial: 'Partly paid',
+  unpaid: 'Unpaid',
+};
+
+// A tender as entered at the till; cash may be more than is owed
+export interface Tender {
+  mode: PaymentMode;
+  amount: number;
+  reference?: string;
+}
+
+export interface Settlement {
+  payments: Payment[];
+  amountPaid: number;
+  // Owed by the customer: put on credit or not covered by any tender
+  balanceDue: number;
+  changeDue: number;
+  paymentStatus: PaymentStatus;
+}
+
+export const paymentStatusFor = (total: number, amountPaid: number): PaymentStatus =>
+  toPaise(amountPaid) >= toPaise(total) ? 'paid' : toPaise(amountPaid) > 0 ? 'partial' : 'unpaid';
+
+// What a bill comes to once any returns are taken off
+export const netTotal = (bill: Pick<Bill, 'total' | 'returnedAmount'>) =>
+  fromPaise(toPaise(bill.total) - toPaise(bill.returnedAmount ?? 0));
+
+// Still owed on a bill; nothing is owed on a cancelled one
+export const balanceDue = (bill: Pick<Bill, 'total' | 'amountPaid' | 'returnedAmount' | 'status'>) =>
+  bill.status === 'cancelled' ? 0 : fromPaise(Math.max(toPaise(netTotal(bill)) - toPaise(bill.amountPaid), 0));
+
+/**
+ * Apply tenders to a bill total. UPI and card are taken as given and may not
+ * be more than the total; credit puts an amount on the customer's account;
+ * cash covers what is left and anything over that is change. Whatever no
+ * tender covers stays owed, the same as credit.
+ */
+export const settlePayments = (total: number, tenders: Tender[], receivedAt = new Date().toISOString()): Settlement => {
+  const entered = tenders.filter(t => Number.isFinite(t.amount) && t.amount !== 0);
+  if (entered.some(t => t.amount < 0)) {
+    throw new ValidationError('payment', [{ path: 'payments', message: 'Payment amounts cannot be negative' }]);
+  }
+
+  const totalPaise = toPaise(total);
+  const paiseOf = (modes: PaymentMode[]) => sumPaise(entered.filter(t => modes.includes(t.mode)).map(t => toPaise(t.amount)));
+  const electronic = paiseOf(['upi', 'card']);
+  const credit = paiseOf(['credit']);
+  const cash = paiseOf(['cash']);
+
+  if (electronic > totalPaise) {
+    throw new ValidationError('payment', [{ path: 'payments', message: 'UPI and card payments cannot be more than the total' }]);
+  }
+  if (electronic + credit > totalPaise) {
+    throw new ValidationError('payment', [{ path: 'payments', message: 'Credit cannot be more than the amount left to pay' }]);
+  }
+
+  const cashApplied = Math.min(cash, totalPaise - electronic - credit);
+  const payments: Payment[] = entered
+    .filter(t => t.mode !== 'cash')
+    .map(t => ({ mode: t.mode, amount: fromPaise(toPaise(t.amount)), reference: t.reference?.trim() || '', receivedAt }));
+  if (cash > 0) {
+    payments.unshift({
+      mode: 'cash',
+      amount: fromPaise(cashApplied),
+      reference: '',
+      ...(cash > cashApplied && { tendered: fromPaise(cash) }),
+      receivedAt,
+    });
+  }
+
+  const amountPaid = fromPaise(electronic + cashApplied);
+  return {
+    payments,
+    amountPaid,
+    balanceDue: fromPaise(totalPaise - electronic - cashApplied),
+    changeDue: fromPaise(cash - cashApplied),
+    paymentStatus: paymentStatusFor(total, amountPaid),
+  };
+};
+
+/**
+ * Part of a bill's total paid in `mode`, from 0 to 1; with 'all' every bill counts
+ * in full. A bill split across tenders counts under each mode only for what was
+ * paid in it, so adding up the modes never counts a bill twice.
+ */
+export const modeShare = (bill: Pick<Bill, 'total' | 'payments'>, mode: PaymentMode | 'all') => {
+  if (mode === 'all') return 1;
+  const total = toPaise(bill.total);
+  if (total <= 0) return 0;
+  return Math.min(sumPaise(bill.payments.filter(p => p.mode === mode).map(p => toPaise(p.amount))) / total, 1);
+};
+
+// Rupees taken per payment mode across bills; bills without recorded payments add nothing
+export const totalsByMode = (bills: Pick<Bill, 'payments'>[]) => {
+  const paise = Object.fromEntries(PAYMENT_MODES.map(({ mode }) => [mode, 0])) as Record<PaymentMode, number>;
+  for (const payment of bills.flatMap(bill => bill.payments)) {
+    paise[payment.mode] += toPaise(payment.amount);
+  }
+  return Object.fromEntries(
+    Object.entries(paise).map(([mode, amount]) => [mode, fromPaise(amount)])
+  ) as Record<PaymentMode, number>;
+};
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStorage } from '@/test/memoryStorage';
+import { quotationStatus } from './quotations';
+import { ValidationError } from './schemas';
+import { billStorage, getStorageBackend, quotationStorage, type BillInput, type Product, type Quotation } from './storage';
+
+describe('quotationStatus', () => {
+  it('keeps a quotation open through its last valid day', () => {
+    const quotation = { validUntil: '2025-04-15' };
+
+    expect(quotationStatus(quotation, new Date(2025, 3, 15, 23, 59))).toBe('open');
+    expect(quotationStatus(quotation, new Date(2025, 3, 16, 0, 1))).toBe('expired');
+    expect(quotationStatus({ ...quotation, billId: 'b1' }, new Date(2025, 3, 16))).toBe('converted');
+  });
+});
+
+const product: Product = {
+  id: 'p1',
+  name: 'Rice 5kg',
+  parentId: null,
+  price: 100,
+  stock: 5,
+  minStock: 0,
+  unit: 'bag',
+  hsnCode: '',
+  gstRate: 0,
+  createdAt: '2025-04-01T00:00:00.000Z',
+};
+
+const quote = (validUntil = '2999-12-31') =>
+  quotationStorage.add({
+    customerId: 'c1',
+    customerName: 'Ravi',
+    items: [{ productId: 'p1', productName: 'Rice 5kg', quantity: 2, price: 100, total: 200 }],
+    subtotal: 200,
+    discount: 0,
+    gstAmount: 0,
+    total: 200,
+    supplyType: 'intra',
+    cgstAmount: 0,
+    sgstAmount: 0,
+    igstAmount: 0,
+    taxBreakup: [],
+    validUntil,
+  });
+
+// What the Billing page sends once the customer pays for the quoted items
+const billFor = (quotation: Quotation): BillInput => ({
+  customerId: quotation.customerId,
+  customerName: quotation.customerName,
+  items: quotation.items,
+  subtotal: quotation.subtotal,
+  discount: quotation.discount,
+  gstAmount: quotation.gstAmount,
+  total: quotation.total,
+  supplyType: quotation.supplyType,
+  cgstAmount: quotation.cgstAmount,
+  sgstAmount: quotation.sgstAmount,
+  igstAmount: quotation.igstAmount,
+  taxBreakup: quotation.taxBreakup,
+  payments: [{ mode: 'cash', amount: quotation.total, reference: '', receivedAt: new Date().toISOString() }],
+  amountPaid: quotation.total,
+  paymentStatus: 'paid',
+});
+
+const stockOf = async (id: string) => (await getStorageBackend().get('products', id))?.stock;
+
+beforeEach(async () => {
+  vi.stubGlobal('localStorage', new MemoryStorage());
+  await getStorageBackend().put('products', product);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('quotationStorage.convert', () => {
+  it('bills the quoted items, deducts stock and links the quotation to the bill', async () => {
+    const quotation = await quote();
+
+    const bill = await quotationStorage.convert(quotation.id, billFor(quotation));
+
+    expect(bill).toMatchObject({ invoiceNumber: 'INV-1001', quotationId: quotation.id });
+    expect(await stockOf('p1')).toBe(3);
+    expect(await quotationStorage.getById(quotation.id)).toMatchObject({
+      billId: bill?.id,
+      invoiceNumber: 'INV-1001',
+    });
+  });
+
+  it('rolls everything back when stock ran out after the quotation was made', async () => {
+    const quotation = await quote();
+    await getStorageBackend().put('products', { ...product, stock: 1 });
+
+    expect(await quotationStorage.convert(quotation.id, billFor(quotation))).toBeNull();
+
+    expect(await stockOf('p1')).toBe(1);
+    expect(await billStorage.getAll()).toEqual([]);
+    expect(await billStorage.previewInvoiceNumber()).toBe('INV-1001');
+    expect(quotationStatus((await quotationStorage.getById(quotation.id))!)).toBe('open');
+  });
+
+  it('refuses expired and already converted quotations', async () => {
+    const expired = await quote('2000-01-01');
+    await expect(quotationStorage.convert(expired.id, billFor(expired))).rejects.toThrow(/expired on 2000-01-01/);
+
+    const quotation = await quote();
+    await quotationStorage.convert(quotation.id, billFor(quotation));
+    const again = quotationStorage.convert(quotation.id, billFor(quotation));
+    await expect(again).rejects.toBeInstanceOf(ValidationError);
+    await expect(again).rejects.toThrow(/already converted into INV-1001/);
+
+    expect(await stockOf('p1')).toBe(3);
+    expect(await billStorage.getAll()).toHaveLength(1);
+  });
+
+  it('numbers quotations in their own series, apart from invoices', async () => {
+    const first = await quote();
+    const second = await quote();
+
+    expect(first.quotationNumber).toMatch(/^QT\/\d{2}-\d{2}\/0001$/);
+    expect(second.quotationNumber).toMatch(/^QT\/\d{2}-\d{2}\/0002$/);
+    expect(await billStorage.previewInvoiceNumber()).toBe('INV-1001');
+
+    await quotationStorage.convert(first.id, billFor(first));
+    expect(await billStorage.previewInvoiceNumber()).toBe('INV-1002');
+    expect((await quote()).quotationNumber).toMatch(/\/0003$/);
+  });
+});
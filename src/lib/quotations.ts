@@ -0,0 +1,33 @@
+// Quotations: how long their prices hold and where each one stands
+import type { BillItem, Product, Quotation } from './storage';
+
+export type QuotationStatus = 'open' | 'expired' | 'converted';
+
+export const QUOTATION_STATUS_LABELS: Record<QuotationStatus, string> = {
+  open: 'Open',
+  expired: 'Expired',
+  converted: 'Converted',
+};
+
+export const DEFAULT_VALIDITY_DAYS = 15;
+
+// YYYY-MM-DD in local time, as a date input shows it
+export const localDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const defaultValidUntil = (from = new Date()) => {
+  const until = new Date(from);
+  until.setDate(until.getDate() + DEFAULT_VALIDITY_DAYS);
+  return localDate(until);
+};
+
+// A quotation holds through the whole of its last valid day
+export const quotationStatus = (quotation: Pick<Quotation, 'billId' | 'validUntil'>, now = new Date()): QuotationStatus =>
+  quotation.billId ? 'converted' : quotation.validUntil < localDate(now) ? 'expired' : 'open';
+
+// Quoted items the stock on hand cannot cover right now
+export const stockShortfalls = (items: BillItem[], products: Product[]) =>
+  items.flatMap(item => {
+    const available = products.find(p => p.id === item.productId)?.stock ?? 0;
+    return available < item.quantity ? [{ productName: item.productName, quantity: item.quantity, available }] : [];
+  });
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { creditNoteFor, returnableQuantities } from './returns';
+import { ValidationError } from './schemas';
+import type { Bill, CreditNote } from './storage';
+
+const bill: Bill = {
+  id: 'b1',
+  invoiceNumber: 'INV-1001',
+  customerId: 'c1',
+  customerName: 'Ravi',
+  items: [
+    { productId: 'p1', productName: 'Rice 1kg', quantity: 4, price: 100, total: 400, hsnCode: '1006', gstRate: 18 },
+    { productId: 'p2', productName: 'Salt', quantity: 1, price: 50, total: 50, hsnCode: '2501', gstRate: 5 },
+  ],
+  subtotal: 450,
+  discount: 45,
+  discountType: 'amount',
+  gstAmount: 67.05,
+  total: 472.05,
+  supplyType: 'intra',
+  payments: [],
+  amountPaid: 472.05,
+  paymentStatus: 'paid',
+  status: 'active',
+  createdAt: '2025-04-01T10:00:00.000Z',
+};
+
+describe('creditNoteFor', () => {
+  it('reverses tax on the discounted value each unit was sold at', () => {
+    const totals = creditNoteFor(bill, [], [{ lineIndex: 0, quantity: 1, damaged: true }]);
+
+    // The line took 40 of the 45 bill discount, so each unit was sold at 90 before tax
+    expect(totals.items).toEqual([
+      expect.objectContaining({ productId: 'p1', quantity: 1, taxableValue: 90, gstRate: 18, damaged: true }),
+    ]);
+    expect(totals.cgstAmount).toBe(8.1);
+    expect(totals.sgstAmount).toBe(8.1);
+    expect(totals.total).toBe(106.2);
+  });
+
+  it('refuses to return more than is left on the bill', () => {
+    const earlier = { billId: 'b1', items: [{ lineIndex: 0, quantity: 3 }] } as CreditNote;
+
+    expect(returnableQuantities(bill, [earlier])).toEqual([1, 1]);
+    expect(() => creditNoteFor(bill, [earlier], [{ lineIndex: 0, quantity: 2 }])).toThrow(ValidationError);
+  });
+});
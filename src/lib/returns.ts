@@ -0,0 +1,89 @@
+// Sales returns: what is left to return on a bill and the credit note for a return
+import { calculateBillInvoice, calculateInvoice } from './invoice';
+import { fromPaise, toPaise } from './money';
+import { ValidationError } from './schemas';
+import type { Bill, CreditNote, CreditNoteItem, CreditNoteSettlement } from './storage';
+
+export interface ReturnLine {
+  // Position of the item on the bill
+  lineIndex: number;
+  quantity: number;
+  // Goes to the product's damaged stock instead of back on sale
+  damaged?: boolean;
+}
+
+export interface ReturnRequest {
+  lines: ReturnLine[];
+  settlement: CreditNoteSettlement;
+  refundMode?: CreditNote['refundMode'];
+  reason: string;
+}
+
+export type CreditNoteTotals = Pick<
+  CreditNote,
+  'items' | 'taxable' | 'supplyType' | 'cgstAmount' | 'sgstAmount' | 'igstAmount' | 'gstAmount' | 'taxBreakup' | 'total'
+>;
+
+// Per bill line, the quantity not already returned on `creditNotes`
+export const returnableQuantities = (bill: Bill, creditNotes: CreditNote[]) =>
+  bill.items.map((item, i) => {
+    const returned = creditNotes
+      .filter(note => note.billId === bill.id && !note.deletedAt)
+      .flatMap(note => note.items)
+      .filter(line => line.lineIndex === i)
+      .reduce((sum, line) => sum + line.quantity, 0);
+    return Math.max(item.quantity - returned, 0);
+  });
+
+/**
+ * Items and reversed tax for returning `lines` of a bill. Each line gives back
+ * its share of the taxable value it was sold at, after every discount; the tax
+ * on that is worked out as on an invoice, by HSN code and rate.
+ */
+export const creditNoteFor = (bill: Bill, earlier: CreditNote[], lines: ReturnLine[]): CreditNoteTotals => {
+  const chosen = lines.filter(line => line.quantity > 0);
+  if (chosen.length === 0) {
+    throw new ValidationError('credit note', [{ path: 'items', message: 'Choose at least one item to return' }]);
+  }
+
+  const returnable = returnableQuantities(bill, earlier);
+  const sold = calculateBillInvoice(bill);
+  const items: CreditNoteItem[] = chosen.map(line => {
+    const item = bill.items[line.lineIndex];
+    if (!item) {
+      throw new ValidationError('credit note', [{ path: 'items', message: 'That item is not on the bill' }]);
+    }
+    if (line.quantity > returnable[line.lineIndex]) {
+      throw new ValidationError('credit note', [
+        { path: `items.${line.lineIndex}`, message: `Only ${returnable[line.lineIndex]} of ${item.productName} can still be returned` },
+      ]);
+    }
+    return {
+      lineIndex: line.lineIndex,
+      productId: item.productId,
+      productName: item.productName,
+      hsnCode: item.hsnCode ?? '',
+      gstRate: sold.lineRates[line.lineIndex],
+      quantity: line.quantity,
+      price: item.price,
+      taxableValue: fromPaise(Math.round((toPaise(sold.lineTaxableValues[line.lineIndex]) * line.quantity) / item.quantity)),
+      damaged: !!line.damaged,
+    };
+  });
+
+  const reversed = calculateInvoice({
+    items: items.map(item => ({ price: item.taxableValue, quantity: 1, gstRate: item.gstRate, hsnCode: item.hsnCode })),
+    supplyType: sold.supplyType,
+  });
+  return {
+    items,
+    taxable: reversed.taxable,
+    supplyType: reversed.supplyType,
+    cgstAmount: reversed.cgst,
+    sgstAmount: reversed.sgst,
+    igstAmount: reversed.igst,
+    gstAmount: reversed.gstAmount,
+    taxBreakup: reversed.taxBreakup,
+    total: reversed.total,
+  };
+};
@@ -0,0 +1,366 @@
+// Zod schemas for stored entities, checked on every repository read and write
+import { z } from 'zod';
+import { GSTIN_PATTERN, GST_RATES, HSN_CODE_PATTERN, gstinStateCode, isStateCode } from './gst';
+import type {
+  Bill,
+  BillDraft,
+  BillItem,
+  BillRevision,
+  CreditNote,
+  Customer,
+  Payment,
+  Product,
+  Quotation,
+  Receipt,
+  ShopProfile,
+  TaxBreakupRow,
+} from './storage';
+
+const requiredText = (label: string) => z.string().trim().min(1, `${label} is required`);
+
+const amount = (label: string) =>
+  z
+    .number({ required_error: `${label} is required`, invalid_type_error: `${label} must be a number` })
+    .finite(`${label} must be a number`);
+
+const nonNegative = (label: string) => amount(label).nonnegative(`${label} cannot be negative`);
+
+const timestamp = z.string().min(1, 'Timestamp is required');
+
+const gstRate = amount('GST rate').refine(
+  rate => (GST_RATES as readonly number[]).includes(rate),
+  `GST rate must be one of ${GST_RATES.join(', ')}%`
+);
+
+const hsnCode = z
+  .string()
+  .trim()
+  .refine(code => code === '' || HSN_CODE_PATTERN.test(code), 'HSN code must be 4, 6 or 8 digits');
+
+const stateCode = z
+  .string()
+  .trim()
+  .refine(code => code === '' || isStateCode(code), 'Choose a state from the list');
+
+const gstin = z
+  .string()
+  .trim()
+  .refine(value => value === '' || GSTIN_PATTERN.test(value), 'GSTIN must be 15 characters, e.g. 33ABCDE1234F1Z5');
+
+// A GSTIN's first two digits are the state it is registered in
+const gstinInState = (value: { gstin?: string }, state: string | undefined) =>
+  !value.gstin || !state || gstinStateCode(value.gstin) === state;
+
+// Largest logo kept in the shop profile, as a data URL
+export const MAX_LOGO_LENGTH = 200_000;
+
+const discountType = z.enum(['percent', 'amount']);
+
+const discount = z
+  .object({ type: discountType, value: nonNegative('Discount') })
+  .refine(d => d.type !== 'percent' || d.value <= 100, {
+    message: 'Discount cannot be more than 100%',
+    path: ['value'],
+  });
+
+// Unknown fields pass through so records written by a newer version survive a round trip.
+// The casts pin each schema's output to the entity interface.
+export const productSchema = z
+  .object({
+    id: z.string().min(1),
+    name: requiredText('Name'),
+    parentId: z.string().nullable(),
+    price: nonNegative('Price'),
+    stock: nonNegative('Stock'),
+    minStock: nonNegative('Minimum stock'),
+    unit: z.string().trim(),
+    hsnCode,
+    gstRate,
+    damagedStock: nonNegative('Damaged stock').optional(),
+    createdAt: timestamp,
+    deletedAt: z.string().nullish(),
+  })
+  .passthrough() as z.ZodType<Product>;
+
+const customerObject = (phone: z.ZodString) =>
+  z
+    .object({
+      id: z.string().min(1),
+      name: requiredText('Name'),
+      phone,
+      address: z.string().trim(),
+      state: stateCode,
+      gstin,
+      creditLimit: nonNegative('Credit limit').nullable(),
+      createdAt: timestamp,
+      deletedAt: z.string().nullish(),
+    })
+    .passthrough()
+    .refine(c => gstinInState(c, c.state), {
+      message: 'GSTIN does not match the state',
+      path: ['gstin'],
+    }) as z.ZodType<Customer>;
+
+// Stored customers; ones saved before a phone number was required have a blank phone
+export const customerSchema = customerObject(z.string().trim());
+
+// Customers entered or edited in the app, or imported from Excel, must give a phone number
+export const customerInputSchema = customerObject(requiredText('Phone'));
+
+export const billItemSchema = z
+  .object({
+    productId: z.string().min(1),
+    productName: requiredText('Product name'),
+    quantity: amount('Quantity').positive('Quantity must be more than 0'),
+    price: nonNegative('Price'),
+    total: amount('Item total'),
+    discount: discount.optional(),
+    discountAmount: nonNegative('Item discount').optional(),
+    netAmount: amount('Net amount').optional(),
+    hsnCode: hsnCode.optional(),
+    gstRate: nonNegative('GST rate').optional(),
+    taxableValue: amount('Taxable value').optional(),
+  })
+  .passthrough() as z.ZodType<BillItem>;
+
+const taxBreakupRowSchema = z
+  .object({
+    hsnCode: z.string(),
+    gstRate: nonNegative('GST rate'),
+    taxableValue: amount('Taxable value'),
+    cgst: amount('CGST'),
+    sgst: amount('SGST'),
+    igst: amount('IGST'),
+  })
+  .passthrough() as z.ZodType<TaxBreakupRow>;
+
+export const paymentSchema = z
+  .object({
+    mode: z.enum(['cash', 'upi', 'card', 'credit']),
+    amount: amount('Payment amount'),
+    reference: z.string().trim(),
+    tendered: nonNegative('Cash tendered').optional(),
+    receivedAt: timestamp,
+    receiptId: z.string().optional(),
+    creditNoteId: z.string().optional(),
+  })
+  .passthrough()
+  // Only the refund of a credit note takes money back out
+  .refine(payment => payment.amount >= 0 || !!payment.creditNoteId, {
+    message: 'Payment amount cannot be negative',
+    path: ['amount'],
+  }) as z.ZodType<Payment>;
+
+// Earlier versions were valid when saved and later migrations never touch them, so only what identifies one is checked
+const billRevisionSchema = z
+  .object({ invoiceNumber: z.string(), total: amount('Total'), revisedAt: timestamp, reason: z.string().optional() })
+  .passthrough() as unknown as z.ZodType<BillRevision>;
+
+export const billSchema = z
+  .object({
+    id: z.string().min(1),
+    invoiceNumber: requiredText('Invoice number'),
+    customerId: z.string(),
+    customerName: z.string(),
+    customerGstin: gstin.optional(),
+    items: z.array(billItemSchema).min(1, 'A bill needs at least one item'),
+    subtotal: amount('Subtotal'),
+    itemDiscount: nonNegative('Item discount').optional(),
+    discount: nonNegative('Discount'),
+    discountType: discountType.optional(),
+    gstPercent: nonNegative('GST %').optional(),
+    gstAmount: amount('GST amount'),
+    total: amount('Total'),
+    supplyType: z.enum(['intra', 'inter']).optional(),
+    placeOfSupply: stateCode.optional(),
+    cgstAmount: amount('CGST').optional(),
+    sgstAmount: amount('SGST').optional(),
+    igstAmount: amount('IGST').optional(),
+    taxBreakup: z.array(taxBreakupRowSchema).optional(),
+    payments: z.array(paymentSchema),
+    amountPaid: nonNegative('Amount paid'),
+    paymentStatus: z.enum(['paid', 'partial', 'unpaid']),
+    returnedAmount: nonNegative('Returned amount').optional(),
+    status: z.enum(['active', 'cancelled']),
+    cancelledAt: timestamp.optional(),
+    cancelledBy: z.string().optional(),
+    cancelReason: z.string().trim().optional(),
+    createdAt: timestamp,
+    updatedAt: timestamp.optional(),
+    revisions: z.array(billRevisionSchema).optional(),
+    quotationId: z.string().optional(),
+    deletedAt: z.string().nullish(),
+  })
+  .passthrough() as z.ZodType<Bill>;
+
+export const receiptSchema = z
+  .object({
+    id: z.string().min(1),
+    receiptNumber: requiredText('Receipt number'),
+    customerId: z.string().min(1),
+    customerName: z.string(),
+    amount: amount('Amount').positive('Amount must be more than 0'),
+    mode: z.enum(['cash', 'upi', 'card']),
+    reference: z.string().trim(),
+    note: z.string().trim(),
+    allocations: z
+      .array(z.object({ billId: z.string().min(1), invoiceNumber: z.string(), amount: nonNegative('Allocation') }))
+      .min(1, 'The customer has nothing outstanding'),
+    createdAt: timestamp,
+    deletedAt: z.string().nullish(),
+  })
+  .passthrough() as z.ZodType<Receipt>;
+
+export const creditNoteSchema = z
+  .object({
+    id: z.string().min(1),
+    creditNoteNumber: requiredText('Credit note number'),
+    billId: z.string().min(1),
+    invoiceNumber: z.string(),
+    customerId: z.string(),
+    customerName: z.string(),
+    items: z
+      .array(
+        z.object({
+          lineIndex: z.number().int().nonnegative(),
+          productId: z.string(),
+          productName: z.string(),
+          hsnCode: z.string(),
+          gstRate: nonNegative('GST rate'),
+          quantity: amount('Quantity').positive('Quantity must be more than 0'),
+          price: nonNegative('Price'),
+          taxableValue: nonNegative('Taxable value'),
+          damaged: z.boolean(),
+        })
+      )
+      .min(1, 'Choose at least one item to return'),
+    taxable: nonNegative('Taxable value'),
+    supplyType: z.enum(['intra', 'inter']),
+    cgstAmount: nonNegative('CGST'),
+    sgstAmount: nonNegative('SGST'),
+    igstAmount: nonNegative('IGST'),
+    gstAmount: nonNegative('GST amount'),
+    taxBreakup: z.array(taxBreakupRowSchema),
+    total: nonNegative('Total'),
+    settlement: z.enum(['refund', 'account']),
+    refundMode: z.enum(['cash', 'upi', 'card']).optional(),
+    reason: z.string().trim(),
+    createdAt: timestamp,
+    deletedAt: z.string().nullish(),
+  })
+  .passthrough()
+  .refine(note => note.settlement === 'account' || !!note.refundMode, {
+    message: 'Choose how the refund was paid',
+    path: ['refundMode'],
+  }) as z.ZodType<CreditNote>;
+
+export const quotationSchema = z
+  .object({
+    id: z.string().min(1),
+    quotationNumber: requiredText('Quotation number'),
+    customerId: z.string(),
+    customerName: z.string(),
+    customerGstin: gstin.optional(),
+    items: z.array(billItemSchema).min(1, 'A quotation needs at least one item'),
+    subtotal: amount('Subtotal'),
+    itemDiscount: nonNegative('Item discount').optional(),
+    discount: nonNegative('Discount'),
+    discountType: discountType.optional(),
+    gstAmount: amount('GST amount'),
+    total: amount('Total'),
+    supplyType: z.enum(['intra', 'inter']),
+    placeOfSupply: stateCode.optional(),
+    cgstAmount: amount('CGST'),
+    sgstAmount: amount('SGST'),
+    igstAmount: amount('IGST'),
+    taxBreakup: z.array(taxBreakupRowSchema),
+    validUntil: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Choose the date the quotation is valid until'),
+    billId: z.string().optional(),
+    invoiceNumber: z.string().optional(),
+    convertedAt: timestamp.optional(),
+    createdAt: timestamp,
+    deletedAt: z.string().nullish(),
+  })
+  .passthrough() as z.ZodType<Quotation>;
+
+// The draft keeps form fields as typed, so the discount is still a string
+export const billDraftSchema = z.object({
+  id: z.string().min(1),
+  selectedCustomer: z.string(),
+  items: z.array(billItemSchema),
+  discount: z.string(),
+  discountType: discountType.optional(),
+  heldAt: z.number(),
+  timestamp: z.number(),
+}) as z.ZodType<BillDraft>;
+
+// Each hold is checked against billDraftSchema on its own, so one bad hold does not cost the rest
+export const heldBillsSchema = z.object({
+  activeId: z.string().nullable().catch(null),
+  bills: z.array(z.unknown()),
+});
+
+export const shopProfileSchema = z
+  .object({
+    legalName: requiredText('Legal name'),
+    address: z.string().trim(),
+    gstin,
+    stateCode,
+    phone: z.string().trim(),
+    logo: z
+      .string()
+      .refine(logo => logo === '' || logo.startsWith('data:image/'), 'Logo must be an image')
+      .refine(logo => logo.length <= MAX_LOGO_LENGTH, 'Logo is too large'),
+    footer: z.string(),
+  })
+  .passthrough()
+  .refine(p => gstinInState(p, p.stateCode), {
+    message: 'GSTIN does not match the shop state',
+    path: ['gstin'],
+  }) as z.ZodType<ShopProfile>;
+
+export const ENTITY_SCHEMAS = {
+  products: productSchema,
+  customers: customerSchema,
+  bills: billSchema,
+  receipts: receiptSchema,
+  creditNotes: creditNoteSchema,
+  quotations: quotationSchema,
+};
+
+export interface FieldIssue {
+  // Dotted path to the field, e.g. "items.0.quantity"
+  path: string;
+  message: string;
+}
+
+// Raised when a record does not match its schema; nothing is written
+export class ValidationError extends Error {
+  issues: FieldIssue[];
+
+  constructor(subject: string, issues: FieldIssue[]) {
+    super(`Invalid ${subject}: ${issues.map(i => (i.path ? `${i.path}: ${i.message}` : i.message)).join('; ')}`);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+
+  // First message per top-level field, for showing under form inputs
+  get fieldErrors(): Record<string, string> {
+    const errors: Record<string, string> = {};
+    for (const issue of this.issues) {
+      const field = issue.path.split('.')[0];
+      errors[field] = errors[field] || issue.message;
+    }
+    return errors;
+  }
+}
+
+export const toFieldIssues = (error: z.ZodError): FieldIssue[] =>
+  error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+
+// Parse `value` or throw a ValidationError naming `subject`
+export const validate = <S extends z.ZodTypeAny>(schema: S, value: unknown, subject: string): z.infer<S> => {
+  const result = schema.safeParse(value);
+  if (!result.success) throw new ValidationError(subject, toFieldIssues(result.error));
+  return result.data;
+};
@@ -1,4 +1,24 @@
-// localStorage utilities for data persistence
+// Data persistence: typed repositories over the active storage backend
+import { localStorageBackend } from './backends/localStorageBackend';
+import { runTransaction } from './backends/transaction';
+import type { StorageBackend, TableRecords } from './backends/types';
+import { getAuditUser, recordAudit } from './audit';
+import { ENTITY_SCHEMAS, ValidationError, customerInputSchema, shopProfileSchema, validate } from './schemas';
+import { allocateReceipt, creditLimitError, outstandingBalance } from './ledger';
+import { balanceDue, netTotal, paymentStatusFor } from './payments';
+import { creditNoteFor, type ReturnRequest } from './returns';
+import { quotationStatus } from './quotations';
+import { formatRupees, fromPaise, sumPaise, toPaise } from './money';
+import type { SupplyType } from './gst';
+import type { DiscountType, InvoiceDiscount } from './invoice';
+import {
+  buildGapReport,
+  DOCUMENT_TYPE_LABELS,
+  invoiceNumbering,
+  type DocumentType,
+  type GapReport,
+  type NumberSeries,
+} from './invoiceNumbering';
 
 export interface Product {
   id: string;
@@ -8,7 +28,14 @@ export interface Product {
   stock: number;
   minStock: number;
   unit: string;
+  // Empty when not known
+  hsnCode: string;
+  gstRate: number;
+  // Units returned damaged, kept out of sellable stock; absent until the first such return
+  damagedStock?: number;
   createdAt: string;
+  // Set while the record is in the Recycle Bin
+  deletedAt?: string | null;
 }
 
 export interface Customer {
@@ -16,183 +43,1141 @@ export interface Customer {
   name: string;
   phone: string;
   address: string;
+  // GST state code, e.g. "33"; empty when not known
+  state: string;
+  // Empty for unregistered customers
+  gstin: string;
+  // Most the customer may owe; null for no limit
+  creditLimit: number | null;
   createdAt: string;
+  deletedAt?: string | null;
 }
 
 export interface BillItem {
   productId: string;
   productName: string;
   quantity: number;
+  // Unit price before any discount
   price: number;
+  // price × quantity
   total: number;
+  // Line discount as the cashier entered it; absent when none was given
+  discount?: InvoiceDiscount;
+  // Rupees the line discount took off, and the line total after it
+  discountAmount?: number;
+  netAmount?: number;
+  // Copied from the product when billed; absent on bills made before per-product GST
+  hsnCode?: string;
+  gstRate?: number;
+  // Net amount less its share of the bill discount
+  taxableValue?: number;
 }
 
+// One row of the invoice tax summary: items sharing an HSN code and rate
+export interface TaxBreakupRow {
+  hsnCode: string;
+  gstRate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export type PaymentMode = 'cash' | 'upi' | 'card' | 'credit';
+
+export type PaymentStatus = 'paid' | 'partial' | 'unpaid';
+
+// One tender against a bill
+export interface Payment {
+  mode: PaymentMode;
+  // Rupees applied to the bill; for credit, the amount put on account
+  amount: number;
+  // UPI transaction ID, card slip number and so on; empty when none
+  reference: string;
+  // Cash handed over, when more than `amount`; the rest was given back as change
+  tendered?: number;
+  receivedAt: string;
+  // Set when the payment came from a receipt recorded after the sale
+  receiptId?: string;
+  // Set on money refunded for a credit note; refunds are negative
+  creditNoteId?: string;
+}
+
+// A cancelled bill keeps its number and stays on record but no longer counts as a sale
+export type BillStatus = 'active' | 'cancelled';
+
 export interface Bill {
   id: string;
   invoiceNumber: string;
   customerId: string;
   customerName: string;
+  // Recipient GSTIN when the bill was made; absent on older bills
+  customerGstin?: string;
   items: BillItem[];
+  // Sum of the item totals, before any discount
   subtotal: number;
+  // Sum of the line discounts; absent on bills made before line discounts
+  itemDiscount?: number;
+  // Bill discount in rupees, taken after the line discounts
   discount: number;
-  gstPercent: number;
+  // How the bill discount was entered; older bills were all percent
+  discountType?: DiscountType;
+  // Bill-wide rate from before per-product GST; applies to items without a gstRate
+  gstPercent?: number;
+  // Total tax: CGST + SGST, or IGST
   gstAmount: number;
   total: number;
+  // Absent on bills made before per-product GST, which were all local sales
+  supplyType?: SupplyType;
+  placeOfSupply?: string;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+  taxBreakup?: TaxBreakupRow[];
+  // Empty on bills made before payments were recorded
+  payments: Payment[];
+  // Received in cash, UPI or card; the rest of the total is still owed
+  amountPaid: number;
+  paymentStatus: PaymentStatus;
+  // Total of the credit notes issued against the bill; absent when nothing was returned
+  returnedAmount?: number;
+  status: BillStatus;
+  // Set when the bill is cancelled; the reason is required
+  cancelledAt?: string;
+  cancelledBy?: string;
+  cancelReason?: string;
   createdAt: string;
+  // Set once the bill has been edited
+  updatedAt?: string;
+  // Earlier versions of an edited bill, oldest first
+  revisions?: BillRevision[];
+  // Set on bills converted from a quotation
+  quotationId?: string;
+  deletedAt?: string | null;
 }
 
-const STORAGE_KEYS = {
-  PRODUCTS: 'billing_products',
-  CUSTOMERS: 'billing_customers',
-  BILLS: 'billing_bills',
-  INVOICE_COUNTER: 'billing_invoice_counter',
+// A bill as it stood before an edit replaced it
+export type BillRevision = Omit<Bill, 'revisions'> & {
+  revisedAt: string;
+  reason?: string;
 };
 
-// Generic storage functions
-export const storage = {
-  get: <T>(key: string): T[] => {
-    const data = localStorage.getItem(key);
-    return data ? JSON.parse(data) : [];
-  },
-  set: <T>(key: string, data: T[]) => {
-    localStorage.setItem(key, JSON.stringify(data));
-  },
+// What the billing screen sends for a new or edited bill
+export type BillInput = Omit<
+  Bill,
+  | 'id'
+  | 'invoiceNumber'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'revisions'
+  | 'status'
+  | 'cancelledAt'
+  | 'cancelledBy'
+  | 'cancelReason'
+  | 'quotationId'
+>;
+
+// A price estimate; nothing leaves stock until it is converted into a bill
+export interface Quotation {
+  id: string;
+  quotationNumber: string;
+  customerId: string;
+  customerName: string;
+  customerGstin?: string;
+  items: BillItem[];
+  subtotal: number;
+  itemDiscount?: number;
+  discount: number;
+  discountType?: DiscountType;
+  gstAmount: number;
+  total: number;
+  supplyType: SupplyType;
+  placeOfSupply?: string;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  taxBreakup: TaxBreakupRow[];
+  // Last day the prices hold, as YYYY-MM-DD
+  validUntil: string;
+  // Set once converted
+  billId?: string;
+  invoiceNumber?: string;
+  convertedAt?: string;
+  createdAt: string;
+  deletedAt?: string | null;
+}
+
+// What the billing screen sends for a new quotation
+export type QuotationInput = Omit<Quotation, 'id' | 'quotationNumber' | 'billId' | 'invoiceNumber' | 'convertedAt' | 'createdAt'>;
+
+// Part of a receipt applied to one bill
+export interface ReceiptAllocation {
+  billId: string;
+  invoiceNumber: string;
+  amount: number;
+}
+
+// Money received from a customer against their outstanding bills
+export interface Receipt {
+  id: string;
+  receiptNumber: string;
+  customerId: string;
+  customerName: string;
+  amount: number;
+  mode: Exclude<PaymentMode, 'credit'>;
+  reference: string;
+  note: string;
+  allocations: ReceiptAllocation[];
+  createdAt: string;
+  deletedAt?: string | null;
+}
+
+// A bill line given back on a credit note
+export interface CreditNoteItem {
+  // Position of the item on the original bill
+  lineIndex: number;
+  productId: string;
+  productName: string;
+  hsnCode: string;
+  gstRate: number;
+  quantity: number;
+  price: number;
+  // This quantity's share of the taxable value the line was sold at
+  taxableValue: number;
+  // Went to the product's damaged stock rather than back on sale
+  damaged: boolean;
+}
+
+// 'refund' pays the customer back; 'account' takes the amount off what they owe on the invoice
+export type CreditNoteSettlement = 'refund' | 'account';
+
+// Goods returned against an invoice, with the tax on them reversed
+export interface CreditNote {
+  id: string;
+  creditNoteNumber: string;
+  billId: string;
+  invoiceNumber: string;
+  customerId: string;
+  customerName: string;
+  items: CreditNoteItem[];
+  taxable: number;
+  supplyType: SupplyType;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  gstAmount: number;
+  taxBreakup: TaxBreakupRow[];
+  total: number;
+  settlement: CreditNoteSettlement;
+  // How the refund was paid; only on refunds
+  refundMode?: Exclude<PaymentMode, 'credit'>;
+  reason: string;
+  createdAt: string;
+  deletedAt?: string | null;
+}
+
+// Bills in progress on the Billing page, autosaved to localStorage as HeldBills
+export const DRAFT_KEY = 'billing-draft';
+
+export interface BillDraft {
+  id: string;
+  selectedCustomer: string;
+  items: BillItem[];
+  discount: string;
+  discountType?: DiscountType;
+  // When the bill was started
+  heldAt: number;
+  // Last autosave; holds untouched for too long expire
+  timestamp: number;
+}
+
+export interface HeldBills {
+  // The bill on screen
+  activeId: string | null;
+  bills: BillDraft[];
+}
+
+// The business issuing the bills, kept in settings and printed on every invoice
+export interface ShopProfile {
+  legalName: string;
+  address: string;
+  // Empty when the shop is not GST registered
+  gstin: string;
+  // GST state code; decides between CGST + SGST and IGST
+  stateCode: string;
+  phone: string;
+  // Image data URL, or empty for no logo
+  logo: string;
+  footer: string;
+}
+
+export const DEFAULT_SHOP_PROFILE: ShopProfile = {
+  legalName: 'Anthiyur Online Sandhai',
+  address: 'Near Police Station',
+  gstin: '',
+  stateCode: '',
+  phone: '',
+  logo: '',
+  footer: 'Thank you for your business!\nPlease visit again',
 };
 
-// Product operations
-export const productStorage = {
-  getAll: (): Product[] => storage.get<Product>(STORAGE_KEYS.PRODUCTS),
-  save: (products: Product[]) => storage.set(STORAGE_KEYS.PRODUCTS, products),
-  add: (product: Omit<Product, 'id' | 'createdAt'>): Product => {
-    const products = productStorage.getAll();
-    const newProduct: Product = {
-      ...product,
-      id: crypto.randomUUID(),
-      createdAt: new Date().toISOString(),
-    };
-    products.push(newProduct);
-    productStorage.save(products);
-    return newProduct;
-  },
-  update: (id: string, updates: Partial<Product>) => {
-    const products = productStorage.getAll();
-    const index = products.findIndex(p => p.id === id);
-    if (index !== -1) {
-      products[index] = { ...products[index], ...updates };
-      productStorage.save(products);
+export type AuditEntityType =
+  | 'products'
+  | 'customers'
+  | 'bills'
+  | 'receipts'
+  | 'creditNotes'
+  | 'quotations'
+  | 'settings'
+  | 'backup';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+export interface AuditChange {
+  before?: unknown;
+  after?: unknown;
+}
+
+// Append-only: entries are never updated or removed
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  user: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  // Name or invoice number at the time of the change, for display
+  entityLabel: string;
+  changes: Record<string, AuditChange>;
+  reason: string | null;
+}
+
+export interface ProductRepository {
+  getAll: () => Promise<Product[]>;
+  save: (products: Product[], reason?: string) => Promise<void>;
+  add: (product: Omit<Product, 'id' | 'createdAt'>, reason?: string) => Promise<Product>;
+  update: (id: string, updates: Partial<Product>, reason?: string) => Promise<void>;
+  delete: (id: string, reason?: string) => Promise<void>;
+  updateStock: (id: string, quantityChange: number, reason?: string) => Promise<boolean>;
+}
+
+export interface CustomerRepository {
+  getAll: () => Promise<Customer[]>;
+  save: (customers: Customer[], reason?: string) => Promise<void>;
+  add: (customer: Omit<Customer, 'id' | 'createdAt'>, reason?: string) => Promise<Customer>;
+  update: (id: string, updates: Partial<Customer>, reason?: string) => Promise<void>;
+  delete: (id: string, reason?: string) => Promise<void>;
+  search: (query: string) => Promise<Customer[]>;
+  // Adds starter customers on first run only; false once any customer was ever stored
+  seed: (customers: Customer[]) => Promise<boolean>;
+}
+
+export interface BillRepository {
+  getAll: () => Promise<Bill[]>;
+  save: (bills: Bill[], reason?: string) => Promise<void>;
+  previewInvoiceNumber: () => Promise<string>;
+  getById: (id: string) => Promise<Bill | null>;
+  add: (bill: BillInput, reason?: string) => Promise<Bill | null>;
+  // Null when there is not enough stock for the edited items
+  revise: (id: string, bill: BillInput, reason?: string) => Promise<Bill | null>;
+  update: (id: string, updates: Partial<Bill>, reason?: string) => Promise<void>;
+  // Keeps the bill and its number, puts its stock back and stops it counting as a sale
+  cancel: (id: string, reason: string) => Promise<void>;
+  getByCustomer: (customerId: string) => Promise<Bill[]>;
+  getByDateRange: (from?: Date, to?: Date) => Promise<Bill[]>;
+  count: () => Promise<number>;
+}
+
+// Tables whose deletes go to the Recycle Bin first
+export type RecyclableTable = 'products' | 'customers' | 'bills';
+
+export interface RecycledItem<K extends RecyclableTable = RecyclableTable> {
+  table: K;
+  record: TableRecords[K];
+}
+
+export interface RecycleBinRepository {
+  getAll: () => Promise<RecycledItem[]>;
+  restore: (table: RecyclableTable, id: string) => Promise<void>;
+  purge: (table: RecyclableTable, id: string) => Promise<void>;
+}
+
+export interface ReceiptRepository {
+  getAll: () => Promise<Receipt[]>;
+  getByCustomer: (customerId: string) => Promise<Receipt[]>;
+  add: (
+    receipt: Pick<Receipt, 'customerId' | 'amount' | 'mode' | 'reference' | 'note'>,
+    reason?: string
+  ) => Promise<Receipt>;
+}
+
+export interface CreditNoteRepository {
+  getByBill: (billId: string) => Promise<CreditNote[]>;
+  getByCustomer: (customerId: string) => Promise<CreditNote[]>;
+  getByDateRange: (from?: Date, to?: Date) => Promise<CreditNote[]>;
+  add: (billId: string, request: ReturnRequest, reason?: string) => Promise<CreditNote>;
+}
+
+export interface QuotationRepository {
+  getAll: () => Promise<Quotation[]>;
+  getById: (id: string) => Promise<Quotation | null>;
+  previewNumber: () => Promise<string>;
+  add: (quotation: QuotationInput, reason?: string) => Promise<Quotation>;
+  // Null when there is not enough stock for the quoted items
+  convert: (id: string, bill: BillInput, reason?: string) => Promise<Bill | null>;
+  delete: (id: string, reason?: string) => Promise<void>;
+}
+
+export interface AuditRepository {
+  getByDateRange: (from?: Date, to?: Date) => Promise<AuditEntry[]>;
+  getByEntity: (entityId: string) => Promise<AuditEntry[]>;
+}
+
+// Active backend, chosen once at startup by initStorage()
+let backend: StorageBackend = localStorageBackend;
+
+export const getStorageBackend = (): StorageBackend => backend;
+
+export const setStorageBackend = (next: StorageBackend) => {
+  backend = next;
+};
+
+/**
+ * All-or-nothing unit of work on the active backend. Use only `db` inside `fn`;
+ * calling repository methods there would wait on the transaction itself.
+ */
+export const transaction = <T>(fn: (db: StorageBackend) => Promise<T>): Promise<T> =>
+  runTransaction(backend, fn);
+
+// Tables whose every write is recorded in the audit log
+type AuditedTable = RecyclableTable | 'receipts' | 'creditNotes' | 'quotations';
+
+const isLive = (record: { deletedAt?: string | null }) => !record.deletedAt;
+
+// Hide records that are in the Recycle Bin
+const live = <T extends { deletedAt?: string | null }>(records: T[]) => records.filter(isLive);
+
+const SUBJECTS: Record<AuditedTable, string> = {
+  products: 'product',
+  customers: 'customer',
+  bills: 'bill',
+  receipts: 'receipt',
+  creditNotes: 'credit note',
+  quotations: 'quotation',
+};
+
+// Throws a ValidationError, rolling back the surrounding transaction
+const checked = <K extends AuditedTable>(table: K, record: TableRecords[K]) =>
+  validate(ENTITY_SCHEMAS[table], record, SUBJECTS[table]) as TableRecords[K];
+
+// Records failing their schema stay in storage for the integrity check but are not handed out.
+// The ones seen so far are tracked, keyed `table:id`, so the app can say they are missing.
+const hiddenRecords = new Set<string>();
+const hiddenListeners = new Set<(count: number) => void>();
+
+export const getHiddenRecordCount = () => hiddenRecords.size;
+
+export const subscribeHiddenRecords = (listener: (count: number) => void) => {
+  hiddenListeners.add(listener);
+  return () => {
+    hiddenListeners.delete(listener);
+  };
+};
+
+const readable = <K extends AuditedTable>(table: K, records: TableRecords[K][]) => {
+  const before = hiddenRecords.size;
+  const valid = records.filter(record => {
+    const key = `${table}:${record.id}`;
+    const ok = isLive(record) && ENTITY_SCHEMAS[table].safeParse(record).success;
+    if (ok || !isLive(record)) hiddenRecords.delete(key);
+    else if (!hiddenRecords.has(key)) {
+      hiddenRecords.add(key);
+      console.warn(`Hiding invalid ${SUBJECTS[table]} ${record.id} until it is repaired`);
     }
-  },
-  delete: (id: string) => {
-    const products = productStorage.getAll().filter(p => p.id !== id);
-    productStorage.save(products);
-  },
-  updateStock: (id: string, quantityChange: number): boolean => {
-    const products = productStorage.getAll();
-    const product = products.find(p => p.id === id);
-    if (!product) return false;
-    
-    const newStock = product.stock + quantityChange;
-    if (newStock < 0) return false; // Prevent negative stock
-    
-    product.stock = newStock;
-    productStorage.save(products);
-    return true;
-  },
+    return ok;
+  });
+  if (hiddenRecords.size !== before) hiddenListeners.forEach(listener => listener(hiddenRecords.size));
+  return valid;
+};
+
+const labelOf = <K extends AuditedTable>(table: K, record: TableRecords[K]) =>
+  table === 'bills'
+    ? (record as Bill).invoiceNumber
+    : table === 'receipts'
+      ? (record as Receipt).receiptNumber
+      : table === 'creditNotes'
+        ? (record as CreditNote).creditNoteNumber
+        : table === 'quotations'
+          ? (record as Quotation).quotationNumber
+          : (record as Product | Customer).name;
+
+// Write a record and log it as created or updated
+const putAudited = async <K extends AuditedTable>(
+  db: StorageBackend,
+  table: K,
+  record: TableRecords[K],
+  reason?: string
+) => {
+  record = checked(table, record);
+  const before = await db.get(table, record.id);
+  await db.put(table, record);
+  await recordAudit(db, {
+    entityType: table,
+    entityId: record.id,
+    entityLabel: labelOf(table, record),
+    action: before ? 'update' : 'create',
+    before,
+    after: record,
+    reason,
+  });
+};
+
+// Move a record to the Recycle Bin; the log keeps a full copy of what was deleted
+const softDeleteAudited = async (db: StorageBackend, table: AuditedTable, id: string, reason?: string) => {
+  const before = await db.get(table, id);
+  if (!before || !isLive(before)) return;
+  await db.put(table, { ...before, deletedAt: new Date().toISOString() });
+  await recordAudit(db, {
+    entityType: table,
+    entityId: id,
+    entityLabel: labelOf(table, before),
+    action: 'delete',
+    before,
+    reason,
+  });
+};
+
+// Bulk replace (Excel import), logged record by record. Live records left out
+// of `records` go to the Recycle Bin; records already there are kept.
+const replaceAllAudited = async <K extends AuditedTable>(
+  db: StorageBackend,
+  table: K,
+  records: TableRecords[K][],
+  reason?: string
+) => {
+  records = records.map(record => checked(table, record));
+  const previous = new Map((await db.getAll(table)).map(r => [r.id, r]));
+  const now = new Date().toISOString();
+  const kept = [...previous.values()]
+    .filter(r => !records.some(record => record.id === r.id))
+    .map(r => (isLive(r) ? { ...r, deletedAt: now } : r));
+  await db.replaceAll(table, [...records, ...kept]);
+  for (const record of records) {
+    const before = previous.get(record.id);
+    previous.delete(record.id);
+    await recordAudit(db, {
+      entityType: table,
+      entityId: record.id,
+      entityLabel: labelOf(table, record),
+      action: before ? 'update' : 'create',
+      before,
+      after: record,
+      reason,
+    });
+  }
+  for (const before of previous.values()) {
+    if (!isLive(before)) continue;
+    await recordAudit(db, {
+      entityType: table,
+      entityId: before.id,
+      entityLabel: labelOf(table, before),
+      action: 'delete',
+      before,
+      reason,
+    });
+  }
+};
+
+// Thrown inside a transaction to roll back when stock would go negative
+class InsufficientStockError extends Error {
+  constructor(productId: string) {
+    super(`Insufficient stock for product ${productId}`);
+    this.name = 'InsufficientStockError';
+  }
+}
+
+const applyStockChange = async (db: StorageBackend, id: string, quantityChange: number, reason?: string) => {
+  const product = await db.get('products', id);
+  if (!product || !isLive(product)) throw new InsufficientStockError(id);
+
+  const newStock = product.stock + quantityChange;
+  if (newStock < 0) throw new InsufficientStockError(id); // Prevent negative stock
+
+  await putAudited(db, 'products', { ...product, stock: newStock }, reason);
+};
+
+// Resolve to `fallback` when a transaction was rolled back for lack of stock
+const orOnStockError = <T>(fallback: T) => (error: unknown): T => {
+  if (error instanceof InsufficientStockError) return fallback;
+  throw error;
+};
+
+// Product operations
+export const productStorage: ProductRepository = {
+  getAll: async () => readable('products', await backend.getAll('products')),
+  save: (products, reason) => transaction(db => replaceAllAudited(db, 'products', products, reason)),
+  add: (product, reason) =>
+    transaction(async db => {
+      const newProduct: Product = {
+        ...product,
+        id: crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+      };
+      await putAudited(db, 'products', newProduct, reason);
+      return newProduct;
+    }),
+  update: (id, updates, reason) =>
+    transaction(async db => {
+      const product = await db.get('products', id);
+      if (product && isLive(product)) {
+        await putAudited(db, 'products', { ...product, ...updates }, reason);
+      }
+    }),
+  delete: (id, reason) => transaction(db => softDeleteAudited(db, 'products', id, reason)),
+  updateStock: (id, quantityChange, reason) =>
+    transaction(async db => {
+      await applyStockChange(db, id, quantityChange, reason);
+      return true;
+    }).catch(orOnStockError(false)),
 };
 
 // Customer operations
-export const customerStorage = {
-  getAll: (): Customer[] => storage.get<Customer>(STORAGE_KEYS.CUSTOMERS),
-  save: (customers: Customer[]) => storage.set(STORAGE_KEYS.CUSTOMERS, customers),
-  add: (customer: Omit<Customer, 'id' | 'createdAt'>): Customer => {
-    const customers = customerStorage.getAll();
-    const newCustomer: Customer = {
-      ...customer,
-      id: crypto.randomUUID(),
-      createdAt: new Date().toISOString(),
-    };
-    customers.push(newCustomer);
-    customerStorage.save(customers);
-    return newCustomer;
-  },
-  update: (id: string, updates: Partial<Customer>) => {
-    const customers = customerStorage.getAll();
-    const index = customers.findIndex(c => c.id === id);
-    if (index !== -1) {
-      customers[index] = { ...customers[index], ...updates };
-      customerStorage.save(customers);
-    }
-  },
-  delete: (id: string) => {
-    const customers = customerStorage.getAll().filter(c => c.id !== id);
-    customerStorage.save(customers);
-  },
-  search: (query: string): Customer[] => {
-    const customers = customerStorage.getAll();
+const CUSTOMERS_SEEDED_KEY = 'customers_seeded';
+
+export const customerStorage: CustomerRepository = {
+  getAll: async () => readable('customers', await backend.getAll('customers')),
+  save: (customers, reason) => transaction(db => replaceAllAudited(db, 'customers', customers, reason)),
+  add: (customer, reason) =>
+    transaction(async db => {
+      const newCustomer = validate(customerInputSchema, {
+        ...customer,
+        id: crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+      }, SUBJECTS.customers);
+      await putAudited(db, 'customers', newCustomer, reason);
+      return newCustomer;
+    }),
+  update: (id, updates, reason) =>
+    transaction(async db => {
+      const customer = await db.get('customers', id);
+      if (customer && isLive(customer)) {
+        const updated = validate(customerInputSchema, { ...customer, ...updates }, SUBJECTS.customers);
+        await putAudited(db, 'customers', updated, reason);
+      }
+    }),
+  delete: (id, reason) => transaction(db => softDeleteAudited(db, 'customers', id, reason)),
+  search: async (query) => {
+    const customers = await customerStorage.getAll();
     const lowerQuery = query.toLowerCase();
     return customers.filter(
       c => c.name.toLowerCase().includes(lowerQuery) || c.phone.includes(query)
     );
   },
+  seed: (customers) =>
+    transaction(async db => {
+      // Binned customers count too, so deleting every customer does not bring the demo ones back
+      if ((await db.getMeta(CUSTOMERS_SEEDED_KEY)) || (await db.count('customers')) > 0) {
+        await db.setMeta(CUSTOMERS_SEEDED_KEY, true);
+        return false;
+      }
+      for (const customer of customers) {
+        await putAudited(db, 'customers', customer, 'Starter data');
+      }
+      await db.setMeta(CUSTOMERS_SEEDED_KEY, true);
+      return true;
+    }),
+};
+
+const liveBillsOf = async (db: StorageBackend, customerId: string) =>
+  live(await db.query('bills', 'customerId', { lower: customerId, upper: customerId }));
+
+// Refuses a sale that would put the customer over their credit limit
+const checkCreditLimit = async (db: StorageBackend, customerId: string, owed: number) => {
+  if (toPaise(owed) <= 0) return;
+  const customer = await db.get('customers', customerId);
+  if (!customer) return;
+  const error = creditLimitError(customer.creditLimit ?? null, outstandingBalance(await liveBillsOf(db, customerId)), owed);
+  if (error) throw new ValidationError('bill', [{ path: 'payments', message: error }]);
+};
+
+// Per product, how much goes back to stock when `before` items become `after`; negative when more is sold
+const stockReturned = (before: BillItem[], after: BillItem[]) => {
+  const change = new Map<string, number>();
+  for (const item of before) change.set(item.productId, (change.get(item.productId) ?? 0) + item.quantity);
+  for (const item of after) change.set(item.productId, (change.get(item.productId) ?? 0) - item.quantity);
+  return change;
+};
+
+// Numbers, deducts stock for and saves a new bill; call inside a transaction
+const addBill = async (db: StorageBackend, bill: BillInput & Pick<Bill, 'quotationId'>, reason?: string) => {
+  await checkCreditLimit(db, bill.customerId, bill.total - bill.amountPaid);
+  const reservation = await invoiceNumbering.reserve(db);
+  for (const item of bill.items) {
+    await applyStockChange(db, item.productId, -item.quantity, `Sold on ${reservation.invoiceNumber}`);
+  }
+
+  const newBill: Bill = {
+    ...bill,
+    id: crypto.randomUUID(),
+    invoiceNumber: reservation.invoiceNumber,
+    status: 'active',
+    createdAt: new Date().toISOString(),
+  };
+  await putAudited(db, 'bills', newBill, reason);
+  await reservation.commit();
+  return newBill;
 };
 
 // Bill operations
-export const billStorage = {
-  getAll: (): Bill[] => storage.get<Bill>(STORAGE_KEYS.BILLS),
-  save: (bills: Bill[]) => storage.set(STORAGE_KEYS.BILLS, bills),
-  getNextInvoiceNumber: (): string => {
-    const counter = localStorage.getItem(STORAGE_KEYS.INVOICE_COUNTER);
-    const nextNumber = counter ? parseInt(counter) + 1 : 1001;
-    localStorage.setItem(STORAGE_KEYS.INVOICE_COUNTER, nextNumber.toString());
-    return `INV-${nextNumber}`;
+export const billStorage: BillRepository = {
+  getAll: async () => readable('bills', await backend.getAll('bills')),
+  save: (bills, reason) => transaction(db => replaceAllAudited(db, 'bills', bills, reason)),
+  getById: async (id) => {
+    const bill = await backend.get('bills', id);
+    return (bill && readable('bills', [bill])[0]) || null;
   },
-  add: (bill: Omit<Bill, 'id' | 'invoiceNumber' | 'createdAt'>): Bill | null => {
-    // Validate stock availability
-    for (const item of bill.items) {
-      const product = productStorage.getAll().find(p => p.id === item.productId);
-      if (!product || product.stock < item.quantity) {
-        return null; // Stock insufficient
+  previewInvoiceNumber: () => invoiceNumbering.preview(backend),
+  // Stock deduction, numbering and the bill itself commit together or not at all
+  add: (bill, reason) => transaction(db => addBill(db, bill, reason)).catch(orOnStockError(null)),
+  // The stock difference, the edited bill and the copy of what it replaced commit together
+  revise: (id, edited, reason) =>
+    transaction(async db => {
+      const bill = await db.get('bills', id);
+      if (!bill || !isLive(bill)) {
+        throw new ValidationError('bill', [{ path: '', message: 'This bill has been deleted' }]);
       }
-    }
-    
-    // Deduct stock
-    for (const item of bill.items) {
-      const success = productStorage.updateStock(item.productId, -item.quantity);
-      if (!success) return null;
-    }
-    
-    const bills = billStorage.getAll();
-    const newBill: Bill = {
-      ...bill,
-      id: crypto.randomUUID(),
-      invoiceNumber: billStorage.getNextInvoiceNumber(),
-      createdAt: new Date().toISOString(),
-    };
-    bills.push(newBill);
-    billStorage.save(bills);
-    return newBill;
-  },
-  update: (id: string, updates: Partial<Bill>) => {
-    const bills = billStorage.getAll();
-    const index = bills.findIndex(b => b.id === id);
-    if (index !== -1) {
-      bills[index] = { ...bills[index], ...updates };
-      billStorage.save(bills);
-    }
-  },
-  delete: (id: string) => {
-    // Restore stock when deleting bill
-    const bills = billStorage.getAll();
-    const bill = bills.find(b => b.id === id);
-    if (bill) {
+      if (bill.status === 'cancelled') {
+        throw new ValidationError('bill', [{ path: '', message: 'Cancelled bills cannot be edited' }]);
+      }
+      if (bill.returnedAmount) {
+        throw new ValidationError('bill', [{ path: '', message: 'Bills with credit notes against them cannot be edited' }]);
+      }
+
+      // Payments received on receipts after the sale stay with the bill
+      const received = bill.payments.filter(p => p.receiptId);
+      const receivedPaise = sumPaise(received.map(p => toPaise(p.amount)));
+      if (received.length > 0 && edited.customerId !== bill.customerId) {
+        throw new ValidationError('bill', [
+          { path: 'customerId', message: 'The customer cannot change once a receipt has been recorded against the bill' },
+        ]);
+      }
+      const amountPaid = fromPaise(toPaise(edited.amountPaid) + receivedPaise);
+      if (toPaise(amountPaid) > toPaise(edited.total)) {
+        throw new ValidationError('bill', [
+          { path: 'total', message: `The total cannot be less than the ${formatRupees(fromPaise(receivedPaise))} already received` },
+        ]);
+      }
+      const owedBefore = edited.customerId === bill.customerId ? balanceDue(bill) : 0;
+      await checkCreditLimit(db, edited.customerId, edited.total - amountPaid - owedBefore);
+
+      for (const [productId, quantity] of stockReturned(bill.items, edited.items)) {
+        if (quantity === 0) continue;
+        // As on delete, products removed since are skipped when stock would go back
+        const product = await db.get('products', productId);
+        if (quantity > 0 && (!product || !isLive(product))) continue;
+        await applyStockChange(db, productId, quantity, `Edited ${bill.invoiceNumber}`);
+      }
+
+      const now = new Date().toISOString();
+      const { revisions = [], ...previous } = bill;
+      const revised: Bill = {
+        ...edited,
+        payments: [...edited.payments.filter(p => !p.receiptId), ...received],
+        amountPaid,
+        paymentStatus: paymentStatusFor(edited.total, amountPaid),
+        id: bill.id,
+        invoiceNumber: bill.invoiceNumber,
+        status: bill.status,
+        createdAt: bill.createdAt,
+        updatedAt: now,
+        revisions: [...revisions, { ...previous, revisedAt: now, ...(reason && { reason }) }],
+      };
+      await putAudited(db, 'bills', revised, reason);
+      return revised;
+    }).catch(orOnStockError(null)),
+  update: (id, updates, reason) =>
+    transaction(async db => {
+      const bill = await db.get('bills', id);
+      if (bill && isLive(bill)) {
+        await putAudited(db, 'bills', { ...bill, ...updates }, reason);
+      }
+    }),
+  cancel: (id, reason) =>
+    transaction(async db => {
+      const bill = await db.get('bills', id);
+      if (!bill || !isLive(bill) || bill.status === 'cancelled') return;
+      if (!reason.trim()) {
+        throw new ValidationError('bill', [{ path: 'cancelReason', message: 'A reason is required to cancel a bill' }]);
+      }
+      // Returned goods are already back in stock, and receipts would be left paying for nothing
+      if (bill.returnedAmount) {
+        throw new ValidationError('bill', [{ path: '', message: 'Bills with credit notes against them cannot be cancelled' }]);
+      }
+      if (bill.payments.some(p => p.receiptId)) {
+        throw new ValidationError('bill', [{ path: '', message: 'Bills with receipts recorded against them cannot be cancelled' }]);
+      }
+
+      // Restore stock; products removed since are skipped
       for (const item of bill.items) {
-        productStorage.updateStock(item.productId, item.quantity);
+        const product = await db.get('products', item.productId);
+        if (product && isLive(product)) {
+          await applyStockChange(db, item.productId, item.quantity, `Returned from cancelled ${bill.invoiceNumber}`);
+        }
       }
-    }
-    const updatedBills = bills.filter(b => b.id !== id);
-    billStorage.save(updatedBills);
+      await putAudited(
+        db,
+        'bills',
+        {
+          ...bill,
+          status: 'cancelled',
+          cancelledAt: new Date().toISOString(),
+          cancelledBy: getAuditUser(),
+          cancelReason: reason.trim(),
+        },
+        reason.trim()
+      );
+    }),
+  getByCustomer: async (customerId) =>
+    readable('bills', await backend.query('bills', 'customerId', { lower: customerId, upper: customerId })),
+  getByDateRange: async (from, to) =>
+    readable('bills', await backend.query('bills', 'createdAt', { lower: from?.toISOString(), upper: to?.toISOString() })),
+  // Only deleted bills have a `deletedAt` key, so the index holds just the bin
+  count: async () => (await backend.count('bills')) - (await backend.query('bills', 'deletedAt', {})).length,
+};
+
+// Receipts for payments customers make against what they owe
+export const receiptStorage: ReceiptRepository = {
+  getAll: async () => readable('receipts', await backend.getAll('receipts')),
+  getByCustomer: async (customerId) =>
+    readable('receipts', await backend.query('receipts', 'customerId', { lower: customerId, upper: customerId })),
+  // The receipt and the payments it adds to each bill commit together
+  add: (receipt, reason) =>
+    transaction(async db => {
+      const customer = await db.get('customers', receipt.customerId);
+      const bills = await liveBillsOf(db, receipt.customerId);
+      const outstanding = outstandingBalance(bills);
+      if (toPaise(receipt.amount) > toPaise(outstanding)) {
+        throw new ValidationError('receipt', [
+          { path: 'amount', message: `Amount is more than the ${formatRupees(outstanding)} outstanding` },
+        ]);
+      }
+
+      const reservation = await invoiceNumbering.reserve(db, 'receipt');
+      const newReceipt: Receipt = {
+        ...receipt,
+        id: crypto.randomUUID(),
+        receiptNumber: reservation.invoiceNumber,
+        customerName: customer?.name ?? '',
+        allocations: allocateReceipt(bills, receipt.amount),
+        createdAt: new Date().toISOString(),
+      };
+
+      const label = `Payment received on ${newReceipt.receiptNumber}`;
+      for (const allocation of newReceipt.allocations) {
+        const bill = bills.find(b => b.id === allocation.billId)!;
+        const amountPaid = fromPaise(toPaise(bill.amountPaid) + toPaise(allocation.amount));
+        const payment: Payment = {
+          mode: receipt.mode,
+          amount: allocation.amount,
+          reference: receipt.reference,
+          receivedAt: newReceipt.createdAt,
+          receiptId: newReceipt.id,
+        };
+        await putAudited(
+          db,
+          'bills',
+          { ...bill, payments: [...bill.payments, payment], amountPaid, paymentStatus: paymentStatusFor(netTotal(bill), amountPaid) },
+          reason ?? label
+        );
+      }
+      await putAudited(db, 'receipts', newReceipt, reason);
+      await reservation.commit();
+      return newReceipt;
+    }),
+};
+
+// Credit notes for goods customers bring back
+export const creditNoteStorage: CreditNoteRepository = {
+  getByBill: async (billId) =>
+    readable('creditNotes', await backend.query('creditNotes', 'billId', { lower: billId, upper: billId })),
+  getByCustomer: async (customerId) =>
+    readable('creditNotes', await backend.query('creditNotes', 'customerId', { lower: customerId, upper: customerId })),
+  getByDateRange: async (from, to) =>
+    readable('creditNotes', await backend.query('creditNotes', 'createdAt', { lower: from?.toISOString(), upper: to?.toISOString() })),
+  // Restocking, the credit note and the refund or account credit on the bill commit together
+  add: (billId, request, reason) =>
+    transaction(async db => {
+      const bill = await db.get('bills', billId);
+      if (!bill || !isLive(bill)) {
+        throw new ValidationError('credit note', [{ path: '', message: 'This bill has been deleted' }]);
+      }
+      if (bill.status === 'cancelled') {
+        throw new ValidationError('credit note', [{ path: '', message: 'Nothing can be returned on a cancelled bill' }]);
+      }
+      const earlier = live(await db.query('creditNotes', 'billId', { lower: billId, upper: billId }));
+      const totals = creditNoteFor(bill, earlier, request.lines);
+      const refund = request.settlement === 'refund';
+      if (refund && toPaise(totals.total) > toPaise(bill.amountPaid)) {
+        throw new ValidationError('credit note', [
+          { path: 'settlement', message: `Only ${formatRupees(bill.amountPaid)} was paid on ${bill.invoiceNumber}; credit the account instead` },
+        ]);
+      }
+      if (!refund && toPaise(totals.total) > toPaise(balanceDue(bill))) {
+        throw new ValidationError('credit note', [
+          { path: 'settlement', message: `Only ${formatRupees(balanceDue(bill))} is owed on ${bill.invoiceNumber}; refund the return instead` },
+        ]);
+      }
+
+      const reservation = await invoiceNumbering.reserve(db, 'creditNote');
+      const creditNote: CreditNote = {
+        ...totals,
+        id: crypto.randomUUID(),
+        creditNoteNumber: reservation.invoiceNumber,
+        billId,
+        invoiceNumber: bill.invoiceNumber,
+        customerId: bill.customerId,
+        customerName: bill.customerName,
+        settlement: request.settlement,
+        ...(refund && { refundMode: request.refundMode }),
+        reason: request.reason.trim(),
+        createdAt: new Date().toISOString(),
+      };
+
+      const label = `Returned on ${creditNote.creditNoteNumber}`;
+      for (const item of creditNote.items) {
+        // As on delete, products removed since are skipped
+        const product = await db.get('products', item.productId);
+        if (!product || !isLive(product)) continue;
+        if (item.damaged) {
+          await putAudited(db, 'products', { ...product, damagedStock: (product.damagedStock ?? 0) + item.quantity }, label);
+        } else {
+          await applyStockChange(db, item.productId, item.quantity, label);
+        }
+      }
+
+      const returnedAmount = fromPaise(toPaise(bill.returnedAmount ?? 0) + toPaise(creditNote.total));
+      const amountPaid = refund ? fromPaise(toPaise(bill.amountPaid) - toPaise(creditNote.total)) : bill.amountPaid;
+      const payments: Payment[] = refund
+        ? [
+            ...bill.payments,
+            {
+              mode: request.refundMode ?? 'cash',
+              amount: -creditNote.total,
+              reference: creditNote.creditNoteNumber,
+              receivedAt: creditNote.createdAt,
+              creditNoteId: creditNote.id,
+            },
+          ]
+        : bill.payments;
+      await putAudited(
+        db,
+        'bills',
+        {
+          ...bill,
+          payments,
+          amountPaid,
+          returnedAmount,
+          paymentStatus: paymentStatusFor(netTotal({ total: bill.total, returnedAmount }), amountPaid),
+        },
+        reason ?? label
+      );
+      await putAudited(db, 'creditNotes', creditNote, reason);
+      await reservation.commit();
+      return creditNote;
+    }),
+};
+
+// Quotations; saving one takes a number but no stock
+export const quotationStorage: QuotationRepository = {
+  getAll: async () => readable('quotations', await backend.getAll('quotations')),
+  getById: async (id) => {
+    const quotation = await backend.get('quotations', id);
+    return (quotation && readable('quotations', [quotation])[0]) || null;
   },
-  getByCustomer: (customerId: string): Bill[] => {
-    return billStorage.getAll().filter(b => b.customerId === customerId);
+  previewNumber: () => invoiceNumbering.preview(backend, 'quotation'),
+  add: (quotation, reason) =>
+    transaction(async db => {
+      const reservation = await invoiceNumbering.reserve(db, 'quotation');
+      const newQuotation: Quotation = {
+        ...quotation,
+        id: crypto.randomUUID(),
+        quotationNumber: reservation.invoiceNumber,
+        createdAt: new Date().toISOString(),
+      };
+      await putAudited(db, 'quotations', newQuotation, reason);
+      await reservation.commit();
+      return newQuotation;
+    }),
+  // Stock is checked and deducted now, as for any sale; the bill and the link back commit together
+  convert: (id, bill, reason) =>
+    transaction(async db => {
+      const quotation = await db.get('quotations', id);
+      if (!quotation || !isLive(quotation)) {
+        throw new ValidationError('quotation', [{ path: '', message: 'This quotation has been deleted' }]);
+      }
+      const status = quotationStatus(quotation);
+      if (status === 'converted') {
+        throw new ValidationError('quotation', [
+          { path: '', message: `${quotation.quotationNumber} was already converted into ${quotation.invoiceNumber}` },
+        ]);
+      }
+      if (status === 'expired') {
+        throw new ValidationError('quotation', [
+          { path: 'validUntil', message: `${quotation.quotationNumber} expired on ${quotation.validUntil}; save a new quotation` },
+        ]);
+      }
+
+      const label = reason ?? `Converted from ${quotation.quotationNumber}`;
+      const newBill = await addBill(db, { ...bill, quotationId: id }, label);
+      await putAudited(
+        db,
+        'quotations',
+        { ...quotation, billId: newBill.id, invoiceNumber: newBill.invoiceNumber, convertedAt: newBill.createdAt },
+        label
+      );
+      return newBill;
+    }).catch(orOnStockError(null)),
+  delete: (id, reason) => transaction(db => softDeleteAudited(db, 'quotations', id, reason)),
+};
+
+// Raised when a record cannot come back out of the Recycle Bin
+export class RecycleBinError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecycleBinError';
+  }
+}
+
+const RECYCLABLE_TABLES: RecyclableTable[] = ['products', 'customers', 'bills'];
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Recycle Bin
+export const recycleBinStorage: RecycleBinRepository = {
+  getAll: async () => {
+    const items = await Promise.all(
+      RECYCLABLE_TABLES.map(async table =>
+        (await backend.query(table, 'deletedAt', {})).map(record => ({ table, record }) as RecycledItem)
+      )
+    );
+    return items.flat();
   },
+  restore: (table, id) =>
+    transaction(async db => {
+      const deleted = await db.get(table, id);
+      if (!deleted || isLive(deleted)) return;
+      let restored: TableRecords[RecyclableTable] = { ...deleted, deletedAt: null };
+
+      if (table === 'products') {
+        const product = restored as Product;
+        const clash = live(await db.getAll('products')).find(p => sameName(p.name, product.name));
+        if (clash) throw new RecycleBinError(`A product named "${clash.name}" already exists`);
+        // A parent category that is gone now would leave the product unreachable
+        const parent = product.parentId ? await db.get('products', product.parentId) : null;
+        if (product.parentId && (!parent || !isLive(parent))) restored = { ...product, parentId: null };
+      }
+
+      if (table === 'bills') {
+        // Take back the stock that deleting the bill returned
+        const bill = restored as Bill;
+        for (const item of bill.items) {
+          const product = await db.get('products', item.productId);
+          if (!product || !isLive(product)) continue;
+          if (product.stock < item.quantity) {
+            throw new RecycleBinError(
+              `Not enough stock of ${item.productName} to restore ${bill.invoiceNumber} (${product.stock} left)`
+            );
+          }
+          await applyStockChange(db, item.productId, -item.quantity, `Sold on restored ${bill.invoiceNumber}`);
+        }
+      }
+
+      restored = checked(table, restored);
+      await db.put(table, restored);
+      await recordAudit(db, {
+        entityType: table,
+        entityId: id,
+        entityLabel: labelOf(table, restored),
+        action: 'restore',
+        before: deleted,
+        after: restored,
+      });
+    }),
+  purge: (table, id) =>
+    transaction(async db => {
+      // Removing a bill would leave a gap in the invoice numbers
+      if (table === 'bills') throw new RecycleBinError('Invoices cannot be deleted for good; cancel them instead');
+      const deleted = await db.get(table, id);
+      if (!deleted || isLive(deleted)) return;
+      await db.remove(table, id);
+      await recordAudit(db, {
+        entityType: table,
+        entityId: id,
+        entityLabel: labelOf(table, deleted),
+        action: 'purge',
+        before: deleted,
+      });
+    }),
+};
+
+// Audit log; written only through the repositories above
+export const auditStorage: AuditRepository = {
+  getByDateRange: (from, to) =>
+    backend.query('audit', 'timestamp', { lower: from?.toISOString(), upper: to?.toISOString() }),
+  getByEntity: (entityId) => backend.query('audit', 'entityId', { lower: entityId, upper: entityId }),
+};
+
+// Document number series
+export const numberSeriesStorage = {
+  getAll: (): Promise<Record<DocumentType, NumberSeries>> => invoiceNumbering.getSeries(backend),
+  save: (type: DocumentType, series: NumberSeries): Promise<void> =>
+    transaction(async db => {
+      const before = (await invoiceNumbering.getSeries(db))[type];
+      await invoiceNumbering.saveSeries(db, type, series);
+      await recordAudit(db, {
+        entityType: 'settings',
+        entityId: `number_series.${type}`,
+        entityLabel: `${DOCUMENT_TYPE_LABELS[type]} numbering`,
+        action: 'update',
+        before,
+        after: series,
+      });
+    }),
+  preview: (type: DocumentType): Promise<string> => invoiceNumbering.preview(backend, type),
+  gapReport: async (type: DocumentType): Promise<GapReport> => {
+    const series = (await invoiceNumbering.getSeries(backend))[type];
+    const documents = type === 'invoice'
+      // Bills in the Recycle Bin still used up their numbers
+      ? (await backend.getAll('bills')).map(b => ({ number: b.invoiceNumber, createdAt: b.createdAt }))
+      : type === 'receipt'
+        ? (await backend.getAll('receipts')).map(r => ({ number: r.receiptNumber, createdAt: r.createdAt }))
+        : type === 'creditNote'
+          ? (await backend.getAll('creditNotes')).map(n => ({ number: n.creditNoteNumber, createdAt: n.createdAt }))
+          : (await backend.getAll('quotations')).map(q => ({ number: q.quotationNumber, createdAt: q.createdAt }));
+    return buildGapReport(series, documents);
+  },
+};
+
+const SHOP_PROFILE_KEY = 'shop_profile';
+
+// Shop profile
+export const shopProfileStorage = {
+  get: async (): Promise<ShopProfile> => ({
+    ...DEFAULT_SHOP_PROFILE,
+    ...(await backend.getMeta<ShopProfile>(SHOP_PROFILE_KEY)),
+  }),
+  save: (profile: ShopProfile): Promise<void> =>
+    transaction(async db => {
+      const next = validate(shopProfileSchema, profile, 'shop profile');
+      const before = await db.getMeta<ShopProfile>(SHOP_PROFILE_KEY);
+      await db.setMeta(SHOP_PROFILE_KEY, next);
+      await recordAudit(db, {
+        entityType: 'settings',
+        entityId: SHOP_PROFILE_KEY,
+        entityLabel: 'Shop profile',
+        action: before ? 'update' : 'create',
+        before: before ?? undefined,
+        after: next,
+      });
+    }),
 };
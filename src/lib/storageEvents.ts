@@ -0,0 +1,79 @@
+import type { StorageBackend, TableName } from './backends/types';
+
+const CHANNEL_NAME = 'aos-billing-changes';
+const LEGACY_KEY_PREFIX = 'billing_';
+
+type ChangeListener = (tables: TableName[]) => void;
+
+const listeners = new Set<ChangeListener>();
+const pending = new Set<TableName>();
+let channel: BroadcastChannel | null = null;
+let flushScheduled = false;
+
+const emit = (tables: TableName[]) => {
+  listeners.forEach(listener => listener(tables));
+};
+
+const getChannel = () => {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<TableName[]>) => emit(event.data);
+  }
+  return channel;
+};
+
+// The localStorage backend also reaches other tabs through `storage` events
+const handleStorageEvent = (event: StorageEvent) => {
+  if (!event.key?.startsWith(LEGACY_KEY_PREFIX)) return;
+  emit([event.key.slice(LEGACY_KEY_PREFIX.length) as TableName]);
+};
+
+/**
+ * Report that tables changed. Bursts of writes (a bill and its stock updates)
+ * are coalesced into one event for this tab and one broadcast to the others.
+ */
+export const notifyChange = (tables: TableName[]) => {
+  tables.forEach(table => pending.add(table));
+  if (flushScheduled) return;
+  flushScheduled = true;
+  setTimeout(() => {
+    flushScheduled = false;
+    const changed = [...pending];
+    pending.clear();
+    emit(changed);
+    getChannel()?.postMessage(changed);
+  }, 0);
+};
+
+export const subscribeToChanges = (listener: ChangeListener): (() => void) => {
+  if (listeners.size === 0) {
+    getChannel();
+    window.addEventListener('storage', handleStorageEvent);
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      window.removeEventListener('storage', handleStorageEvent);
+    }
+  };
+};
+
+/**
+ * Wrap a backend so every write announces the table it touched.
+ */
+export const withChangeEvents = (backend: StorageBackend): StorageBackend => ({
+  ...backend,
+  put: async (table, record) => {
+    await backend.put(table, record);
+    notifyChange([table]);
+  },
+  replaceAll: async (table, records) => {
+    await backend.replaceAll(table, records);
+    notifyChange([table]);
+  },
+  remove: async (table, id) => {
+    await backend.remove(table, id);
+    notifyChange([table]);
+  },
+});
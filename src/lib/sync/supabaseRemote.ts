@@ -0,0 +1,344 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import type { Bill, BillItem, CreditNote, Customer, Product, Quotation, Receipt } from '../storage';
+import type { TableRecords } from '../backends/types';
+import { RemoteRejectedError, type PullResult, type RemoteStore, type SyncCursor, type SyncedTable } from './syncEngine';
+
+type Row = Record<string, unknown>;
+
+// Postgres table behind each local table; remote names are snake_case
+const REMOTE_TABLES = {
+  products: 'products',
+  customers: 'customers',
+  bills: 'bills',
+  receipts: 'receipts',
+  creditNotes: 'credit_notes',
+  quotations: 'quotations',
+} as const satisfies Record<SyncedTable, keyof Database['public']['Tables']>;
+type BillRow = Tables<'bills'> & { bill_items: Tables<'bill_items'>[] };
+
+// Local fields with a dedicated column; anything else is kept in `extra`
+const PRODUCT_FIELDS = ['id', 'name', 'parentId', 'price', 'stock', 'minStock', 'unit', 'createdAt'];
+const CUSTOMER_FIELDS = ['id', 'name', 'phone', 'address', 'createdAt'];
+const BILL_FIELDS = [
+  'id', 'invoiceNumber', 'customerId', 'customerName', 'items', 'subtotal',
+  'discount', 'gstPercent', 'gstAmount', 'total', 'createdAt',
+];
+const BILL_ITEM_FIELDS = ['productId', 'productName', 'quantity', 'price', 'total'];
+const RECEIPT_FIELDS = [
+  'id', 'receiptNumber', 'customerId', 'customerName', 'amount', 'mode', 'allocations', 'createdAt',
+];
+const CREDIT_NOTE_FIELDS = [
+  'id', 'creditNoteNumber', 'billId', 'invoiceNumber', 'customerId', 'customerName', 'items',
+  'taxable', 'gstAmount', 'taxBreakup', 'total', 'settlement', 'createdAt',
+];
+const QUOTATION_FIELDS = [
+  'id', 'quotationNumber', 'customerId', 'customerName', 'items', 'subtotal', 'discount',
+  'gstAmount', 'taxBreakup', 'total', 'validUntil', 'billId', 'createdAt',
+];
+
+const extraFields = (record: object, mapped: string[]): Json =>
+  Object.fromEntries(Object.entries(record).filter(([key]) => !mapped.includes(key))) as Json;
+
+// Fields without a column of their own (e.g. hsnCode, gstRate) come from `extra`
+const withExtra = <T>(record: Partial<T>, extra: Json): T =>
+  ({
+    ...(extra && typeof extra === 'object' && !Array.isArray(extra) ? extra : {}),
+    ...record,
+  }) as T;
+
+const toNumber = (value: unknown) => Number(value ?? 0);
+
+const productToRow = (p: Product): TablesInsert<'products'> => ({
+  id: p.id,
+  name: p.name,
+  parent_id: p.parentId,
+  price: p.price,
+  stock: p.stock,
+  min_stock: p.minStock,
+  unit: p.unit,
+  created_at: p.createdAt,
+  deleted_at: null,
+  extra: extraFields(p, PRODUCT_FIELDS),
+});
+
+const rowToProduct = (row: Tables<'products'>): Product =>
+  withExtra<Product>({
+    id: row.id,
+    name: row.name,
+    parentId: row.parent_id,
+    price: toNumber(row.price),
+    stock: toNumber(row.stock),
+    minStock: toNumber(row.min_stock),
+    unit: row.unit,
+    createdAt: row.created_at,
+  }, row.extra);
+
+const customerToRow = (c: Customer): TablesInsert<'customers'> => ({
+  id: c.id,
+  name: c.name,
+  phone: c.phone,
+  address: c.address,
+  created_at: c.createdAt,
+  deleted_at: null,
+  extra: extraFields(c, CUSTOMER_FIELDS),
+});
+
+const rowToCustomer = (row: Tables<'customers'>): Customer =>
+  withExtra<Customer>({
+    id: row.id,
+    name: row.name,
+    phone: row.phone,
+    address: row.address,
+    createdAt: row.created_at,
+  }, row.extra);
+
+const billToRow = (b: Bill): TablesInsert<'bills'> => ({
+  id: b.id,
+  invoice_number: b.invoiceNumber,
+  customer_id: b.customerId,
+  customer_name: b.customerName,
+  subtotal: b.subtotal,
+  discount: b.discount,
+  gst_percent: b.gstPercent,
+  gst_amount: b.gstAmount,
+  total: b.total,
+  created_at: b.createdAt,
+  deleted_at: null,
+  extra: extraFields(b, BILL_FIELDS),
+});
+
+const billItemToRow = (billId: string, item: BillItem, lineNo: number): TablesInsert<'bill_items'> => ({
+  bill_id: billId,
+  line_no: lineNo,
+  product_id: item.productId,
+  product_name: item.productName,
+  quantity: item.quantity,
+  price: item.price,
+  total: item.total,
+  extra: extraFields(item, BILL_ITEM_FIELDS),
+});
+
+const rowToBill = (row: BillRow): Bill =>
+  withExtra<Bill>({
+    id: row.id,
+    invoiceNumber: row.invoice_number,
+    customerId: row.customer_id,
+    customerName: row.customer_name,
+    items: [...(row.bill_items || [])]
+      .sort((a, b) => a.line_no - b.line_no)
+      .map(item => withExtra<BillItem>({
+        productId: item.product_id,
+        productName: item.product_name,
+        quantity: toNumber(item.quantity),
+        price: toNumber(item.price),
+        total: toNumber(item.total),
+      }, item.extra)),
+    subtotal: toNumber(row.subtotal),
+    discount: toNumber(row.discount),
+    gstPercent: toNumber(row.gst_percent),
+    gstAmount: toNumber(row.gst_amount),
+    total: toNumber(row.total),
+    createdAt: row.created_at,
+  }, row.extra);
+
+const receiptToRow = (r: Receipt): TablesInsert<'receipts'> => ({
+  id: r.id,
+  receipt_number: r.receiptNumber,
+  customer_id: r.customerId,
+  customer_name: r.customerName,
+  amount: r.amount,
+  mode: r.mode,
+  allocations: r.allocations as unknown as Json,
+  created_at: r.createdAt,
+  deleted_at: null,
+  extra: extraFields(r, RECEIPT_FIELDS),
+});
+
+const rowToReceipt = (row: Tables<'receipts'>): Receipt =>
+  withExtra<Receipt>({
+    id: row.id,
+    receiptNumber: row.receipt_number,
+    customerId: row.customer_id,
+    customerName: row.customer_name,
+    amount: toNumber(row.amount),
+    mode: row.mode as Receipt['mode'],
+    allocations: (row.allocations || []) as unknown as Receipt['allocations'],
+    createdAt: row.created_at,
+  }, row.extra);
+
+const creditNoteToRow = (n: CreditNote): TablesInsert<'credit_notes'> => ({
+  id: n.id,
+  credit_note_number: n.creditNoteNumber,
+  bill_id: n.billId,
+  invoice_number: n.invoiceNumber,
+  customer_id: n.customerId,
+  customer_name: n.customerName,
+  items: n.items as unknown as Json,
+  taxable: n.taxable,
+  gst_amount: n.gstAmount,
+  tax_breakup: n.taxBreakup as unknown as Json,
+  total: n.total,
+  settlement: n.settlement,
+  created_at: n.createdAt,
+  deleted_at: null,
+  extra: extraFields(n, CREDIT_NOTE_FIELDS),
+});
+
+const rowToCreditNote = (row: Tables<'credit_notes'>): CreditNote =>
+  withExtra<CreditNote>({
+    id: row.id,
+    creditNoteNumber: row.credit_note_number,
+    billId: row.bill_id,
+    invoiceNumber: row.invoice_number,
+    customerId: row.customer_id,
+    customerName: row.customer_name,
+    items: (row.items || []) as unknown as CreditNote['items'],
+    taxable: toNumber(row.taxable),
+    gstAmount: toNumber(row.gst_amount),
+    taxBreakup: (row.tax_breakup || []) as unknown as CreditNote['taxBreakup'],
+    total: toNumber(row.total),
+    settlement: row.settlement as CreditNote['settlement'],
+    createdAt: row.created_at,
+  }, row.extra);
+
+const quotationToRow = (q: Quotation): TablesInsert<'quotations'> => ({
+  id: q.id,
+  quotation_number: q.quotationNumber,
+  customer_id: q.customerId,
+  customer_name: q.customerName,
+  items: q.items as unknown as Json,
+  subtotal: q.subtotal,
+  discount: q.discount,
+  gst_amount: q.gstAmount,
+  tax_breakup: q.taxBreakup as unknown as Json,
+  total: q.total,
+  valid_until: q.validUntil,
+  bill_id: q.billId ?? null,
+  created_at: q.createdAt,
+  deleted_at: null,
+  extra: extraFields(q, QUOTATION_FIELDS),
+});
+
+const rowToQuotation = (row: Tables<'quotations'>): Quotation =>
+  withExtra<Quotation>({
+    id: row.id,
+    quotationNumber: row.quotation_number,
+    customerId: row.customer_id,
+    customerName: row.customer_name,
+    items: (row.items || []) as unknown as Quotation['items'],
+    subtotal: toNumber(row.subtotal),
+    discount: toNumber(row.discount),
+    gstAmount: toNumber(row.gst_amount),
+    taxBreakup: (row.tax_breakup || []) as unknown as Quotation['taxBreakup'],
+    total: toNumber(row.total),
+    validUntil: row.valid_until,
+    // Open quotations have no billId at all locally
+    ...(row.bill_id && { billId: row.bill_id }),
+    createdAt: row.created_at,
+  }, row.extra);
+
+// Filter values are quoted so the `:` and `+` of a timestamp or an odd id survive
+const quoted = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Rows strictly after the cursor in (updated_at, id) order
+const afterCursor = ({ updatedAt, id }: SyncCursor) =>
+  `updated_at.gt.${quoted(updatedAt)},and(updated_at.eq.${quoted(updatedAt)},id.gt.${quoted(id)})`;
+
+// SQLSTATE classes 22 (data exception) and 23 (constraint violation, e.g. a
+// duplicate invoice number) mean the rows themselves were refused
+const isRejection = (code: string | undefined) => /^2[23]/.test(code ?? '');
+
+const fail = (table: string, error: { message: string; code?: string } | null) => {
+  if (!error) return;
+  const message = `Sync ${table}: ${error.message}`;
+  throw isRejection(error.code) ? new RemoteRejectedError(message) : new Error(message);
+};
+
+/**
+ * RemoteStore over the Supabase tables defined in `supabase/migrations`.
+ * Pass a client pointed at `supabase start` to run against a local stack.
+ */
+export const createSupabaseRemote = (client: SupabaseClient<Database>): RemoteStore => {
+  const markDeleted = async (table: SyncedTable, ids: string[]) => {
+    if (ids.length === 0) return;
+    const { error } = await client.from(REMOTE_TABLES[table]).update({ deleted_at: new Date().toISOString() }).in('id', ids);
+    fail(table, error);
+  };
+
+  const pushRows = async <K extends SyncedTable>(
+    table: K,
+    records: TableRecords[K][],
+    stockDeltas: Record<string, number>
+  ) => {
+    if (records.length === 0) return;
+
+    if (table === 'products') {
+      // The save_products function adds each stock_delta to the stock already stored
+      const products = (records as Product[]).map(p => ({
+        ...productToRow(p),
+        ...(p.id in stockDeltas && { stock_delta: stockDeltas[p.id] }),
+      }));
+      const { error } = await client.rpc('save_products', { products: products as unknown as Json });
+      fail(table, error);
+    } else if (table === 'customers') {
+      const { error } = await client.from('customers').upsert((records as Customer[]).map(customerToRow));
+      fail(table, error);
+    } else if (table === 'receipts') {
+      const { error } = await client.from('receipts').upsert((records as Receipt[]).map(receiptToRow));
+      fail(table, error);
+    } else if (table === 'creditNotes') {
+      const { error } = await client.from('credit_notes').upsert((records as CreditNote[]).map(creditNoteToRow));
+      fail(table, error);
+    } else if (table === 'quotations') {
+      const { error } = await client.from('quotations').upsert((records as Quotation[]).map(quotationToRow));
+      fail(table, error);
+    } else {
+      // Bills and their items are written together by the save_bills function
+      const bills = (records as Bill[]).map(b => ({
+        ...billToRow(b),
+        items: b.items.map((item, i) => billItemToRow(b.id, item, i + 1)),
+      }));
+      const { error } = await client.rpc('save_bills', { bills: bills as unknown as Json });
+      fail(table, error);
+    }
+  };
+
+  return {
+    push: async (table, records, deletedIds, stockDeltas = {}) => {
+      await pushRows(table, records, stockDeltas);
+      await markDeleted(table, deletedIds);
+    },
+    pull: async <K extends SyncedTable>(table: K, since: SyncCursor | null, limit: number): Promise<PullResult<K>> => {
+      const select = table === 'bills' ? '*, bill_items(*)' : '*';
+      let query = client
+        .from(REMOTE_TABLES[table])
+        .select(select)
+        .order('updated_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(limit);
+      if (since) query = query.or(afterCursor(since));
+      const { data, error } = await query;
+      fail(table, error);
+
+      const rows = (data || []) as unknown as Row[];
+      const live = rows.filter(row => !row.deleted_at);
+      const last = rows[rows.length - 1];
+      const toRecord = {
+        products: rowToProduct,
+        customers: rowToCustomer,
+        bills: rowToBill,
+        receipts: rowToReceipt,
+        creditNotes: rowToCreditNote,
+        quotations: rowToQuotation,
+      }[table] as (row: Row) => TableRecords[K];
+
+      return {
+        records: live.map(toRecord),
+        deletedIds: rows.filter(row => row.deleted_at).map(row => String(row.id)),
+        cursor: last ? { updatedAt: String(last.updated_at), id: String(last.id) } : since,
+        hasMore: rows.length === limit,
+      };
+    },
+  };
+};
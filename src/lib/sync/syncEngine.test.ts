@@ -0,0 +1,279 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStorage } from '@/test/memoryStorage';
+import { localStorageBackend } from '../backends/localStorageBackend';
+import { createSyncedBackend } from '../backends/syncedBackend';
+import { runTransaction } from '../backends/transaction';
+import type { TableRecords } from '../backends/types';
+import { invoiceNumbering } from '../invoiceNumbering';
+import type { Product } from '../storage';
+import {
+  RemoteRejectedError,
+  SYNCED_TABLES,
+  createSyncEngine,
+  type RemoteStore,
+  type SyncCursor,
+  type SyncEngine,
+  type SyncedTable,
+} from './syncEngine';
+
+interface RemoteRow {
+  record: TableRecords[SyncedTable];
+  updatedAt: string;
+  deleted: boolean;
+}
+
+// RemoteStore over in-memory rows, stamped the way the Postgres trigger does
+const fakeRemote = (clock: () => string) => {
+  const rows = Object.fromEntries(SYNCED_TABLES.map(table => [table, new Map()])) as Record<
+    SyncedTable,
+    Map<string, RemoteRow>
+  >;
+  // `refuse` stands in for a constraint the remote enforces, such as a unique invoice number
+  const state = { failing: false, pulls: 0, refuse: (_record: TableRecords[SyncedTable]) => false };
+
+  const after = (row: RemoteRow, since: SyncCursor | null) =>
+    !since ||
+    row.updatedAt > since.updatedAt ||
+    (row.updatedAt === since.updatedAt && row.record.id > since.id);
+
+  const remote: RemoteStore = {
+    push: async (table, records, deletedIds, stockDeltas = {}) => {
+      if (state.failing) throw new Error('Failed to fetch');
+      const refused = records.find(state.refuse);
+      if (refused) throw new RemoteRejectedError(`duplicate key ${refused.id}`);
+      for (const record of records) {
+        const stored = rows[table].get(record.id)?.record as Product | undefined;
+        const stock = stored && record.id in stockDeltas ? { stock: stored.stock + stockDeltas[record.id] } : {};
+        rows[table].set(record.id, { record: { ...record, ...stock }, updatedAt: clock(), deleted: false });
+      }
+      for (const id of deletedIds) {
+        const row = rows[table].get(id);
+        if (row) rows[table].set(id, { ...row, updatedAt: clock(), deleted: true });
+      }
+    },
+    pull: async (table, since, limit) => {
+      if (state.failing) throw new Error('Failed to fetch');
+      state.pulls++;
+      const page = [...rows[table].values()]
+        .filter(row => after(row, since))
+        .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt) || a.record.id.localeCompare(b.record.id))
+        .slice(0, limit);
+      const last = page[page.length - 1];
+      return {
+        records: page.filter(row => !row.deleted).map(row => row.record) as never[],
+        deletedIds: page.filter(row => row.deleted).map(row => row.record.id),
+        cursor: last ? { updatedAt: last.updatedAt, id: last.record.id } : since,
+        hasMore: page.length === limit,
+      };
+    },
+  };
+
+  return { remote, rows, state };
+};
+
+const product = (id: string, name = `Product ${id}`): Product => ({
+  id,
+  name,
+  parentId: null,
+  price: 100,
+  stock: 10,
+  minStock: 0,
+  unit: 'pcs',
+  hsnCode: '',
+  gstRate: 0,
+  createdAt: '2025-04-01T00:00:00.000Z',
+});
+
+const local = localStorageBackend;
+let engine: SyncEngine | null = null;
+
+const startEngine = async (remote: RemoteStore) => {
+  engine = createSyncEngine(local, remote, { intervalMs: 60 * 60 * 1000 });
+  await engine.start();
+  await engine.syncNow();
+  return engine;
+};
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', new MemoryStorage());
+  vi.stubGlobal('BroadcastChannel', undefined);
+});
+
+afterEach(() => {
+  engine?.stop();
+  engine = null;
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('createSyncEngine', () => {
+  it('pushes records stored before the first start', async () => {
+    await local.put('products', product('p1'));
+    await local.put('customers', {
+      id: 'c1',
+      name: 'Ravi',
+      phone: '',
+      address: '',
+      state: '',
+      gstin: '',
+      creditLimit: null,
+      createdAt: '2025-04-01T00:00:00.000Z',
+    });
+    const { remote, rows } = fakeRemote(() => new Date().toISOString());
+
+    const sync = await startEngine(remote);
+
+    expect([...rows.products.keys()]).toEqual(['p1']);
+    expect([...rows.customers.keys()]).toEqual(['c1']);
+    expect(sync.getStatus()).toMatchObject({ state: 'idle', pending: 0 });
+  });
+
+  it('keeps the local edit over the remote copy while it is pending', async () => {
+    const { remote, rows } = fakeRemote(() => new Date().toISOString());
+    const sync = await startEngine(remote);
+    rows.products.set('p1', { record: product('p1', 'From other device'), updatedAt: new Date().toISOString(), deleted: false });
+    await sync.syncNow();
+
+    await local.put('products', product('p1', 'Edited here'));
+    await sync.track('products', 'p1', 'upsert');
+    await sync.syncNow();
+
+    expect((await local.get('products', 'p1'))?.name).toBe('Edited here');
+    expect((rows.products.get('p1')?.record as Product).name).toBe('Edited here');
+  });
+
+  it('pulls every row when more than a page share one timestamp', async () => {
+    const { remote, rows, state } = fakeRemote(() => '2025-04-01T10:00:00.000000+00:00');
+    for (let i = 1; i <= 1200; i++) {
+      const id = `p${String(i).padStart(4, '0')}`;
+      rows.products.set(id, { record: product(id), updatedAt: '2025-04-01T10:00:00.000000+00:00', deleted: false });
+    }
+
+    await startEngine(remote);
+
+    expect(await local.count('products')).toBe(1200);
+    // Three pages of products, then one for each other table
+    expect(state.pulls).toBe(3 + SYNCED_TABLES.length - 1);
+    expect(await local.getMeta('sync_cursors')).toMatchObject({
+      products: { updatedAt: '2025-04-01T10:00:00.000000+00:00', id: 'p1200' },
+    });
+  });
+
+  it('keeps queued writes through a failed sync and pushes them on retry', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { remote, rows, state } = fakeRemote(() => new Date().toISOString());
+    const sync = await startEngine(remote);
+
+    vi.stubGlobal('navigator', { onLine: false });
+    await local.put('products', product('p1'));
+    await sync.track('products', 'p1', 'upsert');
+    await sync.syncNow();
+    expect(sync.getStatus()).toMatchObject({ state: 'offline', pending: 1 });
+
+    // Back online, but the request still fails
+    vi.stubGlobal('navigator', { onLine: true });
+    state.failing = true;
+    await sync.syncNow();
+    expect(sync.getStatus()).toMatchObject({ state: 'error', pending: 1, error: 'Failed to fetch' });
+    expect(rows.products.size).toBe(0);
+
+    state.failing = false;
+    await sync.syncNow();
+    expect(sync.getStatus()).toMatchObject({ state: 'idle', pending: 0, error: null });
+    expect([...rows.products.keys()]).toEqual(['p1']);
+  });
+
+  it('sets aside a record the remote refuses and keeps syncing the rest', async () => {
+    const { remote, rows, state } = fakeRemote(() => new Date().toISOString());
+    const sync = await startEngine(remote);
+    rows.customers.set('c9', {
+      record: {
+        id: 'c9',
+        name: 'From other device',
+        phone: '',
+        address: '',
+        state: '',
+        gstin: '',
+        creditLimit: null,
+        createdAt: '2025-04-01T00:00:00.000Z',
+      },
+      updatedAt: new Date().toISOString(),
+      deleted: false,
+    });
+    state.refuse = record => record.id === 'p2';
+
+    for (const id of ['p1', 'p2', 'p3']) {
+      await local.put('products', product(id));
+      await sync.track('products', id, 'upsert');
+    }
+    await sync.syncNow();
+
+    expect([...rows.products.keys()].sort()).toEqual(['p1', 'p3']);
+    expect(await local.get('customers', 'c9')).toBeTruthy();
+    expect(sync.getStatus()).toMatchObject({ state: 'error', pending: 0, quarantined: 1 });
+
+    // Editing the record queues it again
+    state.refuse = () => false;
+    await sync.track('products', 'p2', 'upsert');
+    await sync.syncNow();
+    expect(rows.products.has('p2')).toBe(true);
+    expect(sync.getStatus()).toMatchObject({ state: 'idle', quarantined: 0, error: null });
+  });
+
+  it('gives the device a code that prefixes its document numbers', async () => {
+    const { remote } = fakeRemote(() => new Date().toISOString());
+    await startEngine(remote);
+
+    const code = await local.getMeta<string>('sync_device_code');
+    expect(code).toMatch(/^[0-9A-F]{4}$/);
+    expect(await invoiceNumbering.preview(local)).toBe(`${code}-INV-1001`);
+  });
+
+  it('applies a pulled page only once a local sale in progress has finished', async () => {
+    const { remote, rows } = fakeRemote(() => new Date().toISOString());
+    await local.put('products', product('p1'));
+    const sync = await startEngine(remote);
+    const app = createSyncedBackend(local, sync);
+    rows.products.set('p1', {
+      record: product('p1', 'Renamed elsewhere'),
+      updatedAt: new Date().toISOString(),
+      deleted: false,
+    });
+
+    let release = () => {};
+    const paid = new Promise<void>(resolve => (release = resolve));
+    const sale = runTransaction(app, async tx => {
+      const sold = (await tx.get('products', 'p1'))!;
+      await paid;
+      await tx.put('products', { ...sold, stock: sold.stock - 3 });
+    });
+    const pulling = sync.syncNow();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect((await local.get('products', 'p1'))?.name).toBe('Product p1');
+
+    release();
+    await Promise.all([sale, pulling]);
+    // The sale's edit is pending by the time the page is applied, so it is kept for the next push
+    expect(await local.get('products', 'p1')).toMatchObject({ name: 'Product p1', stock: 7 });
+    expect(sync.getStatus().pending).toBe(1);
+  });
+
+  it('pushes stock as the change since the last sync, so sales on two devices both count', async () => {
+    // Every write gets a later timestamp, as clock_timestamp() gives Postgres rows
+    let tick = 0;
+    const clock = () => new Date(Date.UTC(2025, 3, 1, 10, 0, tick++)).toISOString();
+    const { remote, rows } = fakeRemote(clock);
+    await local.put('products', product('p1'));
+    const sync = await startEngine(remote);
+
+    // Another device sells 2 while this one sells 3, both starting from 10
+    const other = rows.products.get('p1')!;
+    rows.products.set('p1', { ...other, record: { ...other.record, stock: 8 } as Product, updatedAt: clock() });
+    await local.put('products', { ...product('p1'), stock: 7 });
+    await sync.track('products', 'p1', 'upsert');
+    await sync.syncNow();
+
+    expect((rows.products.get('p1')?.record as Product).stock).toBe(5);
+    expect((await local.get('products', 'p1'))?.stock).toBe(5);
+  });
+});
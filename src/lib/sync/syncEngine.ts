@@ -0,0 +1,382 @@
+import { runTransaction } from '../backends/transaction';
+import type { StorageBackend, TableRecords } from '../backends/types';
+import { ensureDeviceCode } from '../invoiceNumbering';
+import type { Product } from '../storage';
+import { notifyChange } from '../storageEvents';
+
+// Tables mirrored to the remote; everything else stays on the device
+export const SYNCED_TABLES = ['products', 'customers', 'bills', 'receipts', 'creditNotes', 'quotations'] as const;
+export type SyncedTable = typeof SYNCED_TABLES[number];
+
+const OUTBOX_KEY = 'sync_outbox';
+const CURSOR_KEY = 'sync_cursors';
+const QUARANTINE_KEY = 'sync_quarantine';
+// Each product's stock as last agreed with the remote, by product id
+const STOCK_BASE_KEY = 'sync_stock_base';
+const PUSH_DELAY_MS = 1000;
+// Below PostgREST's default cap of 1000 rows per request
+const PULL_PAGE_SIZE = 500;
+
+/**
+ * Position just past the last pulled row. Rows written in the same instant share
+ * `updatedAt`, so the id breaks the tie.
+ */
+export interface SyncCursor {
+  updatedAt: string;
+  id: string;
+}
+
+export interface PullResult<K extends SyncedTable> {
+  records: TableRecords[K][];
+  deletedIds: string[];
+  // Pass as `since` on the next pull
+  cursor: SyncCursor | null;
+  // The page was full, so more rows may follow the cursor
+  hasMore: boolean;
+}
+
+/**
+ * Thrown by a RemoteStore when the remote refuses the data itself (a constraint
+ * or type violation), as opposed to failing to reach it. Retrying the same rows
+ * will not help, so they are set aside instead of blocking every later sync.
+ */
+export class RemoteRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RemoteRejectedError';
+  }
+}
+
+/**
+ * The remote side of the sync. `createSupabaseRemote` is the real one; tests can
+ * pass any stand-in that keeps rows in memory or in a local Postgres.
+ */
+export interface RemoteStore {
+  // For products, `stockDeltas` holds how far each product's stock moved since it last synced;
+  // the remote adds that to its own stock instead of taking the level in the record
+  push: <K extends SyncedTable>(
+    table: K,
+    records: TableRecords[K][],
+    deletedIds: string[],
+    stockDeltas?: Record<string, number>
+  ) => Promise<void>;
+  // Rows changed after `since`, ordered by (updatedAt, id), at most `limit` of them
+  pull: <K extends SyncedTable>(table: K, since: SyncCursor | null, limit: number) => Promise<PullResult<K>>;
+}
+
+interface OutboxEntry {
+  table: SyncedTable;
+  id: string;
+  op: 'upsert' | 'delete';
+  changedAt: string;
+}
+
+// An outbox entry the remote refused, kept until the record is edited again
+interface QuarantineEntry extends OutboxEntry {
+  error: string;
+}
+
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number;
+  // Records the remote refused; they stay on this device until edited
+  quarantined: number;
+  lastSyncedAt: string | null;
+  error: string | null;
+}
+
+export interface SyncEngine {
+  start: () => Promise<void>;
+  stop: () => void;
+  syncNow: () => Promise<void>;
+  track: (table: string, id: string, op: OutboxEntry['op']) => Promise<void>;
+  getStatus: () => SyncStatus;
+  subscribe: (listener: (status: SyncStatus) => void) => () => void;
+}
+
+const isSynced = (table: string): table is SyncedTable =>
+  (SYNCED_TABLES as readonly string[]).includes(table);
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+// Cursors saved before paging were a bare updated_at; an empty id takes every row at that instant
+const toCursor = (saved: SyncCursor | string | null | undefined): SyncCursor | null =>
+  typeof saved === 'string' ? { updatedAt: saved, id: '' } : saved ?? null;
+
+/**
+ * Offline-first sync: every local write is queued in an outbox kept in the local
+ * store. When the remote is reachable the outbox is pushed, then changes since
+ * the last cursor are pulled. Records with unpushed local edits are not
+ * overwritten by a pull, so the device's latest edit wins until it is pushed.
+ */
+export const createSyncEngine = (
+  local: StorageBackend,
+  remote: RemoteStore,
+  { intervalMs = 30000 }: { intervalMs?: number } = {}
+): SyncEngine => {
+  let status: SyncStatus = { state: 'idle', pending: 0, quarantined: 0, lastSyncedAt: null, error: null };
+  const listeners = new Set<(status: SyncStatus) => void>();
+  let running: Promise<void> | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let pushTimer: ReturnType<typeof setTimeout> | null = null;
+  let outboxLock: Promise<unknown> = Promise.resolve();
+
+  const setStatus = (updates: Partial<SyncStatus>) => {
+    status = { ...status, ...updates };
+    listeners.forEach(listener => listener(status));
+  };
+
+  const readOutbox = async () => (await local.getMeta<OutboxEntry[]>(OUTBOX_KEY)) || [];
+
+  const writeOutbox = async (outbox: OutboxEntry[]) => {
+    await local.setMeta(OUTBOX_KEY, outbox);
+    setStatus({ pending: outbox.length });
+  };
+
+  const readQuarantine = async () => (await local.getMeta<QuarantineEntry[]>(QUARANTINE_KEY)) || [];
+
+  const writeQuarantine = async (quarantine: QuarantineEntry[]) => {
+    await local.setMeta(QUARANTINE_KEY, quarantine);
+    setStatus({ quarantined: quarantine.length });
+  };
+
+  // Outbox read-modify-writes run one at a time so concurrent writes are not lost
+  const updateOutbox = <T>(fn: (outbox: OutboxEntry[]) => Promise<T>): Promise<T> => {
+    const next = outboxLock.then(async () => fn(await readOutbox()));
+    outboxLock = next.catch(() => undefined);
+    return next;
+  };
+
+  const readStockBase = async (db: StorageBackend) =>
+    (await db.getMeta<Record<string, number>>(STOCK_BASE_KEY)) || {};
+
+  const pushEntries = async (table: SyncedTable, entries: OutboxEntry[]) => {
+    const upserts = (
+      await Promise.all(entries.filter(e => e.op === 'upsert').map(e => local.get(table, e.id)))
+    ).filter(Boolean);
+    const deletedIds = entries.filter(e => e.op === 'delete').map(e => e.id);
+    const products = table === 'products' ? (upserts as Product[]) : [];
+
+    // Stock goes up as the change since the last agreed level, so sales on two devices both count
+    const base = await readStockBase(local);
+    const stockDeltas = Object.fromEntries(
+      products.filter(p => p.id in base).map(p => [p.id, Math.round((p.stock - base[p.id]) * 1000) / 1000])
+    );
+    await remote.push(table, upserts, deletedIds, table === 'products' ? stockDeltas : undefined);
+    if (table !== 'products') return;
+
+    // What was pushed is now agreed; the pull that follows brings in other devices' moves
+    await runTransaction(local, async tx => {
+      const agreed = await readStockBase(tx);
+      for (const p of products) agreed[p.id] = p.stock;
+      for (const id of deletedIds) delete agreed[id];
+      await tx.setMeta(STOCK_BASE_KEY, agreed);
+    });
+  };
+
+  /**
+   * Push one table's entries. If the remote refuses the batch, each entry is
+   * pushed on its own so the rows it accepts still go through; the entries it
+   * refuses are returned to be quarantined. Failing to reach the remote still
+   * throws, ending the run.
+   */
+  const pushTable = async (table: SyncedTable, entries: OutboxEntry[]): Promise<QuarantineEntry[]> => {
+    try {
+      await pushEntries(table, entries);
+      return [];
+    } catch (error) {
+      if (!(error instanceof RemoteRejectedError)) throw error;
+    }
+    const rejected: QuarantineEntry[] = [];
+    for (const entry of entries) {
+      try {
+        await pushEntries(table, [entry]);
+      } catch (error) {
+        if (!(error instanceof RemoteRejectedError)) throw error;
+        rejected.push({ ...entry, error: error.message });
+      }
+    }
+    return rejected;
+  };
+
+  const push = async () => {
+    const outbox = await readOutbox();
+    const rejected: QuarantineEntry[] = [];
+    for (const table of SYNCED_TABLES) {
+      const entries = outbox.filter(e => e.table === table);
+      if (entries.length > 0) rejected.push(...(await pushTable(table, entries)));
+    }
+
+    // Keep entries written while the push was in flight
+    const pushed = new Set(outbox.map(e => `${e.table}:${e.id}:${e.changedAt}`));
+    return updateOutbox(async current => {
+      const remaining = current.filter(e => !pushed.has(`${e.table}:${e.id}:${e.changedAt}`));
+      await writeOutbox(remaining);
+      if (rejected.length > 0) {
+        const refused = new Set(rejected.map(e => `${e.table}:${e.id}`));
+        const quarantine = (await readQuarantine()).filter(e => !refused.has(`${e.table}:${e.id}`));
+        await writeQuarantine([...quarantine, ...rejected]);
+      }
+    });
+  };
+
+  const pull = async () => {
+    const saved = (await local.getMeta<Record<string, SyncCursor | string | null>>(CURSOR_KEY)) || {};
+    const cursors: Record<string, SyncCursor | null> = {};
+    for (const table of SYNCED_TABLES) cursors[table] = toCursor(saved[table]);
+
+    for (const table of SYNCED_TABLES) {
+      let changed = false;
+      let hasMore = true;
+      while (hasMore) {
+        const result = await remote.pull(table, cursors[table], PULL_PAGE_SIZE);
+        // Applied under the storage lock, so a page never lands in the middle of a local sale's
+        // read-modify-write, and the outbox read here already has that sale's edits
+        await runTransaction(local, async tx => {
+          // Refused records are local edits too, so they are not overwritten either
+          const held = [...(await readOutbox()), ...(await readQuarantine())];
+          const isPending = (id: string) => held.some(e => e.table === table && e.id === id);
+          const base = await readStockBase(tx);
+          for (const record of result.records) {
+            if (isPending(record.id)) continue;
+            await tx.put(table, record);
+            if (table === 'products') base[record.id] = (record as Product).stock;
+            changed = true;
+          }
+          for (const id of result.deletedIds) {
+            if (isPending(id)) continue;
+            await tx.remove(table, id);
+            delete base[id];
+            changed = true;
+          }
+          if (table === 'products') await tx.setMeta(STOCK_BASE_KEY, base);
+          cursors[table] = result.cursor;
+          // Saved with every page so an interrupted pull resumes where it stopped
+          await tx.setMeta(CURSOR_KEY, cursors);
+        });
+        hasMore = result.hasMore;
+      }
+      if (changed) notifyChange([table]);
+    }
+  };
+
+  const run = async () => {
+    if (!isOnline()) {
+      setStatus({ state: 'offline' });
+      return;
+    }
+    setStatus({ state: 'syncing', error: null });
+    try {
+      await push();
+      await pull();
+      const quarantine = await readQuarantine();
+      setStatus({
+        state: quarantine.length > 0 ? 'error' : 'idle',
+        lastSyncedAt: new Date().toISOString(),
+        quarantined: quarantine.length,
+        error: quarantine.length > 0
+          ? `${quarantine.length} record(s) refused by the server: ${quarantine[0].error}`
+          : null,
+      });
+    } catch (error) {
+      console.error('Sync failed:', error);
+      setStatus({
+        state: isOnline() ? 'error' : 'offline',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  const syncNow = () => {
+    if (!running) {
+      running = run().finally(() => {
+        running = null;
+      });
+    }
+    return running;
+  };
+
+  const handleOnline = () => {
+    syncNow();
+  };
+
+  // Queue everything already stored in tables this device has never pulled: all of
+  // them on the first start, or a table added to SYNCED_TABLES since
+  const seedOutbox = async () => {
+    const cursors = (await local.getMeta<Record<string, unknown>>(CURSOR_KEY)) || {};
+    const unsynced = SYNCED_TABLES.filter(table => !(table in cursors));
+    if (unsynced.length === 0) return;
+    await updateOutbox(async outbox => {
+      const queued = new Set(outbox.map(e => `${e.table}:${e.id}`));
+      const changedAt = new Date().toISOString();
+      for (const table of unsynced) {
+        for (const record of await local.getAll(table)) {
+          if (!queued.has(`${table}:${record.id}`)) outbox.push({ table, id: record.id, op: 'upsert', changedAt });
+        }
+      }
+      await writeOutbox(outbox);
+    });
+  };
+
+  return {
+    start: async () => {
+      // Numbers issued on this device carry its code, so devices numbering offline never clash
+      await ensureDeviceCode(local);
+      await seedOutbox();
+      setStatus({ pending: (await readOutbox()).length, quarantined: (await readQuarantine()).length });
+      if (typeof window !== 'undefined') {
+        window.addEventListener('online', handleOnline);
+      }
+      timer = setInterval(syncNow, intervalMs);
+      syncNow();
+    },
+    stop: () => {
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('online', handleOnline);
+      }
+      if (timer) clearInterval(timer);
+      if (pushTimer) clearTimeout(pushTimer);
+      timer = null;
+      pushTimer = null;
+    },
+    syncNow,
+    track: async (table, id, op) => {
+      if (!isSynced(table)) return;
+      await updateOutbox(async current => {
+        const outbox = current.filter(e => !(e.table === table && e.id === id));
+        outbox.push({ table, id, op, changedAt: new Date().toISOString() });
+        await writeOutbox(outbox);
+        // The new edit may be what the remote wanted, so it is tried again
+        const quarantine = await readQuarantine();
+        if (quarantine.some(e => e.table === table && e.id === id)) {
+          await writeQuarantine(quarantine.filter(e => !(e.table === table && e.id === id)));
+        }
+      });
+
+      // Batch bursts of writes (e.g. a bill plus its stock updates) into one push
+      if (pushTimer) clearTimeout(pushTimer);
+      pushTimer = setTimeout(() => {
+        pushTimer = null;
+        syncNow();
+      }, PUSH_DELAY_MS);
+    },
+    getStatus: () => status,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+// Engine behind the active backend, if that backend syncs
+let activeEngine: SyncEngine | null = null;
+
+export const getSyncEngine = (): SyncEngine | null => activeEngine;
+
+export const setSyncEngine = (engine: SyncEngine | null) => {
+  activeEngine = engine;
+};
@@ -1,5 +1,34 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
+import { initStorage } from "./lib/backends";
+import { startAutoBackup } from "./lib/autoBackup";
+import { MigrationError } from "./lib/migrations";
+import { MigrationFailed } from "./components/MigrationFailed";
+import { StorageUnavailable } from "./components/StorageUnavailable";
 import "./index.css";
 
-createRoot(document.getElementById("root")!).render(<App />);
+const root = createRoot(document.getElementById("root")!);
+
+// `backend` is left to initStorage's default unless the user falls back to localStorage
+const start = (backend?: string) =>
+  initStorage(backend).then(
+    () => {
+      root.render(<App />);
+      startAutoBackup();
+    },
+    (error) => {
+      if (error instanceof MigrationError) {
+        root.render(<MigrationFailed error={error} />);
+        return;
+      }
+      console.error("Storage could not be opened:", error);
+      root.render(
+        <StorageUnavailable
+          error={error}
+          onUseBrowserStorage={backend === "local" ? undefined : () => start("local")}
+        />
+      );
+    }
+  );
+
+start();
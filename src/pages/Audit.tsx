@@ -0,0 +1,284 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { auditStorage } from "@/lib/storage";
+import type { AuditAction, AuditEntityType, AuditEntry } from "@/lib/storage";
+import { describeChanges, getAuditUser, setAuditUser } from "@/lib/audit";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileDown, History, Search } from "lucide-react";
+import { toast } from "sonner";
+import { useStorageChanges } from "@/hooks/use-storage-changes";
+import * as XLSX from "xlsx";
+
+const entityLabels: Record<AuditEntityType, string> = {
+  products: "Product",
+  customers: "Customer",
+  bills: "Bill",
+  receipts: "Receipt",
+  creditNotes: "Credit Note",
+  quotations: "Quotation",
+  settings: "Settings",
+  backup: "Backup",
+};
+
+const actionLabels: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  restore: "Restored",
+  purge: "Purged",
+};
+
+const actionVariants: Record<AuditAction, "default" | "secondary" | "destructive" | "outline"> = {
+  create: "default",
+  update: "secondary",
+  delete: "destructive",
+  restore: "outline",
+  purge: "destructive",
+};
+
+export default function Audit() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [filterEntity, setFilterEntity] = useState<string>("all");
+  const [filterAction, setFilterAction] = useState<string>("all");
+  const [filterUser, setFilterUser] = useState<string>("all");
+  const [filterStartDate, setFilterStartDate] = useState<string>("");
+  const [filterEndDate, setFilterEndDate] = useState<string>("");
+  const [search, setSearch] = useState<string>("");
+  const [auditUser, setAuditUserName] = useState(getAuditUser);
+
+  // Date filters are applied by the storage index; the rest are filtered in memory
+  const loadEntries = useCallback(async () => {
+    const startDate = filterStartDate ? new Date(filterStartDate) : undefined;
+    const endDate = filterEndDate ? new Date(filterEndDate) : undefined;
+    endDate?.setHours(23, 59, 59, 999);
+    const validDate = (date?: Date) => (date && !isNaN(date.getTime()) ? date : undefined);
+
+    setEntries(await auditStorage.getByDateRange(validDate(startDate), validDate(endDate)));
+  }, [filterStartDate, filterEndDate]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  useStorageChanges(["audit"], loadEntries);
+
+  const users = useMemo(() => [...new Set(entries.map(e => e.user))].sort(), [entries]);
+
+  const filteredEntries = useMemo(() => {
+    const query = search.toLowerCase();
+    return entries.filter(entry => {
+      if (filterEntity !== "all" && entry.entityType !== filterEntity) return false;
+      if (filterAction !== "all" && entry.action !== filterAction) return false;
+      if (filterUser !== "all" && entry.user !== filterUser) return false;
+      if (
+        query &&
+        !entry.entityLabel.toLowerCase().includes(query) &&
+        !entry.entityId.toLowerCase().includes(query) &&
+        !(entry.reason || "").toLowerCase().includes(query)
+      ) {
+        return false;
+      }
+      return true;
+    }).sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }, [entries, filterEntity, filterAction, filterUser, search]);
+
+  const handleSaveUser = () => {
+    setAuditUser(auditUser);
+    setAuditUserName(getAuditUser());
+    toast.success(`Changes on this device will be recorded as ${getAuditUser()}`);
+  };
+
+  const handleExport = () => {
+    if (filteredEntries.length === 0) {
+      toast.error("No audit entries to export");
+      return;
+    }
+
+    const excelData = filteredEntries.map(entry => ({
+      'Time': new Date(entry.timestamp).toLocaleString(),
+      'User': entry.user,
+      'Action': actionLabels[entry.action],
+      'Type': entityLabels[entry.entityType],
+      'Record': entry.entityLabel,
+      'Record ID': entry.entityId,
+      'Changes': describeChanges(entry).join("\n"),
+      'Reason': entry.reason || "",
+    }));
+
+    const worksheet = XLSX.utils.json_to_sheet(excelData);
+    worksheet['!cols'] = [
+      { wch: 22 }, // Time
+      { wch: 15 }, // User
+      { wch: 10 }, // Action
+      { wch: 10 }, // Type
+      { wch: 25 }, // Record
+      { wch: 38 }, // Record ID
+      { wch: 60 }, // Changes
+      { wch: 30 }, // Reason
+    ];
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, "Audit Log");
+
+    const filename = `audit_log_${new Date().toISOString().split('T')[0]}.xlsx`;
+    XLSX.writeFile(workbook, filename);
+    toast.success(`${filteredEntries.length} entries exported to ${filename}`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight text-foreground">Audit Log</h2>
+          <p className="text-muted-foreground">Every change to products, customers, bills and settings</p>
+        </div>
+        <Button onClick={handleExport}>
+          <FileDown className="mr-2 h-4 w-4" />
+          Export to Excel
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex items-end gap-2 max-w-md">
+            <div className="flex-1">
+              <Label htmlFor="audit-user">Record my changes as</Label>
+              <Input
+                id="audit-user"
+                value={auditUser}
+                onChange={(e) => setAuditUserName(e.target.value)}
+                placeholder="Your name"
+              />
+            </div>
+            <Button variant="outline" onClick={handleSaveUser}>
+              Save
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <History className="h-5 w-5" />
+            Changes ({filteredEntries.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-6">
+            <div className="md:col-span-2">
+              <Label>Search</Label>
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Name, invoice number or reason"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-8"
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Type</Label>
+              <Select value={filterEntity} onValueChange={setFilterEntity}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  {Object.entries(entityLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Action</Label>
+              <Select value={filterAction} onValueChange={setFilterAction}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Actions</SelectItem>
+                  {Object.entries(actionLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>User</Label>
+              <Select value={filterUser} onValueChange={setFilterUser}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Users</SelectItem>
+                  {users.map((user) => (
+                    <SelectItem key={user} value={user}>{user}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label>From</Label>
+                <Input type="date" value={filterStartDate} onChange={(e) => setFilterStartDate(e.target.value)} />
+              </div>
+              <div>
+                <Label>To</Label>
+                <Input type="date" value={filterEndDate} onChange={(e) => setFilterEndDate(e.target.value)} />
+              </div>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Record</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead>Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredEntries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No changes recorded
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredEntries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</TableCell>
+                    <TableCell>{entry.user}</TableCell>
+                    <TableCell>
+                      <Badge variant={actionVariants[entry.action]}>{actionLabels[entry.action]}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{entry.entityLabel}</div>
+                      <div className="text-xs text-muted-foreground">{entityLabels[entry.entityType]}</div>
+                    </TableCell>
+                    <TableCell className="max-w-md text-sm text-muted-foreground">
+                      {describeChanges(entry).map((line) => (
+                        <div key={line} className="truncate" title={line}>{line}</div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-sm">{entry.reason || "—"}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
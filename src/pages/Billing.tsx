@@ -1,11 +1,50 @@
 import { useEffect, useState, useMemo, useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Plus, Trash2, Printer, Search } from "lucide-react";
-import { productStorage, customerStorage, billStorage, Product, Customer, BillItem } from "@/lib/storage";
+import { Plus, Trash2, Printer, Search, X } from "lucide-react";
+import {
+  productStorage,
+  customerStorage,
+  billStorage,
+  shopProfileStorage,
+  quotationStorage,
+  DEFAULT_SHOP_PROFILE,
+  Product,
+  Customer,
+  Bill,
+  BillItem,
+  BillDraft,
+  BillInput,
+  HeldBills,
+  Quotation,
+  QuotationInput,
+} from "@/lib/storage";
+import { ValidationError } from "@/lib/schemas";
+import {
+  expireHeldBills,
+  getHoldExpiryHours,
+  holdAndStartNew,
+  isEmptyDraft,
+  newDraft,
+  readHeldBills,
+  recallHold,
+  updateActiveHold,
+  writeHeldBills,
+} from "@/lib/heldBills";
+import { formatRupees, fromPaise, lineTotal, sumPaise, toPaise } from "@/lib/money";
+import { calculateBillInvoice, calculateInvoice, type DiscountType, type InvoiceDiscount } from "@/lib/invoice";
+import { DEFAULT_GST_RATE, supplyTypeFor } from "@/lib/gst";
+import { TaxInvoice } from "@/components/TaxInvoice";
+import { PaymentDialog } from "@/components/PaymentDialog";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { defaultValidUntil, localDate, quotationStatus, stockShortfalls } from "@/lib/quotations";
+import type { Settlement } from "@/lib/payments";
+import { outstandingBalance } from "@/lib/ledger";
 import { toast } from "sonner";
+import { useStorageChanges } from "@/hooks/use-storage-changes";
 import {
   Table,
   TableBody,
@@ -15,15 +54,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 
-const DRAFT_KEY = "billing-draft";
-
-interface BillDraft {
-  selectedCustomer: string;
-  items: BillItem[];
-  discount: string;
-  gstPercent: string;
-  timestamp: number;
-}
+const MIN_QUANTITY = 0.01;
 
 export default function Billing() {
   const [products, setProducts] = useState<Product[]>([]);
@@ -33,47 +64,151 @@ export default function Billing() {
   const [productSearch, setProductSearch] = useState("");
   const [items, setItems] = useState<BillItem[]>([]);
   const [discount, setDiscount] = useState("0");
-  const [gstPercent, setGstPercent] = useState("18");
+  const [discountType, setDiscountType] = useState<DiscountType>("percent");
+  const [shopProfile, setShopProfile] = useState(DEFAULT_SHOP_PROFILE);
   const [showPrintView, setShowPrintView] = useState(false);
+  const [nextInvoiceNumber, setNextInvoiceNumber] = useState("");
+  const [paymentOpen, setPaymentOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [customerOutstanding, setCustomerOutstanding] = useState(0);
+  // Set while a saved bill is reopened for editing from Bills History
+  const [editingBill, setEditingBill] = useState<Bill | null>(null);
+  // Set while a quotation is being turned into a bill
+  const [convertingQuotation, setConvertingQuotation] = useState<Quotation | null>(null);
+  const [quotationOpen, setQuotationOpen] = useState(false);
+  const [validUntil, setValidUntil] = useState("");
+  const [printQuotation, setPrintQuotation] = useState<Quotation | null>(null);
+  // Every bill in progress; the form shows the one with `activeHoldId`
+  const [heldBills, setHeldBills] = useState<BillDraft[]>([]);
+  const [activeHoldId, setActiveHoldId] = useState("");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const editId = searchParams.get("edit");
+  const quotationId = searchParams.get("quotation");
+
+  const loadData = useCallback(() => {
+    productStorage.getAll().then(setProducts);
+    customerStorage.getAll().then(setCustomers);
+    billStorage.previewInvoiceNumber().then(setNextInvoiceNumber);
+    shopProfileStorage.get().then(setShopProfile);
+  }, []);
+
+  // Refresh stock, customers and the next number when any tab changes them
+  useStorageChanges(["products", "customers", "bills"], loadData);
+
+  const showDraft = useCallback((draft: BillDraft) => {
+    setActiveHoldId(draft.id);
+    setSelectedCustomer(draft.selectedCustomer);
+    setItems(draft.items);
+    setDiscount(draft.discount);
+    setDiscountType(draft.discountType ?? "percent");
+  }, []);
 
-  // Load draft on mount
+  // Saves the holds and shows any another Billing tab held or cleared meanwhile
+  const saveHolds = useCallback((held: HeldBills) => {
+    const merged = writeHeldBills(held);
+    const ids = (bills: BillDraft[]) => bills.map((bill) => bill.id).join();
+    setHeldBills((bills) => (ids(bills) === ids(merged.bills) ? bills : merged.bills));
+  }, []);
+
+  // The held bills with the one on screen brought up to date
+  const syncedHolds = useCallback(
+    () =>
+      updateActiveHold(
+        { activeId: activeHoldId, bills: heldBills },
+        { selectedCustomer, items, discount, discountType }
+      ).bills,
+    [heldBills, activeHoldId, selectedCustomer, items, discount, discountType]
+  );
+
+  // Load the bill being edited or the quotation being converted, or else the held bills, on mount
   useEffect(() => {
-    setProducts(productStorage.getAll());
-    setCustomers(customerStorage.getAll());
-
-    const savedDraft = localStorage.getItem(DRAFT_KEY);
-    if (savedDraft) {
-      try {
-        const draft: BillDraft = JSON.parse(savedDraft);
-        setSelectedCustomer(draft.selectedCustomer);
-        setItems(draft.items);
-        setDiscount(draft.discount);
-        setGstPercent(draft.gstPercent);
-        toast.info("Draft bill restored");
-      } catch (error) {
-        console.error("Failed to load draft:", error);
-      }
+    loadData();
+
+    if (quotationId) {
+      Promise.all([quotationStorage.getById(quotationId), productStorage.getAll()]).then(([quotation, stock]) => {
+        if (!quotation) {
+          toast.error("That quotation no longer exists");
+          setSearchParams({});
+          return;
+        }
+        const status = quotationStatus(quotation);
+        if (status !== "open") {
+          toast.error(
+            status === "converted"
+              ? `${quotation.quotationNumber} was already converted into ${quotation.invoiceNumber}`
+              : `${quotation.quotationNumber} expired on ${quotation.validUntil}`
+          );
+          setSearchParams({});
+          return;
+        }
+        const short = stockShortfalls(quotation.items, stock);
+        if (short.length > 0) {
+          toast.warning(`Not enough stock for ${short.map((s) => `${s.productName} (${s.available} left)`).join(", ")}`);
+        }
+        setConvertingQuotation(quotation);
+        setSelectedCustomer(quotation.customerId);
+        setItems(quotation.items);
+        const type = quotation.discountType ?? "percent";
+        setDiscountType(type);
+        setDiscount(String(type === "percent" ? calculateBillInvoice(quotation).discountPercent : quotation.discount));
+      });
+      return;
     }
-  }, []);
 
-  // Auto-save draft every 5 seconds
+    if (editId) {
+      billStorage.getById(editId).then((bill) => {
+        if (!bill) {
+          toast.error("That bill no longer exists");
+          setSearchParams({});
+          return;
+        }
+        if (bill.status === "cancelled") {
+          toast.error(`${bill.invoiceNumber} has been cancelled and cannot be edited`);
+          setSearchParams({});
+          return;
+        }
+        if (bill.returnedAmount) {
+          toast.error(`${bill.invoiceNumber} has credit notes against it and cannot be edited`);
+          setSearchParams({});
+          return;
+        }
+        setEditingBill(bill);
+        setSelectedCustomer(bill.customerId);
+        setItems(bill.items);
+        const type = bill.discountType ?? "percent";
+        setDiscountType(type);
+        setDiscount(String(type === "percent" ? calculateBillInvoice(bill).discountPercent : bill.discount));
+      });
+      return;
+    }
+
+    const { held, expired } = expireHeldBills(readHeldBills(), getHoldExpiryHours());
+    if (expired > 0) {
+      writeHeldBills(held);
+      toast.info(`${expired} held bill(s) expired`);
+    }
+    // A bill that was still empty when the page closed starts afresh
+    const active = held.bills.find((bill) => bill.id === held.activeId) ?? newDraft();
+    const bills = held.bills.includes(active) ? held.bills : [...held.bills, active];
+    setHeldBills(bills);
+    showDraft(active);
+    const restored = held.bills.length;
+    if (restored > 0) toast.info(restored === 1 ? "Draft bill restored" : `${restored} held bills restored`);
+  }, [loadData, editId, quotationId, setSearchParams, showDraft]);
+
+  // Auto-save the bill on screen every 5 seconds; edits and conversions are not held bills and leave them alone
   useEffect(() => {
-    if (items.length === 0 && !selectedCustomer) return;
-
-    const saveDraft = () => {
-      const draft: BillDraft = {
-        selectedCustomer,
-        items,
-        discount,
-        gstPercent,
-        timestamp: Date.now(),
-      };
-      localStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
-    };
+    if (editingBill || convertingQuotation || (items.length === 0 && !selectedCustomer)) return;
 
-    const interval = setInterval(saveDraft, 5000);
+    const interval = setInterval(() => saveHolds({ activeId: activeHoldId, bills: syncedHolds() }), 5000);
     return () => clearInterval(interval);
-  }, [selectedCustomer, items, discount, gstPercent]);
+  }, [selectedCustomer, items, editingBill, convertingQuotation, activeHoldId, syncedHolds, saveHolds]);
+
+  useEffect(() => {
+    const clearQuotation = () => setPrintQuotation(null);
+    window.addEventListener("afterprint", clearQuotation);
+    return () => window.removeEventListener("afterprint", clearQuotation);
+  }, []);
 
   // Keyboard shortcuts listeners
   useEffect(() => {
@@ -87,7 +222,7 @@ export default function Billing() {
       window.removeEventListener("print-bill", handlePrintShortcut);
       window.removeEventListener("save-bill", handleSaveShortcut);
     };
-  }, [selectedCustomer, items, discount, gstPercent, customers]);
+  }, [selectedCustomer, items, discount, discountType, customers, editingBill]);
 
   // Filter customers by search
   const filteredCustomers = useMemo(() => {
@@ -118,7 +253,7 @@ export default function Billing() {
       // Increase quantity if already in bill
       const updated = [...items];
       updated[existingIndex].quantity += 1;
-      updated[existingIndex].total = updated[existingIndex].quantity * updated[existingIndex].price;
+      updated[existingIndex].total = lineTotal(updated[existingIndex].price, updated[existingIndex].quantity);
       setItems(updated);
       toast.success(`Increased ${product.name} quantity`);
     } else {
@@ -128,7 +263,9 @@ export default function Billing() {
         productName: product.name,
         quantity: 1,
         price: product.price,
-        total: product.price
+        total: lineTotal(product.price, 1),
+        hsnCode: product.hsnCode,
+        gstRate: product.gstRate,
       }]);
       toast.success(`Added ${product.name} to bill`);
     }
@@ -138,24 +275,66 @@ export default function Billing() {
     setItems(items.filter((_, i) => i !== index));
   }, [items]);
 
+  // Quantities and prices are kept where a bill accepts them, so autosave never holds a bill that cannot be saved
   const updateItem = useCallback((index: number, field: keyof BillItem, value: any) => {
+    if (field === "quantity") value = Math.max(value, MIN_QUANTITY);
+    if (field === "price") value = Math.max(value, 0);
     const updated = [...items];
     updated[index] = { ...updated[index], [field]: value };
 
     if (field === "quantity" || field === "price") {
-      updated[index].total = updated[index].quantity * updated[index].price;
+      updated[index].total = lineTotal(updated[index].price, updated[index].quantity);
     }
 
     setItems(updated);
   }, [items]);
 
-  const subtotal = useMemo(() => items.reduce((sum, item) => sum + item.total, 0), [items]);
-  const discountAmount = useMemo(() => (subtotal * parseFloat(discount || "0")) / 100, [subtotal, discount]);
-  const afterDiscount = useMemo(() => subtotal - discountAmount, [subtotal, discountAmount]);
-  const gstAmount = useMemo(() => (afterDiscount * parseFloat(gstPercent || "0")) / 100, [afterDiscount, gstPercent]);
-  const total = useMemo(() => afterDiscount + gstAmount, [afterDiscount, gstAmount]);
+  // A zero percent discount is dropped so the item carries no discount at all; a percent stays within 0-100
+  const updateItemDiscount = useCallback((index: number, { type, value }: InvoiceDiscount) => {
+    const itemDiscount = { type, value: Math.min(Math.max(value, 0), type === "percent" ? 100 : Infinity) };
+    const updated = [...items];
+    const keep = itemDiscount.value > 0 || itemDiscount.type === "amount";
+    updated[index] = { ...updated[index], discount: keep ? itemDiscount : undefined };
+    setItems(updated);
+  }, [items]);
+
+  const customer = useMemo(() => 
+    customers.find(c => c.id === selectedCustomer), 
+    [customers, selectedCustomer]
+  );
+
+  // Items restored from an older draft take their tax details from the product
+  const taxedItems = useMemo(
+    () =>
+      items.map((item) => {
+        if (item.gstRate !== undefined) return item;
+        const product = products.find(p => p.id === item.productId);
+        return { ...item, hsnCode: product?.hsnCode ?? "", gstRate: product?.gstRate ?? DEFAULT_GST_RATE };
+      }),
+    [items, products]
+  );
+
+  const supplyType = supplyTypeFor(shopProfile.stateCode, customer?.state ?? "");
+
+  const invoice = useMemo(
+    () =>
+      calculateInvoice({
+        items: taxedItems,
+        discount: { type: discountType, value: parseFloat(discount || "0") },
+        supplyType,
+      }),
+    [taxedItems, discount, discountType, supplyType]
+  );
+  const { subtotal, discount: discountAmount, gstAmount, total } = invoice;
 
-  const handleCreateBill = () => {
+  // Receipts already recorded against an edited bill stay on it; only the rest is settled again
+  const receivedOnReceipts = useMemo(
+    () => fromPaise(sumPaise((editingBill?.payments ?? []).filter(p => p.receiptId).map(p => toPaise(p.amount)))),
+    [editingBill]
+  );
+  const amountToSettle = fromPaise(toPaise(total) - toPaise(receivedOnReceipts));
+
+  const handleCreateBill = async () => {
     if (!selectedCustomer) {
       toast.error("Please select a customer");
       return;
@@ -166,35 +345,181 @@ export default function Billing() {
       return;
     }
 
-    const customer = customers.find(c => c.id === selectedCustomer);
     if (!customer) return;
+    if (amountToSettle < 0) {
+      toast.error(`The total cannot be less than the ${formatRupees(receivedOnReceipts)} already received`);
+      return;
+    }
+    // What the customer owes elsewhere; an edited bill's old balance is replaced, not added to
+    const customerBills = await billStorage.getByCustomer(customer.id);
+    setCustomerOutstanding(outstandingBalance(customerBills.filter(b => b.id !== editingBill?.id)));
+    setPaymentOpen(true);
+  };
 
-    const bill = billStorage.add({
-      customerId: selectedCustomer,
-      customerName: customer.name,
-      items,
-      subtotal,
-      discount: discountAmount,
-      gstPercent: parseFloat(gstPercent),
-      gstAmount,
-      total,
-    });
+  // Customer, items and tax as a bill or quotation records them
+  const invoiceFields = (billTo: Customer) => ({
+    customerId: selectedCustomer,
+    customerName: billTo.name,
+    customerGstin: billTo.gstin,
+    items: taxedItems.map((item, i) => ({
+      ...item,
+      discountAmount: invoice.lineDiscounts[i],
+      netAmount: invoice.lineNetAmounts[i],
+      taxableValue: invoice.lineTaxableValues[i],
+    })),
+    subtotal,
+    itemDiscount: invoice.itemDiscount,
+    discount: discountAmount,
+    discountType,
+    gstAmount,
+    total,
+    supplyType,
+    placeOfSupply: billTo.state || shopProfile.stateCode,
+    cgstAmount: invoice.cgst,
+    sgstAmount: invoice.sgst,
+    igstAmount: invoice.igst,
+    taxBreakup: invoice.taxBreakup,
+  });
+
+  // Saves the bill once the payment step is confirmed
+  const completeSale = async (settlement: Settlement) => {
+    if (!customer) return;
+
+    let bill;
+    setSaving(true);
+    try {
+      const input: BillInput = {
+        ...invoiceFields(customer),
+        payments: settlement.payments,
+        amountPaid: settlement.amountPaid,
+        paymentStatus: settlement.paymentStatus,
+      };
+      bill = editingBill
+        ? await billStorage.revise(editingBill.id, input)
+        : convertingQuotation
+          ? await quotationStorage.convert(convertingQuotation.id, input)
+          : await billStorage.add(input);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        toast.error(error.message);
+        return;
+      }
+      throw error;
+    } finally {
+      setSaving(false);
+    }
 
+    setPaymentOpen(false);
     if (bill) {
-      toast.success(`Bill created: ${bill.invoiceNumber}`);
-      localStorage.removeItem(DRAFT_KEY);
+      const saved = editingBill
+        ? `Bill updated: ${bill.invoiceNumber}`
+        : convertingQuotation
+          ? `${convertingQuotation.quotationNumber} converted into ${bill.invoiceNumber}`
+          : `Bill created: ${bill.invoiceNumber}`;
+      toast.success(
+        settlement.changeDue > 0 ? `${saved}. Change due ${formatRupees(settlement.changeDue)}` : saved
+      );
       resetForm();
+      loadData();
     } else {
       toast.error("Insufficient stock for one or more items");
     }
   };
 
+  // Leaving edit or conversion brings the held bills back; otherwise the bill on screen is dropped
   const resetForm = () => {
-    setSelectedCustomer("");
-    setItems([]);
-    setDiscount("0");
-    setGstPercent("18");
-    localStorage.removeItem(DRAFT_KEY);
+    if (editingBill || convertingQuotation) {
+      setEditingBill(null);
+      setConvertingQuotation(null);
+      setSearchParams({});
+      return;
+    }
+    const draft = newDraft();
+    const bills = [...heldBills.filter((bill) => bill.id !== activeHoldId), draft];
+    setHeldBills(bills);
+    saveHolds({ activeId: draft.id, bills });
+    showDraft(draft);
+  };
+
+  // Parks the bill on screen and starts another for the next customer
+  const holdBill = () => {
+    if (items.length === 0 && !selectedCustomer) {
+      toast.error("Add a customer or items before holding the bill");
+      return;
+    }
+    const held = holdAndStartNew({ activeId: activeHoldId, bills: syncedHolds() });
+    setHeldBills(held.bills);
+    saveHolds(held);
+    showDraft(held.bills.find((bill) => bill.id === held.activeId)!);
+    toast.success("Bill held");
+  };
+
+  const recallBill = (id: string) => {
+    if (id === activeHoldId) return;
+    const held = recallHold({ activeId: activeHoldId, bills: syncedHolds() }, id);
+    if (!held) return;
+    setHeldBills(held.bills);
+    saveHolds(held);
+    showDraft(held.bills.find((bill) => bill.id === id)!);
+  };
+
+  const discardHold = (draft: BillDraft) => {
+    if (!isEmptyDraft(draft) && !confirm(`Discard the held bill for ${holdLabel(draft)}?`)) return;
+    if (draft.id === activeHoldId) {
+      resetForm();
+      return;
+    }
+    const bills = syncedHolds().filter((bill) => bill.id !== draft.id);
+    setHeldBills(bills);
+    saveHolds({ activeId: activeHoldId, bills });
+  };
+
+  const holdLabel = (draft: BillDraft) =>
+    customers.find((c) => c.id === draft.selectedCustomer)?.name ?? "New bill";
+
+  const openQuotation = () => {
+    if (!selectedCustomer) {
+      toast.error("Please select a customer");
+      return;
+    }
+    if (items.length === 0 || items.some(i => !i.productId)) {
+      toast.error("Please add at least one valid item");
+      return;
+    }
+    setValidUntil(defaultValidUntil());
+    setQuotationOpen(true);
+  };
+
+  // Saves the bill on screen as a quotation; stock is left alone
+  const saveQuotation = async (print: boolean) => {
+    if (!customer) return;
+    if (!validUntil || validUntil < localDate(new Date())) {
+      toast.error("The quotation must be valid until today or later");
+      return;
+    }
+
+    let quotation;
+    setSaving(true);
+    try {
+      const input: QuotationInput = { ...invoiceFields(customer), validUntil };
+      quotation = await quotationStorage.add(input);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        toast.error(error.message);
+        return;
+      }
+      throw error;
+    } finally {
+      setSaving(false);
+    }
+
+    setQuotationOpen(false);
+    toast.success(`Quotation saved: ${quotation.quotationNumber}`);
+    resetForm();
+    if (print) {
+      setPrintQuotation(quotation);
+      setTimeout(() => window.print(), 100);
+    }
   };
 
   const handlePrint = () => {
@@ -206,20 +531,30 @@ export default function Billing() {
     setTimeout(() => window.print(), 100);
   };
 
-  const customer = useMemo(() => 
-    customers.find(c => c.id === selectedCustomer), 
-    [customers, selectedCustomer]
-  );
-
-  const nextInvoiceNumber = useMemo(() => 
-    billStorage.getNextInvoiceNumber(), 
-    []
-  );
-
   return (
     <>
       {/* Print View - Thermal Printer Format */}
-      {showPrintView && (
+      {printQuotation && (
+        <div id="thermal-print-area" className="print:block hidden">
+          <TaxInvoice
+            shop={shopProfile}
+            invoiceNumber={printQuotation.quotationNumber}
+            date={printQuotation.createdAt}
+            customer={{
+              name: printQuotation.customerName,
+              phone: customers.find(c => c.id === printQuotation.customerId)?.phone,
+              gstin: printQuotation.customerGstin,
+              state: customers.find(c => c.id === printQuotation.customerId)?.state,
+            }}
+            placeOfSupply={printQuotation.placeOfSupply}
+            items={printQuotation.items}
+            invoice={calculateBillInvoice(printQuotation)}
+            discountType={printQuotation.discountType}
+            validUntil={printQuotation.validUntil}
+          />
+        </div>
+      )}
+      {showPrintView && !printQuotation && (
         <div id="thermal-print-area" className="print:block hidden">
           <style>
 {`
@@ -250,88 +585,100 @@ export default function Billing() {
 </style>
 
 
-          <div style={{ width: '80mm', padding: '5mm', fontFamily: 'monospace', fontSize: '12px' }}>
-            <div style={{ textAlign: 'center', marginBottom: '10px', borderBottom: '2px dashed #000', paddingBottom: '10px' }}>
-              <div style={{ fontSize: '18px', fontWeight: 'bold' }}>Anthiyur Online Sandhai</div>
-              <div style={{ fontSize: '10px' }}>Near Police Station</div>
-              <div style={{ fontSize: '10px' }}>Phone: +91 XXXXXXXXXX</div>
-            </div>
-            
-            <div style={{ marginBottom: '10px', fontSize: '11px' }}>
-              <div><strong>Invoice:</strong> {nextInvoiceNumber}</div>
-              <div><strong>Date:</strong> {new Date().toLocaleDateString()}</div>
-              <div><strong>Customer:</strong> {customer?.name}</div>
-              <div><strong>Phone:</strong> {customer?.phone}</div>
-            </div>
-            <div className="grid grid-cols-2 gap-2 text-[11px] mb-2">
-  </div>{/* <div>
-    <strong>Invoice:</strong> {nextInvoiceNumber}
-  </div>
-  <div>
-    <strong>Date:</strong> {new Date().toLocaleDateString()}
-  </div>
-
-  <div>
-    <strong>Customer:</strong> {customer?.name}
-  </div>
-  <div>
-    <strong>Phone:</strong> {customer?.phone}
-  </div>
-</div> */}
-
-            <div style={{ borderTop: '2px dashed #000', borderBottom: '2px dashed #000', padding: '5px 0' }}>
-              <table style={{ width: '100%', fontSize: '11px' }}>
-                <thead>
-                  <tr>
-                    <th style={{ textAlign: 'left' }}>Item</th>
-                    <th style={{ textAlign: 'center' }}>Qty</th>
-                    <th style={{ textAlign: 'right' }}>Price</th>
-                    <th style={{ textAlign: 'right' }}>Total</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {items.map((item, i) => (
-                    <tr key={i}>
-                      <td style={{ textAlign: 'left', paddingRight: '5px' }}>{item.productName}</td>
-                      <td style={{ textAlign: 'center' }}>{item.quantity}</td>
-                      <td style={{ textAlign: 'right' }}>₹{item.price.toFixed(2)}</td>
-                      <td style={{ textAlign: 'right' }}>₹{item.total.toFixed(2)}</td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
-
-            <div style={{ marginTop: '10px', fontSize: '11px' }}>
-              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                <span>Subtotal:</span>
-                <span>₹{subtotal.toFixed(2)}</span>
-              </div>
-              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                <span>Discount ({discount}%):</span>
-                <span>-₹{discountAmount.toFixed(2)}</span>
-              </div>
-              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                <span>GST ({gstPercent}%):</span>
-                <span>₹{gstAmount.toFixed(2)}</span>
-              </div>
-              <div style={{ display: 'flex', justifyContent: 'space-between', fontWeight: 'bold', fontSize: '14px', borderTop: '2px solid #000', marginTop: '5px', paddingTop: '5px' }}>
-                <span>TOTAL:</span>
-                <span>₹{total.toFixed(2)}</span>
-              </div>
-            </div>
-
-            <div style={{ textAlign: 'center', marginTop: '15px', fontSize: '10px', borderTop: '2px dashed #000', paddingTop: '10px' }}>
-              <div>Thank you for your business!</div>
-              <div>Please visit again</div>
-            </div>
-          </div>
+          <TaxInvoice
+            shop={shopProfile}
+            invoiceNumber={editingBill?.invoiceNumber ?? nextInvoiceNumber}
+            date={editingBill?.createdAt ?? new Date()}
+            customer={customer ?? { name: "" }}
+            placeOfSupply={customer?.state}
+            items={items}
+            invoice={invoice}
+            discountType={discountType}
+          />
         </div>
       
       )}
 
+      <PaymentDialog
+        open={paymentOpen}
+        total={amountToSettle}
+        onOpenChange={setPaymentOpen}
+        onConfirm={completeSale}
+        confirming={saving}
+        creditLimit={customer?.creditLimit ?? null}
+        outstanding={customerOutstanding}
+      />
+
+      <Dialog open={quotationOpen} onOpenChange={setQuotationOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Save as Quotation</DialogTitle>
+            <DialogDescription>
+              A quotation takes the next quotation number but no stock. {formatRupees(total)} for {customer?.name}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="valid-until">Valid until</Label>
+            <Input
+              id="valid-until"
+              type="date"
+              min={localDate(new Date())}
+              value={validUntil}
+              onChange={(e) => setValidUntil(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" disabled={saving} onClick={() => saveQuotation(false)}>
+              Save
+            </Button>
+            <Button disabled={saving} onClick={() => saveQuotation(true)}>
+              <Printer className="h-4 w-4 mr-1" />
+              Save &amp; Print
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Main Billing Interface */}
       <div className="space-y-4 print:hidden p-2 sm:p-4 md:p-6">
+        {/* Held Bills - one tab per customer being served */}
+        {!editingBill && !convertingQuotation && (
+          <div className="flex flex-wrap items-center gap-2">
+            {heldBills.map((bill) => {
+              const shown = bill.id === activeHoldId ? { ...bill, selectedCustomer, items } : bill;
+              return (
+                <div key={bill.id} className="flex items-center">
+                  <Button
+                    size="sm"
+                    variant={bill.id === activeHoldId ? "default" : "outline"}
+                    onClick={() => recallBill(bill.id)}
+                    className="h-8 rounded-r-none text-xs sm:text-sm"
+                  >
+                    {holdLabel(shown)}
+                    <span className="ml-1 opacity-70">
+                      {new Date(bill.heldAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                      {shown.items.length > 0 && ` · ${shown.items.length} item(s)`}
+                    </span>
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    title="Discard this bill"
+                    onClick={() => discardHold(shown)}
+                    className="h-8 w-8 p-0 rounded-l-none border-l-0"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              );
+            })}
+            <Button size="sm" variant="outline" onClick={holdBill} className="h-8 text-xs sm:text-sm">
+              <Plus className="h-3.5 w-3.5 mr-1" />
+              Hold &amp; New Bill
+            </Button>
+          </div>
+        )}
+
         <div className="grid gap-3 sm:gap-4 md:grid-cols-[320px_1fr] lg:grid-cols-[380px_1fr] xl:grid-cols-[400px_1fr]">
           {/* Left Sidebar: Customer & Summary */}
           <div className="space-y-3 sm:space-y-4">
@@ -375,6 +722,22 @@ export default function Billing() {
             {/* Bill Summary - Sticky */}
             <Card className="md:sticky md:top-4">
               <CardContent className="pt-4 sm:pt-6 space-y-3 sm:space-y-4">
+                {editingBill && (
+                  <div className="rounded-md bg-primary/10 px-3 py-2 text-xs sm:text-sm">
+                    Editing <span className="font-semibold">{editingBill.invoiceNumber}</span>
+                    {receivedOnReceipts > 0 && (
+                      <span className="block text-muted-foreground">
+                        {formatRupees(receivedOnReceipts)} already received on receipts
+                      </span>
+                    )}
+                  </div>
+                )}
+                {convertingQuotation && (
+                  <div className="rounded-md bg-primary/10 px-3 py-2 text-xs sm:text-sm">
+                    Converting <span className="font-semibold">{convertingQuotation.quotationNumber}</span> into a bill
+                    <span className="block text-muted-foreground">Stock is checked and deducted when the sale is completed</span>
+                  </div>
+                )}
                 <div className="space-y-2 sm:space-y-3">
                   <div className="flex justify-between items-center text-xs sm:text-sm">
                     <span className="text-muted-foreground">Items</span>
@@ -382,50 +745,73 @@ export default function Billing() {
                   </div>
                   <div className="flex justify-between items-center text-xs sm:text-sm">
                     <span className="text-muted-foreground">Subtotal</span>
-                    <span className="font-semibold text-foreground">₹{subtotal.toFixed(2)}</span>
+                    <span className="font-semibold text-foreground">{formatRupees(subtotal)}</span>
                   </div>
                   
-                  <div className="grid grid-cols-2 gap-2 pt-1 sm:pt-2">
-                    <div>
-                      <Label className="text-[10px] sm:text-xs text-muted-foreground">Discount %</Label>
+                  {invoice.itemDiscount > 0 && (
+                    <div className="flex justify-between items-center text-xs sm:text-sm">
+                      <span className="text-muted-foreground">Item Discounts</span>
+                      <span className="font-medium text-foreground">-{formatRupees(invoice.itemDiscount)}</span>
+                    </div>
+                  )}
+
+                  <div className="pt-1 sm:pt-2">
+                    <Label className="text-[10px] sm:text-xs text-muted-foreground">
+                      Bill Discount {discountType === "percent" ? "%" : "₹"}
+                    </Label>
+                    <div className="flex gap-2 mt-1">
                       <Input
                         type="number"
                         step="0.01"
+                        min="0"
                         value={discount}
                         onChange={(e) => setDiscount(e.target.value)}
-                        className="h-8 sm:h-9 mt-1 text-sm"
-                      />
-                    </div>
-                    <div>
-                      <Label className="text-[10px] sm:text-xs text-muted-foreground">GST %</Label>
-                      <Input
-                        type="number"
-                        step="0.01"
-                        value={gstPercent}
-                        onChange={(e) => setGstPercent(e.target.value)}
-                        className="h-8 sm:h-9 mt-1 text-sm"
+                        className="h-8 sm:h-9 text-sm"
                       />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="h-8 sm:h-9 w-10 shrink-0"
+                        title="Switch between percent and rupees"
+                        onClick={() => setDiscountType(discountType === "percent" ? "amount" : "percent")}
+                      >
+                        {discountType === "percent" ? "%" : "₹"}
+                      </Button>
                     </div>
                   </div>
 
                   <div className="flex justify-between items-center text-xs sm:text-sm pt-1 sm:pt-2">
-                    <span className="text-muted-foreground">Discount</span>
-                    <span className="font-medium text-foreground">-₹{discountAmount.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between items-center text-xs sm:text-sm">
-                    <span className="text-muted-foreground">GST</span>
-                    <span className="font-medium text-foreground">₹{gstAmount.toFixed(2)}</span>
+                    <span className="text-muted-foreground">Bill Discount</span>
+                    <span className="font-medium text-foreground">-{formatRupees(discountAmount)}</span>
                   </div>
+                  {supplyType === "intra" ? (
+                    <>
+                      <div className="flex justify-between items-center text-xs sm:text-sm">
+                        <span className="text-muted-foreground">CGST</span>
+                        <span className="font-medium text-foreground">{formatRupees(invoice.cgst)}</span>
+                      </div>
+                      <div className="flex justify-between items-center text-xs sm:text-sm">
+                        <span className="text-muted-foreground">SGST</span>
+                        <span className="font-medium text-foreground">{formatRupees(invoice.sgst)}</span>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="flex justify-between items-center text-xs sm:text-sm">
+                      <span className="text-muted-foreground">IGST (inter-state)</span>
+                      <span className="font-medium text-foreground">{formatRupees(invoice.igst)}</span>
+                    </div>
+                  )}
                   
                   <div className="border-t pt-2 sm:pt-3 flex justify-between items-center">
                     <span className="text-sm sm:text-base font-semibold text-foreground">Total</span>
-                    <span className="text-xl sm:text-2xl font-bold text-primary">₹{total.toFixed(2)}</span>
+                    <span className="text-xl sm:text-2xl font-bold text-primary">{formatRupees(total)}</span>
                   </div>
                 </div>
 
                 <div className="space-y-2 pt-1 sm:pt-2">
                   <Button onClick={handleCreateBill} className="w-full h-10 sm:h-12 text-sm sm:text-base font-semibold" size="lg">
-                    Complete Sale
+                    {editingBill ? "Save Changes" : "Complete Sale"}
                   </Button>
                   <div className="grid grid-cols-2 gap-2">
                     <Button onClick={handlePrint} variant="outline" className="w-full h-9 sm:h-10 text-xs sm:text-sm" size="sm">
@@ -434,9 +820,14 @@ export default function Billing() {
                       <span className="inline xs:hidden">Print</span>
                     </Button>
                     <Button onClick={resetForm} variant="outline" className="w-full h-9 sm:h-10 text-xs sm:text-sm" size="sm">
-                      Clear
+                      {editingBill ? "Cancel Edit" : convertingQuotation ? "Cancel" : "Clear"}
                     </Button>
                   </div>
+                  {!editingBill && !convertingQuotation && (
+                    <Button onClick={openQuotation} variant="secondary" className="w-full h-9 sm:h-10 text-xs sm:text-sm" size="sm">
+                      Save as Quotation
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -496,7 +887,7 @@ export default function Billing() {
                                 {p.stock}
                               </span>
                             </TableCell>
-                            <TableCell className="text-right font-semibold text-xs sm:text-sm px-2 sm:px-4">₹{p.price.toFixed(2)}</TableCell>
+                            <TableCell className="text-right font-semibold text-xs sm:text-sm px-2 sm:px-4">{formatRupees(p.price)}</TableCell>
                             <TableCell className="text-center px-2 sm:px-4">
                               <Button size="sm" variant="default" className="h-7 w-7 sm:h-8 sm:w-8 p-0">
                                 <Plus className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
@@ -534,6 +925,7 @@ export default function Billing() {
                           <TableHead className="font-semibold text-xs sm:text-sm px-2 sm:px-4">Item</TableHead>
                           <TableHead className="text-center font-semibold text-xs sm:text-sm w-[80px] sm:w-[100px] px-2 sm:px-4">Qty</TableHead>
                           <TableHead className="text-right font-semibold text-xs sm:text-sm w-[80px] sm:w-[120px] px-2 sm:px-4 hidden md:table-cell">Price</TableHead>
+                          <TableHead className="text-right font-semibold text-xs sm:text-sm w-[110px] sm:w-[140px] px-2 sm:px-4">Discount</TableHead>
                           <TableHead className="text-right font-semibold text-xs sm:text-sm w-[90px] sm:w-[120px] px-2 sm:px-4">Total</TableHead>
                           <TableHead className="w-[50px] sm:w-[60px] px-2 sm:px-4"></TableHead>
                         </TableRow>
@@ -546,7 +938,7 @@ export default function Billing() {
                               <Input
                                 type="number"
                                 step="0.01"
-                                min="0.01"
+                                min={MIN_QUANTITY}
                                 value={item.quantity}
                                 onChange={(e) => updateItem(index, "quantity", parseFloat(e.target.value) || 1)}
                                 className="w-16 sm:w-20 text-center h-8 sm:h-9 font-medium text-xs sm:text-sm"
@@ -556,12 +948,53 @@ export default function Billing() {
                               <Input
                                 type="number"
                                 step="0.01"
+                                min="0"
                                 value={item.price}
                                 onChange={(e) => updateItem(index, "price", parseFloat(e.target.value) || 0)}
                                 className="w-20 sm:w-24 text-right h-8 sm:h-9 font-medium text-xs sm:text-sm"
                               />
                             </TableCell>
-                            <TableCell className="text-right font-bold text-xs sm:text-base px-2 sm:px-4">₹{item.total.toFixed(2)}</TableCell>
+                            <TableCell className="text-right px-2 sm:px-4">
+                              <div className="flex justify-end gap-1">
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  min="0"
+                                  value={item.discount?.value ?? ""}
+                                  placeholder="0"
+                                  onChange={(e) =>
+                                    updateItemDiscount(index, {
+                                      type: item.discount?.type ?? "percent",
+                                      value: parseFloat(e.target.value) || 0,
+                                    })
+                                  }
+                                  className="w-14 sm:w-20 text-right h-8 sm:h-9 text-xs sm:text-sm"
+                                />
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-8 sm:h-9 w-8 p-0 shrink-0"
+                                  title="Switch between percent and rupees"
+                                  onClick={() =>
+                                    updateItemDiscount(index, {
+                                      type: item.discount?.type === "amount" ? "percent" : "amount",
+                                      value: item.discount?.value ?? 0,
+                                    })
+                                  }
+                                >
+                                  {item.discount?.type === "amount" ? "₹" : "%"}
+                                </Button>
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-right font-bold text-xs sm:text-base px-2 sm:px-4">
+                              {invoice.lineDiscounts[index] > 0 && (
+                                <div className="text-[10px] sm:text-xs font-normal text-muted-foreground line-through">
+                                  {formatRupees(item.total)}
+                                </div>
+                              )}
+                              {formatRupees(invoice.lineNetAmounts[index] ?? item.total)}
+                            </TableCell>
                             <TableCell className="text-center px-2 sm:px-4">
                               <Button
                                 size="sm"
@@ -1,6 +1,7 @@
-import { useState, useEffect, useMemo } from "react";
-import { billStorage, customerStorage } from "@/lib/storage";
-import type { Bill, Customer } from "@/lib/storage";
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { billStorage, creditNoteStorage, customerStorage, DEFAULT_SHOP_PROFILE, shopProfileStorage } from "@/lib/storage";
+import type { Bill, CreditNote, Customer, PaymentMode, PaymentStatus, ShopProfile } from "@/lib/storage";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -9,30 +10,82 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Printer, Eye, Pencil, Trash2, Search, FileDown } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Printer, Eye, Pencil, Ban, Search, FileDown, Undo2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useStorageChanges } from "@/hooks/use-storage-changes";
 import * as XLSX from "xlsx";
+import { formatRupees, roundRupees } from "@/lib/money";
+import { calculateBillInvoice } from "@/lib/invoice";
+import { stateLabel } from "@/lib/gst";
+import { TaxBreakupTable } from "@/components/TaxBreakupTable";
+import { TaxInvoice } from "@/components/TaxInvoice";
+import { ReturnDialog } from "@/components/ReturnDialog";
+import { CreditNoteDocument } from "@/components/CreditNoteDocument";
+import { ValidationError } from "@/lib/schemas";
+import {
+  PAYMENT_MODES,
+  PAYMENT_STATUS_LABELS,
+  balanceDue,
+  netTotal,
+  paymentModeLabel,
+  totalsByMode,
+} from "@/lib/payments";
 
 export default function BillsHistory() {
   const [bills, setBills] = useState<Bill[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
+  const [shopProfile, setShopProfile] = useState<ShopProfile>(DEFAULT_SHOP_PROFILE);
   const [filterCustomerId, setFilterCustomerId] = useState<string>("all");
   const [filterStartDate, setFilterStartDate] = useState<string>("");
   const [filterEndDate, setFilterEndDate] = useState<string>("");
   const [searchInvoice, setSearchInvoice] = useState<string>("");
+  const [filterPaymentMode, setFilterPaymentMode] = useState<PaymentMode | "all">("all");
+  const [filterPaymentStatus, setFilterPaymentStatus] = useState<PaymentStatus | "all">("all");
   const [selectedBill, setSelectedBill] = useState<Bill | null>(null);
   const [showPrintView, setShowPrintView] = useState(false);
   const [selectedBillIds, setSelectedBillIds] = useState<string[]>([]);
+  const [selectedCreditNotes, setSelectedCreditNotes] = useState<CreditNote[]>([]);
+  const [returnBill, setReturnBill] = useState<Bill | null>(null);
+  const [printCreditNote, setPrintCreditNote] = useState<CreditNote | null>(null);
   const { toast } = useToast();
+  const navigate = useNavigate();
+
+  // Date filters are applied by the storage index; the rest are filtered in memory
+  const loadData = useCallback(async () => {
+    const startDate = filterStartDate ? new Date(filterStartDate) : undefined;
+    const endDate = filterEndDate ? new Date(filterEndDate) : undefined;
+    endDate?.setHours(23, 59, 59, 999);
+    const validDate = (date?: Date) => (date && !isNaN(date.getTime()) ? date : undefined);
+
+    setBills(await billStorage.getByDateRange(validDate(startDate), validDate(endDate)));
+    setCustomers(await customerStorage.getAll());
+    setShopProfile(await shopProfileStorage.get());
+  }, [filterStartDate, filterEndDate]);
 
   useEffect(() => {
     loadData();
-  }, []);
+  }, [loadData]);
 
-  const loadData = () => {
-    setBills(billStorage.getAll());
-    setCustomers(customerStorage.getAll());
-  };
+  useStorageChanges(["bills", "customers"], loadData);
+
+  // Credit notes issued against the open bill
+  const loadCreditNotes = useCallback(() => {
+    if (selectedBill) creditNoteStorage.getByBill(selectedBill.id).then(setSelectedCreditNotes);
+    else setSelectedCreditNotes([]);
+  }, [selectedBill]);
+
+  useEffect(() => {
+    loadCreditNotes();
+  }, [loadCreditNotes]);
+
+  useStorageChanges(["creditNotes"], loadCreditNotes);
+
+  useEffect(() => {
+    const clearCreditNote = () => setPrintCreditNote(null);
+    window.addEventListener("afterprint", clearCreditNote);
+    return () => window.removeEventListener("afterprint", clearCreditNote);
+  }, []);
 
   const filteredBills = useMemo(() => {
     return bills.filter(bill => {
@@ -46,21 +99,24 @@ export default function BillsHistory() {
         return false;
       }
 
-      // Filter by date range
-      const billDate = new Date(bill.createdAt);
-      if (filterStartDate) {
-        const startDate = new Date(filterStartDate);
-        if (billDate < startDate) return false;
+      // Bills split across tenders match each of their modes
+      if (filterPaymentMode !== "all" && !bill.payments.some(p => p.mode === filterPaymentMode)) {
+        return false;
       }
-      if (filterEndDate) {
-        const endDate = new Date(filterEndDate);
-        endDate.setHours(23, 59, 59, 999);
-        if (billDate > endDate) return false;
+
+      if (filterPaymentStatus !== "all" && bill.paymentStatus !== filterPaymentStatus) {
+        return false;
       }
 
       return true;
     }).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-  }, [bills, filterCustomerId, filterStartDate, filterEndDate, searchInvoice]);
+  }, [bills, filterCustomerId, searchInvoice, filterPaymentMode, filterPaymentStatus]);
+
+  // Cancelled bills took no money
+  const modeTotals = useMemo(
+    () => totalsByMode(filteredBills.filter(bill => bill.status !== "cancelled")),
+    [filteredBills]
+  );
 
   const handlePrint = (bill: Bill) => {
   setSelectedBill(bill);
@@ -72,15 +128,66 @@ export default function BillsHistory() {
     setSelectedBill(bill);
   };
 
-  const handleDelete = (bill: Bill) => {
-    if (confirm(`Delete invoice ${bill.invoiceNumber}? This will restore the product stock.`)) {
-      billStorage.delete(bill.id);
+  // Reopens the bill on the Billing page; saving there keeps this version as a revision
+  const handleEdit = (bill: Bill) => {
+    if (bill.status === "cancelled") {
       toast({
-        title: "Bill deleted",
-        description: `Invoice ${bill.invoiceNumber} has been deleted and stock restored.`,
+        title: "Cannot edit invoice",
+        description: `${bill.invoiceNumber} has been cancelled.`,
+        variant: "destructive",
       });
-      loadData();
+      return;
+    }
+    if (bill.returnedAmount) {
+      toast({
+        title: "Cannot edit invoice",
+        description: `${bill.invoiceNumber} has credit notes against it.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    navigate(`/billing?edit=${bill.id}`);
+  };
+
+  // The details dialog is closed first so only the credit note prints
+  const handlePrintCreditNote = (creditNote: CreditNote) => {
+    setSelectedBill(null);
+    setPrintCreditNote(creditNote);
+    setTimeout(() => window.print(), 100);
+  };
+
+  const handleReturned = (creditNote: CreditNote) => {
+    setReturnBill(null);
+    setSelectedBill(null);
+    toast({
+      title: "Credit note issued",
+      description: `${creditNote.creditNoteNumber} for ${formatRupees(creditNote.total)} against ${creditNote.invoiceNumber}.`,
+    });
+    loadData();
+  };
+
+  // Cancelled bills keep their invoice number, so the series has no gaps
+  const handleCancel = async (bill: Bill) => {
+    const reason = prompt(`Cancel invoice ${bill.invoiceNumber}? This will restore the product stock.\n\nReason for cancelling:`);
+    if (reason === null) return;
+    if (!reason.trim()) {
+      toast({ title: "Cannot cancel invoice", description: "A reason is required.", variant: "destructive" });
+      return;
+    }
+    try {
+      await billStorage.cancel(bill.id, reason);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        toast({ title: "Cannot cancel invoice", description: error.issues[0]?.message, variant: "destructive" });
+        return;
+      }
+      throw error;
     }
+    toast({
+      title: "Bill cancelled",
+      description: `Invoice ${bill.invoiceNumber} was cancelled and stock restored.`,
+    });
+    loadData();
   };
 
   const getCustomerName = (customerId: string) => {
@@ -119,55 +226,80 @@ export default function BillsHistory() {
     // Create Excel data
     const excelData: any[] = [];
     
+    // Every row carries every column so the sheet keeps one header
+    const row = (values: Record<string, string | number>) => ({
+      'Invoice No': '',
+      'Date': '',
+      'Customer': '',
+      'Customer GSTIN': '',
+      'Place of Supply': '',
+      'Product': '',
+      'HSN': '',
+      'Quantity': '',
+      'Price': '',
+      'Item Total': '',
+      'Item Discount': '',
+      'Net Amount': '',
+      'GST %': '',
+      'Taxable Value': '',
+      'Subtotal': '',
+      'Item Discounts': '',
+      'Discount': '',
+      'CGST': '',
+      'SGST': '',
+      'IGST': '',
+      'Total': '',
+      'Bill Status': '',
+      'Cancel Reason': '',
+      'Payment Status': '',
+      'Paid': '',
+      'Payment Modes': '',
+      ...values,
+    });
+
     selectedBills.forEach(bill => {
       const customer = getCustomerName(bill.customerId);
+      const invoice = calculateBillInvoice(bill);
       
       // Add bill header
-      excelData.push({
+      excelData.push(row({
         'Invoice No': bill.invoiceNumber,
         'Date': new Date(bill.createdAt).toLocaleString(),
         'Customer': customer,
-        'Product': '',
-        'Quantity': '',
-        'Price': '',
-        'Item Total': '',
-        'Subtotal': '',
-        'Discount %': '',
-        'GST %': '',
-        'Total': '',
-      });
+        'Customer GSTIN': bill.customerGstin || '',
+        'Place of Supply': stateLabel(bill.placeOfSupply || ''),
+      }));
       
       // Add items
-      bill.items.forEach(item => {
-        excelData.push({
-          'Invoice No': '',
-          'Date': '',
-          'Customer': '',
+      bill.items.forEach((item, idx) => {
+        excelData.push(row({
           'Product': item.productName,
+          'HSN': item.hsnCode || '',
           'Quantity': item.quantity,
-          'Price': item.price,
-          'Item Total': item.total,
-          'Subtotal': '',
-          'Discount %': '',
-          'GST %': '',
-          'Total': '',
-        });
+          'Price': roundRupees(item.price),
+          'Item Total': invoice.lineTotals[idx],
+          'Item Discount': invoice.lineDiscounts[idx],
+          'Net Amount': invoice.lineNetAmounts[idx],
+          'GST %': invoice.lineRates[idx],
+          'Taxable Value': invoice.lineTaxableValues[idx],
+        }));
       });
       
       // Add totals row
-      excelData.push({
-        'Invoice No': '',
-        'Date': '',
-        'Customer': '',
-        'Product': '',
-        'Quantity': '',
-        'Price': '',
-        'Item Total': '',
-        'Subtotal': bill.subtotal,
-        'Discount %': bill.discount,
-        'GST %': bill.gstPercent,
-        'Total': bill.total,
-      });
+      excelData.push(row({
+        'Subtotal': invoice.subtotal,
+        'Item Discounts': invoice.itemDiscount,
+        'Discount': invoice.discount,
+        'CGST': invoice.cgst,
+        'SGST': invoice.sgst,
+        'IGST': invoice.igst,
+        'Total': invoice.total,
+        'Bill Status': bill.status === 'cancelled' ? 'Cancelled' : 'Active',
+        'Cancel Reason': bill.cancelReason || '',
+        'Payment Status': PAYMENT_STATUS_LABELS[bill.paymentStatus],
+        'Paid': bill.amountPaid,
+        'Payment Modes': bill.payments.map(p => `${paymentModeLabel(p.mode)} ${p.amount}`).join(', '),
+      }));
       
       // Add empty row for spacing
       excelData.push({});
@@ -189,87 +321,47 @@ export default function BillsHistory() {
       description: `${selectedBillIds.length} invoice(s) exported to ${filename}`,
     });
   };
+  // Totals shown and printed for the open bill
+  const selectedInvoice = useMemo(() => (selectedBill ? calculateBillInvoice(selectedBill) : null), [selectedBill]);
+  const selectedCustomer = selectedBill ? customers.find(c => c.id === selectedBill.customerId) : undefined;
+
 return ( <>
- {showPrintView && selectedBill && (
+ {printCreditNote && (
   <div id="thermal-print-area" className="print:block hidden">
-    <div
-      style={{
-        width: "80mm",
-        padding: "5mm",
-        fontFamily: "monospace",
-        fontSize: "12px",
+    <CreditNoteDocument
+      shop={shopProfile}
+      creditNote={printCreditNote}
+      customer={{
+        phone: customers.find(c => c.id === printCreditNote.customerId)?.phone,
+        gstin: customers.find(c => c.id === printCreditNote.customerId)?.gstin,
       }}
-      className="mx-auto"
-    >
-
-      {/* HEADER */}
-      <div className="text-center mb-3">
-        <h1 className="text-lg font-bold">INVOICE</h1>
-        <p className="text-sm">Invoice No: {selectedBill.invoiceNumber}</p>
-      </div>
-
-      {/* CUSTOMER DETAILS (2×2 GRID) */}
-      <div className="grid grid-cols-2 gap-x-2 gap-y-1 mb-3 border-t border-b py-2">
-        <div><strong>Customer:</strong> {getCustomerName(selectedBill.customerId)}</div>
-        <div><strong>Phone:</strong> {selectedBill.customerPhone}</div>
-        <div><strong>Date:</strong> {new Date(selectedBill.createdAt).toLocaleDateString()}</div>
-        <div><strong>Time:</strong> {new Date(selectedBill.createdAt).toLocaleTimeString()}</div>
-      </div>
-
-      {/* ITEMS TABLE */}
-      <table className="w-full text-xs mb-3">
-        <thead>
-          <tr className="border-b">
-            <th className="text-left py-1">Item</th>
-            <th className="text-right py-1">Qty</th>
-            <th className="text-right py-1">Price</th>
-            <th className="text-right py-1">Total</th>
-          </tr>
-        </thead>
-
-        <tbody>
-          {selectedBill.items.map((item, idx) => (
-            <tr key={idx} className="border-b border-dashed">
-              <td className="py-1">{item.productName}</td>
-              <td className="text-right">{item.quantity}</td>
-              <td className="text-right">₹{item.price.toFixed(2)}</td>
-              <td className="text-right">₹{item.total.toFixed(2)}</td>
-            </tr>
-          ))}
-        </tbody>
-      </table>
-
-      {/* TOTAL SECTION */}
-      <div className="border-t pt-2 space-y-1">
-        <div className="flex justify-between">
-          <span>Subtotal:</span>
-          <span>₹{selectedBill.subtotal.toFixed(2)}</span>
-        </div>
-
-        {selectedBill.discount > 0 && (
-          <div className="flex justify-between">
-            <span>Discount ({selectedBill.discount}%):</span>
-            <span>-₹{((selectedBill.subtotal * selectedBill.discount) / 100).toFixed(2)}</span>
-          </div>
-        )}
-
-        <div className="flex justify-between">
-          <span>GST ({selectedBill.gstPercent}%):</span>
-          <span>₹{selectedBill.gstAmount.toFixed(2)}</span>
-        </div>
-
-        <div className="flex justify-between font-bold text-sm border-t pt-1">
-          <span>Total:</span>
-          <span>₹{selectedBill.total.toFixed(2)}</span>
-        </div>
-      </div>
-
-      {/* FOOTER */}
-      <div className="text-center mt-3 text-xs">
-        <p>Thank you for your business!</p>
-      </div>
-
-    </div>
+    />
+  </div>
+ )}
+ {showPrintView && selectedBill && selectedInvoice && (
+  <div id="thermal-print-area" className="print:block hidden">
+    <TaxInvoice
+      shop={shopProfile}
+      invoiceNumber={selectedBill.invoiceNumber}
+      date={selectedBill.createdAt}
+      customer={{
+        name: selectedBill.customerName || getCustomerName(selectedBill.customerId),
+        phone: selectedCustomer?.phone,
+        // Bills made before customers had a GSTIN fall back to the current one
+        gstin: selectedBill.customerGstin ?? selectedCustomer?.gstin,
+        state: selectedCustomer?.state,
+      }}
+      placeOfSupply={selectedBill.placeOfSupply}
+      items={selectedBill.items}
+      invoice={selectedInvoice}
+      discountType={selectedBill.discountType}
+      payments={selectedBill.payments}
+      cancelled={
+        selectedBill.status === "cancelled" && selectedBill.cancelledAt
+          ? { at: selectedBill.cancelledAt, reason: selectedBill.cancelReason ?? "" }
+          : undefined
+      }
+    />
   </div>
 )}
 
@@ -296,7 +388,7 @@ return ( <>
             <CardTitle>Filters</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
               <div className="space-y-2">
                 <Label>Search Invoice</Label>
                 <div className="relative">
@@ -344,6 +436,52 @@ return ( <>
                   onChange={(e) => setFilterEndDate(e.target.value)}
                 />
               </div>
+
+              <div className="space-y-2">
+                <Label>Payment Mode</Label>
+                <Select value={filterPaymentMode} onValueChange={(value) => setFilterPaymentMode(value as PaymentMode | "all")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Modes</SelectItem>
+                    {PAYMENT_MODES.map(({ mode, label }) => (
+                      <SelectItem key={mode} value={mode}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Payment Status</Label>
+                <Select
+                  value={filterPaymentStatus}
+                  onValueChange={(value) => setFilterPaymentStatus(value as PaymentStatus | "all")}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All</SelectItem>
+                    {(Object.keys(PAYMENT_STATUS_LABELS) as PaymentStatus[]).map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {PAYMENT_STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-x-6 gap-y-1 mt-4 text-sm">
+              {PAYMENT_MODES.map(({ mode, label }) => (
+                <span key={mode}>
+                  <span className="text-muted-foreground">{label}:</span>{" "}
+                  <span className="font-medium">{formatRupees(modeTotals[mode])}</span>
+                </span>
+              ))}
             </div>
           </CardContent>
         </Card>
@@ -364,13 +502,14 @@ return ( <>
                   <TableHead>Customer</TableHead>
                   <TableHead className="text-right">Items</TableHead>
                   <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Payment</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {filteredBills.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    <TableCell colSpan={8} className="text-center text-muted-foreground">
                       No bills found
                     </TableCell>
                   </TableRow>
@@ -387,7 +526,19 @@ return ( <>
                       <TableCell>{new Date(bill.createdAt).toLocaleDateString()}</TableCell>
                       <TableCell>{getCustomerName(bill.customerId)}</TableCell>
                       <TableCell className="text-right">{bill.items.length}</TableCell>
-                      <TableCell className="text-right">₹{bill.total.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{formatRupees(bill.total)}</TableCell>
+                      <TableCell>
+                        {bill.status === "cancelled" ? (
+                          <Badge variant="destructive">Cancelled</Badge>
+                        ) : (
+                          <Badge variant={bill.paymentStatus === "paid" ? "outline" : "secondary"}>
+                            {PAYMENT_STATUS_LABELS[bill.paymentStatus]}
+                          </Badge>
+                        )}
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {[...new Set(bill.payments.map(p => paymentModeLabel(p.mode)))].join(", ")}
+                        </div>
+                      </TableCell>
                       <TableCell className="text-right">
                         <div className="flex gap-2 justify-end">
                           <Button
@@ -407,9 +558,19 @@ return ( <>
                           <Button
                             variant="outline"
                             size="icon"
-                            onClick={() => handleDelete(bill)}
+                            disabled={bill.status === "cancelled"}
+                            onClick={() => handleEdit(bill)}
                           >
-                            <Trash2 className="h-4 w-4" />
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            title="Cancel invoice"
+                            disabled={bill.status === "cancelled"}
+                            onClick={() => handleCancel(bill)}
+                          >
+                            <Ban className="h-4 w-4" />
                           </Button>
                         </div>
                       </TableCell>
@@ -422,11 +583,11 @@ return ( <>
         </Card>
 
         <Dialog open={!!selectedBill && !showPrintView} onOpenChange={(open) => !open && setSelectedBill(null)}>
-          <DialogContent className="max-w-2xl">
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Invoice Details - {selectedBill?.invoiceNumber}</DialogTitle>
             </DialogHeader>
-            {selectedBill && (
+            {selectedBill && selectedInvoice && (
               <div className="space-y-4">
                 <div className="grid grid-cols-2 gap-4">
                   <div>
@@ -437,6 +598,34 @@ return ( <>
                     <Label>Date</Label>
                     <p className="font-medium">{new Date(selectedBill.createdAt).toLocaleString()}</p>
                   </div>
+                  {selectedBill.status === "cancelled" && (
+                    <div className="col-span-2">
+                      <Label>Cancelled</Label>
+                      <p className="font-medium text-destructive">
+                        {selectedBill.cancelledAt && new Date(selectedBill.cancelledAt).toLocaleString()}
+                        {selectedBill.cancelledBy && ` by ${selectedBill.cancelledBy}`}
+                        {selectedBill.cancelReason && ` · ${selectedBill.cancelReason}`}
+                      </p>
+                    </div>
+                  )}
+                  {selectedBill.updatedAt && (
+                    <div>
+                      <Label>Last Edited</Label>
+                      <p className="font-medium">{new Date(selectedBill.updatedAt).toLocaleString()}</p>
+                    </div>
+                  )}
+                  {selectedBill.customerGstin && (
+                    <div>
+                      <Label>Customer GSTIN</Label>
+                      <p className="font-medium">{selectedBill.customerGstin}</p>
+                    </div>
+                  )}
+                  {selectedBill.placeOfSupply && (
+                    <div>
+                      <Label>Place of Supply</Label>
+                      <p className="font-medium">{stateLabel(selectedBill.placeOfSupply)}</p>
+                    </div>
+                  )}
                 </div>
 
                 <div>
@@ -447,6 +636,7 @@ return ( <>
                         <TableHead>Product</TableHead>
                         <TableHead className="text-right">Qty</TableHead>
                         <TableHead className="text-right">Price</TableHead>
+                        <TableHead className="text-right">Discount</TableHead>
                         <TableHead className="text-right">Total</TableHead>
                       </TableRow>
                     </TableHeader>
@@ -455,8 +645,11 @@ return ( <>
                         <TableRow key={idx}>
                           <TableCell>{item.productName}</TableCell>
                           <TableCell className="text-right">{item.quantity}</TableCell>
-                          <TableCell className="text-right">₹{item.price.toFixed(2)}</TableCell>
-                          <TableCell className="text-right">₹{item.total.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">{formatRupees(item.price)}</TableCell>
+                          <TableCell className="text-right">
+                            {selectedInvoice.lineDiscounts[idx] > 0 ? `-${formatRupees(selectedInvoice.lineDiscounts[idx])}` : "—"}
+                          </TableCell>
+                          <TableCell className="text-right">{formatRupees(selectedInvoice.lineNetAmounts[idx])}</TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
@@ -466,27 +659,165 @@ return ( <>
                 <div className="border-t pt-4 space-y-2">
                   <div className="flex justify-between">
                     <span>Subtotal:</span>
-                    <span>₹{selectedBill.subtotal.toFixed(2)}</span>
+                    <span>{formatRupees(selectedInvoice.subtotal)}</span>
                   </div>
-                  {selectedBill.discount > 0 && (
+                  {selectedInvoice.itemDiscount > 0 && (
                     <div className="flex justify-between text-muted-foreground">
-                      <span>Discount ({selectedBill.discount}%):</span>
-                      <span>-₹{((selectedBill.subtotal * selectedBill.discount) / 100).toFixed(2)}</span>
+                      <span>Item Discounts:</span>
+                      <span>-{formatRupees(selectedInvoice.itemDiscount)}</span>
+                    </div>
+                  )}
+                  {selectedInvoice.discount > 0 && (
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>
+                        {selectedBill.discountType === "amount"
+                          ? "Discount:"
+                          : `Discount (${selectedInvoice.discountPercent}%):`}
+                      </span>
+                      <span>-{formatRupees(selectedInvoice.discount)}</span>
+                    </div>
+                  )}
+                  {selectedInvoice.supplyType === "intra" ? (
+                    <>
+                      <div className="flex justify-between">
+                        <span>CGST:</span>
+                        <span>{formatRupees(selectedInvoice.cgst)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>SGST:</span>
+                        <span>{formatRupees(selectedInvoice.sgst)}</span>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="flex justify-between">
+                      <span>IGST:</span>
+                      <span>{formatRupees(selectedInvoice.igst)}</span>
                     </div>
                   )}
-                  <div className="flex justify-between">
-                    <span>GST ({selectedBill.gstPercent}%):</span>
-                    <span>₹{selectedBill.gstAmount.toFixed(2)}</span>
-                  </div>
                   <div className="flex justify-between font-bold text-lg border-t pt-2">
                     <span>Total:</span>
-                    <span>₹{selectedBill.total.toFixed(2)}</span>
+                    <span>{formatRupees(selectedInvoice.total)}</span>
+                  </div>
+                  {!!selectedBill.returnedAmount && (
+                    <>
+                      <div className="flex justify-between text-muted-foreground">
+                        <span>Returned:</span>
+                        <span>-{formatRupees(selectedBill.returnedAmount)}</span>
+                      </div>
+                      <div className="flex justify-between font-semibold">
+                        <span>Net Total:</span>
+                        <span>{formatRupees(netTotal(selectedBill))}</span>
+                      </div>
+                    </>
+                  )}
+                </div>
+
+                <div>
+                  <Label>Payments</Label>
+                  {selectedBill.payments.length === 0 ? (
+                    <p className="text-sm text-muted-foreground mt-1">Not recorded</p>
+                  ) : (
+                    <div className="text-sm mt-1 space-y-1">
+                      {selectedBill.payments.map((payment, idx) => (
+                        <div key={idx} className="flex justify-between">
+                          <span>
+                            {paymentModeLabel(payment.mode)}
+                            {payment.reference && <span className="text-muted-foreground"> · {payment.reference}</span>}
+                            {payment.tendered !== undefined && (
+                              <span className="text-muted-foreground"> · tendered {formatRupees(payment.tendered)}</span>
+                            )}
+                          </span>
+                          <span>{formatRupees(payment.amount)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex justify-between text-sm mt-1">
+                    <span>{PAYMENT_STATUS_LABELS[selectedBill.paymentStatus]}</span>
+                    {balanceDue(selectedBill) > 0 && <span>Balance due {formatRupees(balanceDue(selectedBill))}</span>}
                   </div>
                 </div>
+
+                <div>
+                  <Label>Tax Breakup</Label>
+                  <TaxBreakupTable
+                    rows={selectedInvoice.taxBreakup}
+                    supplyType={selectedInvoice.supplyType}
+                    className="text-sm mt-1"
+                  />
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between">
+                    <Label>Credit Notes</Label>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={selectedBill.status === "cancelled"}
+                      onClick={() => setReturnBill(selectedBill)}
+                    >
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      Return Items
+                    </Button>
+                  </div>
+                  {selectedCreditNotes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground mt-1">None</p>
+                  ) : (
+                    <div className="text-sm mt-1 space-y-1">
+                      {selectedCreditNotes.map((creditNote) => (
+                        <div key={creditNote.id} className="flex items-center justify-between gap-2">
+                          <span>
+                            {creditNote.creditNoteNumber}
+                            <span className="text-muted-foreground">
+                              {" "}· {new Date(creditNote.createdAt).toLocaleDateString()} ·{" "}
+                              {creditNote.items.map((item) => `${item.productName} × ${item.quantity}`).join(", ")} ·{" "}
+                              {creditNote.settlement === "refund" ? "refunded" : "credited to account"}
+                            </span>
+                          </span>
+                          <span className="flex items-center gap-2">
+                            -{formatRupees(creditNote.total)}
+                            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handlePrintCreditNote(creditNote)}>
+                              <Printer className="h-4 w-4" />
+                            </Button>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {selectedBill.revisions && selectedBill.revisions.length > 0 && (
+                  <div>
+                    <Label>Revisions</Label>
+                    <div className="text-sm mt-1 space-y-2">
+                      {[...selectedBill.revisions].reverse().map((revision, idx) => (
+                        <div key={revision.revisedAt} className="border rounded-md p-3">
+                          <div className="flex justify-between font-medium">
+                            <span>Version {selectedBill.revisions!.length - idx}</span>
+                            <span>{formatRupees(revision.total)}</span>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Replaced {new Date(revision.revisedAt).toLocaleString()}
+                            {revision.reason && ` · ${revision.reason}`}
+                          </p>
+                          <p className="text-muted-foreground mt-1">
+                            {revision.items.map((item) => `${item.productName} × ${item.quantity}`).join(", ")}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </DialogContent>
         </Dialog>
+
+        <ReturnDialog
+          bill={returnBill}
+          onOpenChange={(open) => !open && setReturnBill(null)}
+          onReturned={handleReturned}
+        />
       </div>
     </>
   );
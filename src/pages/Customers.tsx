@@ -4,9 +4,15 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Plus, Edit, Trash2, Eye, Download, Upload } from "lucide-react";
+import { Plus, Edit, Trash2, Eye, Download, Upload, BookOpen } from "lucide-react";
 import { customerStorage, billStorage, Customer, Bill } from "@/lib/storage";
+import { ValidationError } from "@/lib/schemas";
+import { formatRupees } from "@/lib/money";
+import { outstandingBalance } from "@/lib/ledger";
+import { INDIAN_STATES, gstinStateCode, stateLabel } from "@/lib/gst";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
+import { useStorageChanges } from "@/hooks/use-storage-changes";
 import {
   Dialog,
   DialogContent,
@@ -16,6 +22,8 @@ import {
 } from "@/components/ui/dialog";
 import initialCustomers from "@/data/customers.json";
 import { exportCustomersToExcel, importCustomersFromExcel } from "@/lib/excelSync";
+import { CustomerLedgerDialog } from "@/components/CustomerLedgerDialog";
+import { AgeingReportCard } from "@/components/AgeingReportCard";
 
 export default function Customers() {
   const [customers, setCustomers] = useState<Customer[]>([]);
@@ -25,44 +33,78 @@ export default function Customers() {
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
   const [customerBills, setCustomerBills] = useState<Bill[]>([]);
+  const [ledgerCustomer, setLedgerCustomer] = useState<Customer | null>(null);
+  const [allBills, setAllBills] = useState<Bill[]>([]);
+  const [searchResults, setSearchResults] = useState<Customer[]>([]);
   const [formData, setFormData] = useState({
     name: "",
     phone: "",
     address: "",
+    state: "",
+    gstin: "",
+    creditLimit: "",
   });
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     loadCustomers();
+    loadBills();
   }, []);
 
-  const loadCustomers = () => {
-    const existingCustomers = customerStorage.getAll();
-    
-    // If no customers in localStorage, initialize from JSON file
+  useEffect(() => {
+    if (!searchQuery) return;
+    customerStorage.search(searchQuery).then(setSearchResults);
+  }, [searchQuery, customers]);
+
+  const loadCustomers = async () => {
+    const existingCustomers = await customerStorage.getAll();
+
+    // A new install starts with the customers from the JSON file
     if (existingCustomers.length === 0 && initialCustomers.length > 0) {
-      customerStorage.save(initialCustomers);
-      setCustomers(initialCustomers);
-    } else {
-      setCustomers(existingCustomers);
+      const seeded = initialCustomers.map(c => ({ ...c, state: "", gstin: "", creditLimit: null, createdAt: new Date().toISOString() }));
+      if (await customerStorage.seed(seeded)) {
+        setCustomers(seeded);
+        return;
+      }
     }
+    setCustomers(existingCustomers);
   };
 
-  const filteredCustomers = searchQuery
-    ? customerStorage.search(searchQuery)
-    : customers;
+  const loadBills = async () => setAllBills(await billStorage.getAll());
+
+  useStorageChanges(["customers"], loadCustomers);
+  useStorageChanges(["bills"], loadBills);
+
+  const outstandingOf = (customerId: string) =>
+    outstandingBalance(allBills.filter((bill) => bill.customerId === customerId));
+
+  const filteredCustomers = searchQuery ? searchResults : customers;
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (editingCustomer) {
-      customerStorage.update(editingCustomer.id, formData);
-      toast.success("Customer updated successfully");
-    } else {
-      customerStorage.add(formData);
-      toast.success("Customer added successfully");
+    // A blank limit means the customer can owe any amount
+    const customer = {
+      ...formData,
+      creditLimit: formData.creditLimit.trim() === "" ? null : parseFloat(formData.creditLimit),
+    };
+
+    try {
+      if (editingCustomer) {
+        await customerStorage.update(editingCustomer.id, customer);
+        toast.success("Customer updated successfully");
+      } else {
+        await customerStorage.add(customer);
+        toast.success("Customer added successfully");
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        setFormErrors(error.fieldErrors);
+        return;
+      }
+      throw error;
     }
-    
+
     loadCustomers();
     resetForm();
     setOpen(false);
@@ -70,31 +112,36 @@ export default function Customers() {
 
   const handleEdit = (customer: Customer) => {
     setEditingCustomer(customer);
+    setFormErrors({});
     setFormData({
       name: customer.name,
       phone: customer.phone,
       address: customer.address,
+      state: customer.state,
+      gstin: customer.gstin,
+      creditLimit: customer.creditLimit === null ? "" : String(customer.creditLimit),
     });
     setOpen(true);
   };
 
-  const handleDelete = (id: string) => {
+  const handleDelete = async (id: string) => {
     if (confirm("Are you sure you want to delete this customer?")) {
-      customerStorage.delete(id);
+      await customerStorage.delete(id);
       loadCustomers();
-      toast.success("Customer deleted successfully");
+      toast.success("Customer moved to the Recycle Bin");
     }
   };
 
-  const viewHistory = (customer: Customer) => {
+  const viewHistory = async (customer: Customer) => {
     setSelectedCustomer(customer);
-    const bills = billStorage.getByCustomer(customer.id);
+    const bills = await billStorage.getByCustomer(customer.id);
     setCustomerBills(bills);
     setHistoryOpen(true);
   };
 
   const resetForm = () => {
-    setFormData({ name: "", phone: "", address: "" });
+    setFormData({ name: "", phone: "", address: "", state: "", gstin: "", creditLimit: "" });
+    setFormErrors({});
     setEditingCustomer(null);
   };
 
@@ -168,6 +215,7 @@ export default function Customers() {
                   onChange={(e) => setFormData({ ...formData, name: e.target.value })}
                   required
                 />
+                {formErrors.name && <p className="text-xs text-destructive mt-1">{formErrors.name}</p>}
               </div>
               <div>
                 <Label htmlFor="phone">Phone Number</Label>
@@ -177,6 +225,7 @@ export default function Customers() {
                   onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
                   required
                 />
+                {formErrors.phone && <p className="text-xs text-destructive mt-1">{formErrors.phone}</p>}
               </div>
               <div>
                 <Label htmlFor="address">Address</Label>
@@ -186,6 +235,52 @@ export default function Customers() {
                   onChange={(e) => setFormData({ ...formData, address: e.target.value })}
                   required
                 />
+                {formErrors.address && <p className="text-xs text-destructive mt-1">{formErrors.address}</p>}
+              </div>
+              <div>
+                <Label htmlFor="state">State</Label>
+                <Select
+                  value={formData.state || "none"}
+                  onValueChange={(value) => setFormData({ ...formData, state: value === "none" ? "" : value })}
+                >
+                  <SelectTrigger id="state">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not set (local sale)</SelectItem>
+                    {INDIAN_STATES.map((s) => (
+                      <SelectItem key={s.code} value={s.code}>{stateLabel(s.code)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {formErrors.state && <p className="text-xs text-destructive mt-1">{formErrors.state}</p>}
+              </div>
+              <div>
+                <Label htmlFor="gstin">GSTIN</Label>
+                <Input
+                  id="gstin"
+                  value={formData.gstin}
+                  placeholder="Leave blank for unregistered customers"
+                  onChange={(e) => {
+                    const gstin = e.target.value.toUpperCase();
+                    // The state is implied by the GSTIN when not chosen yet
+                    setFormData({ ...formData, gstin, state: formData.state || gstinStateCode(gstin) });
+                  }}
+                />
+                {formErrors.gstin && <p className="text-xs text-destructive mt-1">{formErrors.gstin}</p>}
+              </div>
+              <div>
+                <Label htmlFor="creditLimit">Credit Limit (₹)</Label>
+                <Input
+                  id="creditLimit"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.creditLimit}
+                  placeholder="Leave blank for no limit"
+                  onChange={(e) => setFormData({ ...formData, creditLimit: e.target.value })}
+                />
+                {formErrors.creditLimit && <p className="text-xs text-destructive mt-1">{formErrors.creditLimit}</p>}
               </div>
                 <Button type="submit" className="w-full">
                   {editingCustomer ? "Update Customer" : "Add Customer"}
@@ -217,8 +312,23 @@ export default function Customers() {
                   <h3 className="font-semibold text-foreground">{customer.name}</h3>
                   <p className="text-sm text-muted-foreground">{customer.phone}</p>
                   <p className="text-sm text-muted-foreground">{customer.address}</p>
+                  {customer.state && <p className="text-sm text-muted-foreground">{stateLabel(customer.state)}</p>}
+                  {customer.gstin && <p className="text-sm text-muted-foreground">GSTIN: {customer.gstin}</p>}
+                </div>
+                <div className="text-right mr-4">
+                  <p className="text-xs text-muted-foreground">Outstanding</p>
+                  <p className={`font-semibold ${outstandingOf(customer.id) > 0 ? "text-destructive" : "text-foreground"}`}>
+                    {formatRupees(outstandingOf(customer.id))}
+                  </p>
+                  {customer.creditLimit !== null && (
+                    <p className="text-xs text-muted-foreground">Limit {formatRupees(customer.creditLimit)}</p>
+                  )}
                 </div>
                 <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setLedgerCustomer(customer)}>
+                    <BookOpen className="h-4 w-4 mr-1" />
+                    Ledger
+                  </Button>
                   <Button size="sm" variant="outline" onClick={() => viewHistory(customer)}>
                     <Eye className="h-4 w-4 mr-1" />
                     History
@@ -242,6 +352,13 @@ export default function Customers() {
         </CardContent>
       </Card>
 
+      <AgeingReportCard customers={customers} bills={allBills} />
+
+      <CustomerLedgerDialog
+        customer={ledgerCustomer}
+        onOpenChange={(o) => !o && setLedgerCustomer(null)}
+      />
+
       <Dialog open={historyOpen} onOpenChange={setHistoryOpen}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
@@ -251,7 +368,10 @@ export default function Customers() {
             {customerBills.map((bill) => (
               <div key={bill.id} className="border rounded-lg p-4">
                 <div className="flex justify-between mb-2">
-                  <span className="font-semibold text-foreground">{bill.invoiceNumber}</span>
+                  <span className="font-semibold text-foreground">
+                    {bill.invoiceNumber}
+                    {bill.status === "cancelled" && <span className="ml-2 text-sm text-destructive">Cancelled</span>}
+                  </span>
                   <span className="text-sm text-muted-foreground">
                     {new Date(bill.createdAt).toLocaleDateString()}
                   </span>
@@ -264,7 +384,7 @@ export default function Customers() {
                   ))}
                 </div>
                 <div className="mt-2 pt-2 border-t">
-                  <p className="font-semibold text-foreground">Total: ₹{bill.total.toFixed(2)}</p>
+                  <p className="font-semibold text-foreground">Total: {formatRupees(bill.total)}</p>
                 </div>
               </div>
             ))}
@@ -1,13 +1,22 @@
-import { useEffect, useState, useMemo } from "react";
+import { useEffect, useState, useMemo, useCallback } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Package, Users, Receipt, AlertTriangle, TrendingUp, DollarSign, Calendar } from "lucide-react";
-import { productStorage, customerStorage, billStorage, Product, Bill } from "@/lib/storage";
+import { productStorage, customerStorage, billStorage, creditNoteStorage, Product, Bill, CreditNote } from "@/lib/storage";
+import type { PaymentMode } from "@/lib/storage";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useStorageChanges } from "@/hooks/use-storage-changes";
+import { formatRupees, roundRupees, sumRupees } from "@/lib/money";
+import { PAYMENT_MODES, balanceDue, modeShare, totalsByMode } from "@/lib/payments";
 import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
 
+// `share` of an amount in rupees, rounded to the paisa
+const partOf = (amount: number, share: number) => (share === 1 ? amount : roundRupees(amount * share));
+
 export default function Dashboard() {
   const [stats, setStats] = useState({
     totalProducts: 0,
@@ -17,74 +26,145 @@ export default function Dashboard() {
   });
   const [lowStockItems, setLowStockItems] = useState<Product[]>([]);
   const [bills, setBills] = useState<Bill[]>([]);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
   const [startDate, setStartDate] = useState(() => {
     const date = new Date();
     date.setDate(date.getDate() - 30);
     return date.toISOString().split('T')[0];
   });
   const [endDate, setEndDate] = useState(() => new Date().toISOString().split('T')[0]);
+  const [paymentMode, setPaymentMode] = useState<PaymentMode | "all">("all");
 
-  useEffect(() => {
-    const products = productStorage.getAll();
-    const customers = customerStorage.getAll();
-    const allBills = billStorage.getAll();
+  const loadStats = useCallback(async () => {
+    const [products, customers, totalBills] = await Promise.all([
+      productStorage.getAll(),
+      customerStorage.getAll(),
+      billStorage.count(),
+    ]);
     const lowStock = products.filter(p => p.stock <= p.minStock);
 
     setStats({
       totalProducts: products.length,
       totalCustomers: customers.length,
-      totalBills: allBills.length,
+      totalBills,
       lowStockProducts: lowStock.length,
     });
     setLowStockItems(lowStock);
-    setBills(allBills);
   }, []);
 
-  // Filter bills by date range
-  const filteredBills = useMemo(() => {
+  // Load bills and credit notes in the date range through the createdAt index
+  const loadBills = useCallback(() => {
     const start = new Date(startDate);
     const end = new Date(endDate);
     end.setHours(23, 59, 59, 999);
-    
-    return bills.filter(bill => {
-      const billDate = new Date(bill.createdAt);
-      return billDate >= start && billDate <= end;
-    });
-  }, [bills, startDate, endDate]);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) return;
+
+    billStorage.getByDateRange(start, end).then(setBills);
+    creditNoteStorage.getByDateRange(start, end).then(setCreditNotes);
+  }, [startDate, endDate]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  useEffect(() => {
+    loadBills();
+  }, [loadBills]);
 
-  // Calculate sales analytics
+  useStorageChanges(["products", "customers", "bills", "creditNotes"], () => {
+    loadStats();
+    loadBills();
+  });
+
+  // Cancelled bills are kept for the invoice series but earned nothing. With a mode
+  // chosen, each bill counts only for the part of it paid in that mode.
+  const filteredBills = useMemo(
+    () =>
+      bills
+        .filter(bill => bill.status !== "cancelled")
+        .map(bill => ({ bill, share: modeShare(bill, paymentMode) }))
+        .filter(({ share }) => share > 0),
+    [bills, paymentMode]
+  );
+
+  // Refunds go out in their own mode; returns settled on account reduce what is owed on credit
+  const filteredCreditNotes = useMemo(
+    () =>
+      creditNotes.filter(
+        note => paymentMode === "all" || (note.settlement === "refund" ? note.refundMode : "credit") === paymentMode
+      ),
+    [creditNotes, paymentMode]
+  );
+
+  // Calculate sales analytics; credit notes issued in the range are taken off revenue and GST
   const salesAnalytics = useMemo(() => {
-    const totalRevenue = filteredBills.reduce((sum, bill) => sum + bill.total, 0);
-    const totalDiscount = filteredBills.reduce((sum, bill) => sum + bill.discount, 0);
-    const totalGST = filteredBills.reduce((sum, bill) => sum + bill.gstAmount, 0);
-    const averageOrderValue = filteredBills.length > 0 ? totalRevenue / filteredBills.length : 0;
+    const returns = sumRupees(filteredCreditNotes.map(note => note.total));
+    const totalRevenue = sumRupees([...filteredBills.map(({ bill, share }) => partOf(bill.total, share)), -returns]);
+    // Line discounts and bill discounts together
+    const totalDiscount = sumRupees(
+      filteredBills.flatMap(({ bill, share }) => [partOf(bill.itemDiscount ?? 0, share), partOf(bill.discount, share)])
+    );
+    const totalGST = sumRupees([
+      ...filteredBills.map(({ bill, share }) => partOf(bill.gstAmount, share)),
+      ...filteredCreditNotes.map(note => -note.gstAmount),
+    ]);
+    const averageOrderValue = filteredBills.length > 0 ? roundRupees(totalRevenue / filteredBills.length) : 0;
+    const collected = totalsByMode(filteredBills.map(({ bill }) => bill));
+    const byMode = Object.fromEntries(
+      PAYMENT_MODES.map(({ mode }) => [mode, paymentMode === "all" || mode === paymentMode ? collected[mode] : 0])
+    ) as Record<PaymentMode, number>;
+    const outstanding = sumRupees(filteredBills.map(({ bill, share }) => partOf(balanceDue(bill), share)));
 
     return {
       totalRevenue,
+      returns,
       totalDiscount,
       totalGST,
       averageOrderValue,
+      byMode,
+      outstanding,
       orderCount: filteredBills.length,
     };
-  }, [filteredBills]);
+  }, [filteredBills, filteredCreditNotes, paymentMode]);
 
   // Group sales by date for chart
   const salesChartData = useMemo(() => {
     const dateMap = new Map<string, { date: string; revenue: number; orders: number }>();
 
-    filteredBills.forEach(bill => {
+    filteredBills.forEach(({ bill, share }) => {
       const dateKey = new Date(bill.createdAt).toLocaleDateString('en-GB');
       const existing = dateMap.get(dateKey) || { date: dateKey, revenue: 0, orders: 0 };
-      existing.revenue += bill.total;
+      existing.revenue = sumRupees([existing.revenue, partOf(bill.total, share)]);
       existing.orders += 1;
       dateMap.set(dateKey, existing);
     });
+    filteredCreditNotes.forEach(note => {
+      const dateKey = new Date(note.createdAt).toLocaleDateString('en-GB');
+      const existing = dateMap.get(dateKey) || { date: dateKey, revenue: 0, orders: 0 };
+      existing.revenue = sumRupees([existing.revenue, -note.total]);
+      dateMap.set(dateKey, existing);
+    });
 
     return Array.from(dateMap.values()).sort((a, b) => {
       const [dayA, monthA, yearA] = a.date.split('/').map(Number);
       const [dayB, monthB, yearB] = b.date.split('/').map(Number);
       return new Date(yearA, monthA - 1, dayA).getTime() - new Date(yearB, monthB - 1, dayB).getTime();
     });
+  }, [filteredBills, filteredCreditNotes]);
+
+  // Best sellers by sales value in the range, before returns. Sales take the bill's share
+  // in the chosen mode; quantity counts every unit on a bill paid at least partly in it.
+  const topProducts = useMemo(() => {
+    const byProduct = new Map<string, { productId: string; name: string; quantity: number; sales: number }>();
+    for (const { bill, share } of filteredBills) {
+      for (const item of bill.items) {
+        const existing = byProduct.get(item.productId) || { productId: item.productId, name: item.productName, quantity: 0, sales: 0 };
+        existing.quantity += item.quantity;
+        existing.sales = sumRupees([existing.sales, partOf(item.total, share)]);
+        byProduct.set(item.productId, existing);
+      }
+    }
+    return [...byProduct.values()].sort((a, b) => b.sales - a.sales).slice(0, 5);
   }, [filteredBills]);
 
   const statCards = [
@@ -151,6 +231,22 @@ export default function Dashboard() {
                 max={new Date().toISOString().split('T')[0]}
               />
             </div>
+            <div className="min-w-[180px]">
+              <Label>Payment Mode</Label>
+              <Select value={paymentMode} onValueChange={(value) => setPaymentMode(value as PaymentMode | "all")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Modes</SelectItem>
+                  {PAYMENT_MODES.map(({ mode, label }) => (
+                    <SelectItem key={mode} value={mode}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <Button 
               variant="outline" 
               onClick={() => {
@@ -176,10 +272,11 @@ export default function Dashboard() {
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold text-foreground">
-                  ₹{salesAnalytics.totalRevenue.toFixed(2)}
+                  {formatRupees(salesAnalytics.totalRevenue)}
                 </div>
                 <p className="text-xs text-muted-foreground mt-1">
                   {salesAnalytics.orderCount} orders
+                  {salesAnalytics.returns > 0 && `, net of ${formatRupees(salesAnalytics.returns)} returned`}
                 </p>
               </CardContent>
             </Card>
@@ -193,7 +290,7 @@ export default function Dashboard() {
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold text-foreground">
-                  ₹{salesAnalytics.averageOrderValue.toFixed(2)}
+                  {formatRupees(salesAnalytics.averageOrderValue)}
                 </div>
               </CardContent>
             </Card>
@@ -207,7 +304,7 @@ export default function Dashboard() {
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold text-foreground">
-                  ₹{salesAnalytics.totalDiscount.toFixed(2)}
+                  {formatRupees(salesAnalytics.totalDiscount)}
                 </div>
               </CardContent>
             </Card>
@@ -221,12 +318,54 @@ export default function Dashboard() {
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold text-foreground">
-                  ₹{salesAnalytics.totalGST.toFixed(2)}
+                  {formatRupees(salesAnalytics.totalGST)}
                 </div>
               </CardContent>
             </Card>
           </div>
 
+          {/* Collections by payment mode */}
+          <div className="mb-6">
+            <h4 className="text-sm font-semibold mb-3 text-foreground">Payments by Mode</h4>
+            <div className="grid gap-4 grid-cols-2 lg:grid-cols-5">
+              {PAYMENT_MODES.map(({ mode, label }) => (
+                <div key={mode} className="border rounded-lg p-3">
+                  <div className="text-xs text-muted-foreground">{label}</div>
+                  <div className="text-lg font-semibold text-foreground">{formatRupees(salesAnalytics.byMode[mode])}</div>
+                </div>
+              ))}
+              <div className="border rounded-lg p-3">
+                <div className="text-xs text-muted-foreground">Outstanding</div>
+                <div className="text-lg font-semibold text-destructive">{formatRupees(salesAnalytics.outstanding)}</div>
+              </div>
+            </div>
+          </div>
+
+          {/* Top products */}
+          {topProducts.length > 0 && (
+            <div className="mb-6">
+              <h4 className="text-sm font-semibold mb-3 text-foreground">Top Products</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Qty Sold</TableHead>
+                    <TableHead className="text-right">Sales</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {topProducts.map((product) => (
+                    <TableRow key={product.productId}>
+                      <TableCell className="font-medium">{product.name}</TableCell>
+                      <TableCell className="text-right">{product.quantity}</TableCell>
+                      <TableCell className="text-right">{formatRupees(product.sales)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
           {/* Sales Chart */}
           {salesChartData.length > 0 ? (
             <div className="space-y-4">
@@ -6,6 +6,7 @@ import { Label } from "@/components/ui/label";
 import { Plus, Minus } from "lucide-react";
 import { productStorage, Product } from "@/lib/storage";
 import { toast } from "sonner";
+import { useStorageChanges } from "@/hooks/use-storage-changes";
 import {
   Dialog,
   DialogContent,
@@ -26,15 +27,17 @@ export default function Inventory() {
     loadProducts();
   }, []);
 
-  const loadProducts = () => {
-    setProducts(productStorage.getAll());
+  const loadProducts = async () => {
+    setProducts(await productStorage.getAll());
   };
 
-  const handleStockUpdate = () => {
+  useStorageChanges(["products"], loadProducts);
+
+  const handleStockUpdate = async () => {
     if (!selectedProduct || !quantity) return;
 
     const change = operation === "add" ? parseInt(quantity) : -parseInt(quantity);
-    const success = productStorage.updateStock(selectedProduct.id, change);
+    const success = await productStorage.updateStock(selectedProduct.id, change);
 
     if (success) {
       toast.success(`Stock ${operation === "add" ? "added" : "removed"} successfully`);
@@ -85,6 +88,7 @@ export default function Inventory() {
                     </div>
                     <p className="text-sm text-muted-foreground">
                       Current: {product.stock} {product.unit} | Min: {product.minStock} {product.unit}
+                      {!!product.damagedStock && ` | Damaged: ${product.damagedStock} ${product.unit}`}
                     </p>
                   </div>
                   <div className="flex gap-2">
@@ -5,7 +5,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Plus, Edit, Trash2, Upload, Download } from "lucide-react";
 import { productStorage, Product } from "@/lib/storage";
+import { ValidationError } from "@/lib/schemas";
+import { DEFAULT_GST_RATE, GST_RATES } from "@/lib/gst";
 import { toast } from "sonner";
+import { useStorageChanges } from "@/hooks/use-storage-changes";
 import { exportProductsToExcel, importProductsFromExcel } from "@/lib/excelSync";
 import { useRef } from "react";
 import {
@@ -34,7 +37,10 @@ export default function Products() {
     stock: "",
     minStock: "",
     unit: "pcs",
+    hsnCode: "",
+    gstRate: String(DEFAULT_GST_RATE),
   });
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
   const [isImporting, setIsImporting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -42,34 +48,50 @@ export default function Products() {
     loadProducts();
   }, []);
 
-  const loadProducts = () => {
-    setProducts(productStorage.getAll());
+  const loadProducts = async () => {
+    setProducts(await productStorage.getAll());
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  useStorageChanges(["products"], loadProducts);
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (editingProduct) {
-      productStorage.update(editingProduct.id, {
-        name: formData.name,
-        parentId: formData.parentId || null,
-        price: parseFloat(formData.price),
-        minStock: parseInt(formData.minStock),
-        unit: formData.unit,
-      });
-      toast.success("Product updated successfully");
-    } else {
-      productStorage.add({
-        name: formData.name,
-        parentId: formData.parentId || null,
-        price: parseFloat(formData.price),
-        stock: parseInt(formData.stock),
-        minStock: parseInt(formData.minStock),
-        unit: formData.unit,
-      });
-      toast.success("Product added successfully");
+
+    // Top-level categories carry no price or stock of their own
+    const isCategory = !formData.parentId;
+    try {
+      if (editingProduct) {
+        await productStorage.update(editingProduct.id, {
+          name: formData.name,
+          parentId: formData.parentId || null,
+          price: isCategory ? 0 : parseFloat(formData.price),
+          minStock: isCategory ? 0 : parseInt(formData.minStock),
+          unit: formData.unit,
+          hsnCode: formData.hsnCode,
+          gstRate: parseFloat(formData.gstRate),
+        });
+        toast.success("Product updated successfully");
+      } else {
+        await productStorage.add({
+          name: formData.name,
+          parentId: formData.parentId || null,
+          price: isCategory ? 0 : parseFloat(formData.price),
+          stock: isCategory ? 0 : parseInt(formData.stock),
+          minStock: isCategory ? 0 : parseInt(formData.minStock),
+          unit: formData.unit,
+          hsnCode: formData.hsnCode,
+          gstRate: parseFloat(formData.gstRate),
+        });
+        toast.success("Product added successfully");
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        setFormErrors(error.fieldErrors);
+        return;
+      }
+      throw error;
     }
-    
+
     loadProducts();
     resetForm();
     setOpen(false);
@@ -77,6 +99,7 @@ export default function Products() {
 
   const handleEdit = (product: Product) => {
     setEditingProduct(product);
+    setFormErrors({});
     setFormData({
       name: product.name,
       parentId: product.parentId || "",
@@ -84,20 +107,32 @@ export default function Products() {
       stock: product.stock.toString(),
       minStock: product.minStock.toString(),
       unit: product.unit,
+      hsnCode: product.hsnCode,
+      gstRate: product.gstRate.toString(),
     });
     setOpen(true);
   };
 
-  const handleDelete = (id: string) => {
+  const handleDelete = async (id: string) => {
     if (confirm("Are you sure you want to delete this product?")) {
-      productStorage.delete(id);
+      await productStorage.delete(id);
       loadProducts();
-      toast.success("Product deleted successfully");
+      toast.success("Product moved to the Recycle Bin");
     }
   };
 
   const resetForm = () => {
-    setFormData({ name: "", parentId: "", price: "", stock: "", minStock: "", unit: "pcs" });
+    setFormData({
+      name: "",
+      parentId: "",
+      price: "",
+      stock: "",
+      minStock: "",
+      unit: "pcs",
+      hsnCode: "",
+      gstRate: String(DEFAULT_GST_RATE),
+    });
+    setFormErrors({});
     setEditingProduct(null);
   };
 
@@ -190,6 +225,7 @@ export default function Products() {
                   onChange={(e) => setFormData({ ...formData, name: e.target.value })}
                   required
                 />
+                {formErrors.name && <p className="text-xs text-destructive mt-1">{formErrors.name}</p>}
               </div>
               <div>
                 <Label htmlFor="parent">Parent Category (Optional)</Label>
@@ -220,6 +256,7 @@ export default function Products() {
                   {!formData.parentId && (
                     <p className="text-xs text-muted-foreground mt-1">Price can only be set for child products</p>
                   )}
+                  {formErrors.price && <p className="text-xs text-destructive mt-1">{formErrors.price}</p>}
                 </div>
                 <div>
                   <Label htmlFor="unit">Unit</Label>
@@ -236,6 +273,33 @@ export default function Products() {
                   </Select>
                 </div>
               </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="hsnCode">HSN Code</Label>
+                  <Input
+                    id="hsnCode"
+                    value={formData.hsnCode}
+                    onChange={(e) => setFormData({ ...formData, hsnCode: e.target.value })}
+                    placeholder="e.g. 1006"
+                    inputMode="numeric"
+                  />
+                  {formErrors.hsnCode && <p className="text-xs text-destructive mt-1">{formErrors.hsnCode}</p>}
+                </div>
+                <div>
+                  <Label htmlFor="gstRate">GST Rate</Label>
+                  <Select value={formData.gstRate} onValueChange={(value) => setFormData({ ...formData, gstRate: value })}>
+                    <SelectTrigger id="gstRate">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GST_RATES.map((rate) => (
+                        <SelectItem key={rate} value={String(rate)}>{rate}%</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {formErrors.gstRate && <p className="text-xs text-destructive mt-1">{formErrors.gstRate}</p>}
+                </div>
+              </div>
               {!editingProduct && (
                 <div>
                   <Label htmlFor="stock">Initial Stock</Label>
@@ -250,6 +314,7 @@ export default function Products() {
                   {!formData.parentId && (
                     <p className="text-xs text-muted-foreground mt-1">Stock can only be set for child products</p>
                   )}
+                  {formErrors.stock && <p className="text-xs text-destructive mt-1">{formErrors.stock}</p>}
                 </div>
               )}
               <div>
@@ -265,6 +330,7 @@ export default function Products() {
                 {!formData.parentId && (
                   <p className="text-xs text-muted-foreground mt-1">Minimum stock can only be set for child products</p>
                 )}
+                {formErrors.minStock && <p className="text-xs text-destructive mt-1">{formErrors.minStock}</p>}
               </div>
               <Button type="submit" className="w-full">
                 {editingProduct ? "Update Product" : "Add Product"}
@@ -307,7 +373,8 @@ export default function Products() {
                         <div className="flex-1">
                           <p className="font-medium text-foreground">{child.name}</p>
                           <p className="text-sm text-muted-foreground">
-                            ₹{child.price} per {child.unit} | Stock: {child.stock} {child.unit}
+                            ₹{child.price} per {child.unit} | Stock: {child.stock} {child.unit} | GST {child.gstRate}%
+                            {child.hsnCode && ` | HSN ${child.hsnCode}`}
                           </p>
                         </div>
                         <div className="flex gap-2">
@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  customerStorage,
+  productStorage,
+  quotationStorage,
+  shopProfileStorage,
+  DEFAULT_SHOP_PROFILE,
+} from "@/lib/storage";
+import type { Customer, Quotation, ShopProfile } from "@/lib/storage";
+import { formatRupees } from "@/lib/money";
+import { calculateBillInvoice } from "@/lib/invoice";
+import {
+  QUOTATION_STATUS_LABELS,
+  quotationStatus,
+  stockShortfalls,
+  type QuotationStatus,
+} from "@/lib/quotations";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TaxInvoice } from "@/components/TaxInvoice";
+import { ClipboardList, FileCheck, Printer, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useStorageChanges } from "@/hooks/use-storage-changes";
+
+const statusVariants: Record<QuotationStatus, "default" | "secondary" | "outline"> = {
+  open: "default",
+  expired: "secondary",
+  converted: "outline",
+};
+
+export default function Quotations() {
+  const [quotations, setQuotations] = useState<Quotation[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [shopProfile, setShopProfile] = useState<ShopProfile>(DEFAULT_SHOP_PROFILE);
+  const [filterStatus, setFilterStatus] = useState<QuotationStatus | "all">("all");
+  const [printQuotation, setPrintQuotation] = useState<Quotation | null>(null);
+  const navigate = useNavigate();
+
+  const loadData = useCallback(async () => {
+    setQuotations(await quotationStorage.getAll());
+    setCustomers(await customerStorage.getAll());
+    setShopProfile(await shopProfileStorage.get());
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  useStorageChanges(["quotations", "customers"], loadData);
+
+  useEffect(() => {
+    const clearQuotation = () => setPrintQuotation(null);
+    window.addEventListener("afterprint", clearQuotation);
+    return () => window.removeEventListener("afterprint", clearQuotation);
+  }, []);
+
+  const filteredQuotations = useMemo(() => {
+    return quotations
+      .filter(quotation => filterStatus === "all" || quotationStatus(quotation) === filterStatus)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }, [quotations, filterStatus]);
+
+  const handlePrint = (quotation: Quotation) => {
+    setPrintQuotation(quotation);
+    setTimeout(() => window.print(), 100);
+  };
+
+  // Stock may have moved since the quotation was made, so it is checked again before billing
+  const handleConvert = async (quotation: Quotation) => {
+    const short = stockShortfalls(quotation.items, await productStorage.getAll());
+    if (short.length > 0) {
+      toast.error(
+        `Not enough stock to convert ${quotation.quotationNumber}: ${short
+          .map(s => `${s.productName} needs ${s.quantity}, ${s.available} left`)
+          .join("; ")}`
+      );
+      return;
+    }
+    navigate(`/billing?quotation=${quotation.id}`);
+  };
+
+  const handleDelete = async (quotation: Quotation) => {
+    if (confirm(`Delete quotation ${quotation.quotationNumber}?`)) {
+      await quotationStorage.delete(quotation.id);
+      toast.success(`${quotation.quotationNumber} deleted`);
+      loadData();
+    }
+  };
+
+  const printCustomer = printQuotation ? customers.find(c => c.id === printQuotation.customerId) : undefined;
+
+  return (
+    <>
+      {printQuotation && (
+        <div id="thermal-print-area" className="print:block hidden">
+          <TaxInvoice
+            shop={shopProfile}
+            invoiceNumber={printQuotation.quotationNumber}
+            date={printQuotation.createdAt}
+            customer={{
+              name: printQuotation.customerName,
+              phone: printCustomer?.phone,
+              gstin: printQuotation.customerGstin ?? printCustomer?.gstin,
+              state: printCustomer?.state,
+            }}
+            placeOfSupply={printQuotation.placeOfSupply}
+            items={printQuotation.items}
+            invoice={calculateBillInvoice(printQuotation)}
+            discountType={printQuotation.discountType}
+            validUntil={printQuotation.validUntil}
+          />
+        </div>
+      )}
+
+      <div className="space-y-6 print:hidden">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight text-foreground">Quotations</h2>
+          <p className="text-muted-foreground">
+            Price estimates saved from the Billing page; convert one into a bill when the customer orders
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="flex items-center gap-2 text-foreground">
+              <ClipboardList className="h-5 w-5" />
+              Quotations ({filteredQuotations.length})
+            </CardTitle>
+            <Select value={filterStatus} onValueChange={(value) => setFilterStatus(value as QuotationStatus | "all")}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                {(Object.keys(QUOTATION_STATUS_LABELS) as QuotationStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>{QUOTATION_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Quotation</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Valid Until</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredQuotations.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      No quotations yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredQuotations.map((quotation) => {
+                    const status = quotationStatus(quotation);
+                    return (
+                      <TableRow key={quotation.id}>
+                        <TableCell className="font-medium">{quotation.quotationNumber}</TableCell>
+                        <TableCell>{new Date(quotation.createdAt).toLocaleDateString()}</TableCell>
+                        <TableCell>{quotation.customerName}</TableCell>
+                        <TableCell className="text-right">{formatRupees(quotation.total)}</TableCell>
+                        <TableCell>{new Date(`${quotation.validUntil}T00:00:00`).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariants[status]}>{QUOTATION_STATUS_LABELS[status]}</Badge>
+                          {quotation.invoiceNumber && (
+                            <div className="text-xs text-muted-foreground mt-1">{quotation.invoiceNumber}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button variant="outline" size="icon" onClick={() => handlePrint(quotation)}>
+                              <Printer className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={status !== "open"}
+                              onClick={() => handleConvert(quotation)}
+                            >
+                              <FileCheck className="mr-1 h-4 w-4" />
+                              Convert to Bill
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={status === "converted"}
+                              onClick={() => handleDelete(quotation)}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  );
+}
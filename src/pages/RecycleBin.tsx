@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { recycleBinStorage, RecycleBinError } from "@/lib/storage";
+import { ValidationError } from "@/lib/schemas";
+import { formatRupees } from "@/lib/money";
+import type { Bill, Customer, Product, RecyclableTable, RecycledItem } from "@/lib/storage";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useStorageChanges } from "@/hooks/use-storage-changes";
+
+const typeLabels: Record<RecyclableTable, string> = {
+  products: "Product",
+  customers: "Customer",
+  bills: "Bill",
+};
+
+const describeItem = ({ table, record }: RecycledItem) => {
+  if (table === "bills") {
+    const bill = record as Bill;
+    return { name: bill.invoiceNumber, detail: `${bill.customerName} · ${formatRupees(bill.total)}` };
+  }
+  if (table === "customers") {
+    const customer = record as Customer;
+    return { name: customer.name, detail: customer.phone };
+  }
+  const product = record as Product;
+  return { name: product.name, detail: `${product.stock} ${product.unit} in stock` };
+};
+
+export default function RecycleBin() {
+  const [items, setItems] = useState<RecycledItem[]>([]);
+  const [filterType, setFilterType] = useState<string>("all");
+
+  const loadItems = useCallback(async () => {
+    setItems(await recycleBinStorage.getAll());
+  }, []);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  useStorageChanges(["products", "customers", "bills"], loadItems);
+
+  const filteredItems = useMemo(() => {
+    return items
+      .filter(item => filterType === "all" || item.table === filterType)
+      .sort((a, b) => (b.record.deletedAt || "").localeCompare(a.record.deletedAt || ""));
+  }, [items, filterType]);
+
+  const handleRestore = async (item: RecycledItem) => {
+    const { name } = describeItem(item);
+    try {
+      await recycleBinStorage.restore(item.table, item.record.id);
+      toast.success(
+        item.table === "bills" ? `${name} restored and stock deducted again` : `${name} restored`
+      );
+      loadItems();
+    } catch (error) {
+      if (error instanceof RecycleBinError || error instanceof ValidationError) {
+        toast.error(error.message);
+      } else {
+        throw error;
+      }
+    }
+  };
+
+  const handlePurge = async (item: RecycledItem) => {
+    const { name } = describeItem(item);
+    if (confirm(`Permanently delete ${name}? This cannot be undone.`)) {
+      await recycleBinStorage.purge(item.table, item.record.id);
+      toast.success(`${name} permanently deleted`);
+      loadItems();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight text-foreground">Recycle Bin</h2>
+        <p className="text-muted-foreground">Restore deleted bills, products and customers, or delete them for good</p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <Trash2 className="h-5 w-5" />
+            Deleted Items ({filteredItems.length})
+          </CardTitle>
+          <Select value={filterType} onValueChange={setFilterType}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Types</SelectItem>
+              {Object.entries(typeLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead>Deleted</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredItems.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    The Recycle Bin is empty
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredItems.map((item) => {
+                  const { name, detail } = describeItem(item);
+                  return (
+                    <TableRow key={`${item.table}:${item.record.id}`}>
+                      <TableCell>
+                        <Badge variant="outline">{typeLabels[item.table]}</Badge>
+                      </TableCell>
+                      <TableCell className="font-medium">{name}</TableCell>
+                      <TableCell className="text-muted-foreground">{detail}</TableCell>
+                      <TableCell>{new Date(item.record.deletedAt!).toLocaleString()}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => handleRestore(item)}>
+                            <RotateCcw className="mr-1 h-4 w-4" />
+                            Restore
+                          </Button>
+                          {/* Invoices keep their number; only restoring them is allowed */}
+                          {item.table !== "bills" && (
+                            <Button variant="ghost" size="sm" onClick={() => handlePurge(item)}>
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
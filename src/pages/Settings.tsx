@@ -0,0 +1,350 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Clock, Database, Hash, ListChecks } from "lucide-react";
+import { toast } from "sonner";
+import { getStorageBackend, numberSeriesStorage } from "@/lib/storage";
+import {
+  CURRENT_SCHEMA_VERSION,
+  getLastMigrationReport,
+  getSchemaVersion,
+  runMigrations,
+  type MigrationReport,
+} from "@/lib/migrations";
+import {
+  DEFAULT_SERIES,
+  DOCUMENT_TYPES,
+  DOCUMENT_TYPE_LABELS,
+  formatDocumentNumber,
+  validateTemplate,
+  type DocumentType,
+  type GapReport,
+  type NumberSeries,
+} from "@/lib/invoiceNumbering";
+import { getHoldExpiryHours, saveHoldExpiryHours } from "@/lib/heldBills";
+import { downloadArchive, getPreMigrationBackup } from "@/lib/backup";
+import { useStorageChanges } from "@/hooks/use-storage-changes";
+import { BackupRestoreCard } from "@/components/BackupRestoreCard";
+import { IntegrityCheckCard } from "@/components/IntegrityCheckCard";
+import { ShopProfileCard } from "@/components/ShopProfileCard";
+
+export default function Settings() {
+  const [series, setSeries] = useState<Record<DocumentType, NumberSeries>>(DEFAULT_SERIES);
+  const [nextNumbers, setNextNumbers] = useState<Partial<Record<DocumentType, string>>>({});
+  const [reportType, setReportType] = useState<DocumentType>("invoice");
+  const [report, setReport] = useState<GapReport | null>(null);
+  const [schemaVersion, setSchemaVersion] = useState<number | null>(null);
+  const [migrationReport, setMigrationReport] = useState<MigrationReport | null>(null);
+  const [holdExpiry, setHoldExpiry] = useState(() => String(getHoldExpiryHours()));
+
+  const loadSeries = useCallback(async () => {
+    setSeries(await numberSeriesStorage.getAll());
+    const previews = await Promise.all(DOCUMENT_TYPES.map((type) => numberSeriesStorage.preview(type)));
+    setNextNumbers(Object.fromEntries(DOCUMENT_TYPES.map((type, i) => [type, previews[i]])));
+  }, []);
+
+  const loadReport = useCallback(async () => {
+    setReport(await numberSeriesStorage.gapReport(reportType));
+  }, [reportType]);
+
+  useEffect(() => {
+    loadSeries();
+  }, [loadSeries]);
+
+  const loadSchema = useCallback(async () => {
+    const db = getStorageBackend();
+    setSchemaVersion(await getSchemaVersion(db));
+    setMigrationReport(await getLastMigrationReport(db));
+  }, []);
+
+  useEffect(() => {
+    loadSchema();
+  }, [loadSchema]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  useStorageChanges(["bills"], () => {
+    loadSeries();
+    loadReport();
+  });
+
+  const updateSeries = (type: DocumentType, updates: Partial<NumberSeries>) => {
+    setSeries({ ...series, [type]: { ...series[type], ...updates } });
+  };
+
+  const handleSave = async (type: DocumentType) => {
+    const error = validateTemplate(series[type].template, series[type].resetEachFinancialYear);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    await numberSeriesStorage.save(type, series[type]);
+    toast.success(`${DOCUMENT_TYPE_LABELS[type]} numbering saved`);
+    loadSeries();
+    loadReport();
+  };
+
+  const handleSaveHoldExpiry = () => {
+    const hours = parseFloat(holdExpiry);
+    if (!(hours > 0)) {
+      toast.error("Enter a number of hours above zero");
+      return;
+    }
+    saveHoldExpiryHours(hours);
+    toast.success(`Held bills now expire after ${hours} hour(s)`);
+  };
+
+  const handleDryRun = async () => {
+    const result = await runMigrations(getStorageBackend(), { dryRun: true });
+    if (result.steps.length === 0) {
+      toast.success(`Stored data is up to date (schema v${result.fromVersion})`);
+    } else {
+      setMigrationReport(result);
+    }
+  };
+
+  const handleDownloadPreMigration = async () => {
+    const archive = await getPreMigrationBackup();
+    if (archive) downloadArchive(archive);
+    else toast.error("No copy from before the migration is kept on this device");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight text-foreground">Settings</h2>
+        <p className="text-muted-foreground">Document numbering and shop configuration</p>
+      </div>
+
+      <ShopProfileCard />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <Hash className="h-5 w-5" />
+            Document Numbering
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Tokens: {"{FY}"} 25-26, {"{FYYYY}"} 2025-26, {"{YYYY}"}, {"{YY}"}, {"{MM}"}, {"{SEQ}"} or {"{SEQ:4}"} for a zero-padded number,
+            {"{DEV}"} this device's code. The financial year runs from 1 April. With cloud sync on, each device
+            numbers its own series and puts its code in front unless the template places {"{DEV}"} itself.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {DOCUMENT_TYPES.map((type) => {
+            const current = series[type];
+            const templateError = validateTemplate(current.template, current.resetEachFinancialYear);
+            return (
+              <div key={type} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold text-foreground">{DOCUMENT_TYPE_LABELS[type]}</h3>
+                  <span className="text-sm text-muted-foreground">
+                    Next: <span className="font-mono text-foreground">{nextNumbers[type]}</span>
+                  </span>
+                </div>
+                <div className="grid gap-4 md:grid-cols-[1fr_140px_auto_auto] items-end">
+                  <div>
+                    <Label htmlFor={`${type}-template`}>Template</Label>
+                    <Input
+                      id={`${type}-template`}
+                      value={current.template}
+                      onChange={(e) => updateSeries(type, { template: e.target.value })}
+                      className="font-mono"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${type}-start`}>Start at</Label>
+                    <Input
+                      id={`${type}-start`}
+                      type="number"
+                      min="1"
+                      value={current.startAt}
+                      onChange={(e) => updateSeries(type, { startAt: parseInt(e.target.value) || 1 })}
+                    />
+                  </div>
+                  <div className="flex items-center gap-2 pb-2">
+                    <Switch
+                      id={`${type}-reset`}
+                      checked={current.resetEachFinancialYear}
+                      onCheckedChange={(checked) => updateSeries(type, { resetEachFinancialYear: checked })}
+                    />
+                    <Label htmlFor={`${type}-reset`}>Reset on 1 April</Label>
+                  </div>
+                  <Button onClick={() => handleSave(type)} disabled={!!templateError}>
+                    Save
+                  </Button>
+                </div>
+                <p className={templateError ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>
+                  {templateError || `Example: ${formatDocumentNumber(current, current.startAt, new Date())}`}
+                </p>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <ListChecks className="h-5 w-5" />
+            Sequence Gap Report
+          </CardTitle>
+          <Select value={reportType} onValueChange={(value) => setReportType(value as DocumentType)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DOCUMENT_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>{DOCUMENT_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Period</TableHead>
+                <TableHead className="text-right">First</TableHead>
+                <TableHead className="text-right">Last</TableHead>
+                <TableHead className="text-right">Issued</TableHead>
+                <TableHead>Missing</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!report || report.periods.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No documents issued yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                report.periods.map((period) => {
+                  const continuous = period.missing.length === 0 && period.duplicates.length === 0;
+                  return (
+                    <TableRow key={`${period.period}-${period.device ?? ""}`}>
+                      <TableCell className="font-medium">
+                        {period.period === "all" ? "All" : `FY ${period.period}`}
+                        {period.device && ` · device ${period.device}`}
+                      </TableCell>
+                      <TableCell className="text-right">{period.first}</TableCell>
+                      <TableCell className="text-right">{period.last}</TableCell>
+                      <TableCell className="text-right">{period.issued}</TableCell>
+                      <TableCell className="max-w-xs text-sm text-muted-foreground">
+                        {period.missing.length > 0 ? period.missing.join(", ") : "—"}
+                        {period.duplicates.length > 0 && (
+                          <div className="text-destructive">Duplicates: {period.duplicates.join(", ")}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={continuous ? "outline" : "destructive"}>
+                          {continuous ? "Continuous" : "Gaps found"}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+          {report && report.unmatched.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {report.unmatched.length} number(s) do not match the current template and were not checked:{" "}
+              {report.unmatched.slice(0, 10).join(", ")}
+              {report.unmatched.length > 10 && ", …"}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <Clock className="h-5 w-5" />
+            Held Bills
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Bills held on the Billing page are discarded when left untouched for this long. Kept on this device only.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end gap-4">
+            <div>
+              <Label htmlFor="hold-expiry">Expire after (hours)</Label>
+              <Input
+                id="hold-expiry"
+                type="number"
+                min="1"
+                value={holdExpiry}
+                onChange={(e) => setHoldExpiry(e.target.value)}
+                className="w-32"
+              />
+            </div>
+            <Button onClick={handleSaveHoldExpiry}>Save</Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <BackupRestoreCard
+        onRestored={() => {
+          loadSeries();
+          loadReport();
+          loadSchema();
+        }}
+      />
+
+      <IntegrityCheckCard />
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <Database className="h-5 w-5" />
+            Data Schema
+          </CardTitle>
+          <Button variant="outline" onClick={handleDryRun}>
+            Dry Run
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          <p className="text-muted-foreground">
+            Stored data is at schema <span className="font-medium text-foreground">v{schemaVersion ?? "…"}</span>;
+            this version of the app uses <span className="font-medium text-foreground">v{CURRENT_SCHEMA_VERSION}</span>.
+          </p>
+          {migrationReport && (
+            <div className="border rounded-lg p-3 space-y-2">
+              <p className="font-medium text-foreground">
+                {migrationReport.dryRun ? "Dry run" : "Last migration"}: v{migrationReport.fromVersion} → v{migrationReport.toVersion}
+                <span className="font-normal text-muted-foreground"> · {new Date(migrationReport.ranAt).toLocaleString()}</span>
+              </p>
+              {migrationReport.steps.map((step) => (
+                <div key={step.version} className="text-muted-foreground">
+                  v{step.version}: {step.description} —{" "}
+                  {Object.entries(step.changed).length > 0
+                    ? Object.entries(step.changed).map(([target, count]) => `${count} ${target}`).join(", ")
+                    : "no records changed"}
+                </div>
+              ))}
+              {migrationReport.backupKey && (
+                <p className="text-xs text-muted-foreground">
+                  A copy of the data from before the migration is kept on this device.{" "}
+                  <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={handleDownloadPreMigration}>
+                    Download it
+                  </Button>
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * In-memory stand-in for the browser's localStorage; vitest runs in Node, which
+ * has none. Items are own properties and the methods live on the prototype, so
+ * `Object.keys(storage)` lists stored keys as it does in a browser.
+ */
+export class MemoryStorage {
+  [key: string]: unknown;
+
+  get length() {
+    return Object.keys(this).length;
+  }
+
+  key(index: number) {
+    return Object.keys(this)[index] ?? null;
+  }
+
+  getItem(key: string) {
+    return Object.prototype.hasOwnProperty.call(this, key) ? String(this[key]) : null;
+  }
+
+  setItem(key: string, value: string) {
+    this[key] = String(value);
+  }
+
+  removeItem(key: string) {
+    delete this[key];
+  }
+
+  clear() {
+    Object.keys(this).forEach(key => delete this[key]);
+  }
+}
@@ -0,0 +1,137 @@
+-- Products, customers, bills and bill items mirrored from the local store.
+--
+-- Ids are generated on the device (crypto.randomUUID or Excel imports), so they
+-- are plain text. Every table carries updated_at for incremental pulls and
+-- deleted_at as a tombstone so deletions reach other devices. Pulls page through
+-- (updated_at, id), so rows stamped in the same instant are never skipped.
+-- Fields the app adds before a migration catches up travel in the `extra`
+-- jsonb column.
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- clock_timestamp() moves on within a statement, unlike now(), so a bulk
+  -- upsert does not give every row one timestamp
+  new.updated_at = clock_timestamp();
+  return new;
+end;
+$$;
+
+create table public.products (
+  id text primary key,
+  name text not null,
+  parent_id text,
+  price numeric(12, 2) not null default 0,
+  stock numeric(12, 3) not null default 0,
+  min_stock numeric(12, 3) not null default 0,
+  unit text not null default 'pcs',
+  extra jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz
+);
+
+create table public.customers (
+  id text primary key,
+  name text not null,
+  phone text not null default '',
+  address text not null default '',
+  extra jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz
+);
+
+create table public.bills (
+  id text primary key,
+  invoice_number text not null unique,
+  customer_id text not null,
+  customer_name text not null default '',
+  subtotal numeric(12, 2) not null default 0,
+  discount numeric(12, 2) not null default 0,
+  gst_percent numeric(5, 2) not null default 0,
+  gst_amount numeric(12, 2) not null default 0,
+  total numeric(12, 2) not null default 0,
+  extra jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz
+);
+
+create table public.bill_items (
+  bill_id text not null references public.bills (id) on delete cascade,
+  line_no integer not null,
+  product_id text not null,
+  product_name text not null,
+  quantity numeric(12, 3) not null,
+  price numeric(12, 2) not null,
+  total numeric(12, 2) not null,
+  extra jsonb not null default '{}'::jsonb,
+  primary key (bill_id, line_no)
+);
+
+create index products_updated_at_idx on public.products (updated_at, id);
+create index customers_updated_at_idx on public.customers (updated_at, id);
+create index bills_updated_at_idx on public.bills (updated_at, id);
+create index bills_created_at_idx on public.bills (created_at);
+create index bills_customer_id_idx on public.bills (customer_id);
+
+create trigger products_set_updated_at before insert or update on public.products
+  for each row execute function public.set_updated_at();
+create trigger customers_set_updated_at before insert or update on public.customers
+  for each row execute function public.set_updated_at();
+create trigger bills_set_updated_at before insert or update on public.bills
+  for each row execute function public.set_updated_at();
+
+-- Upserts bills and replaces their items in one transaction, so a failed push
+-- never leaves a bill without its lines. Each element is a bills row plus an
+-- `items` array of bill_items rows.
+create or replace function public.save_bills(bills jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  insert into public.bills (
+    id, invoice_number, customer_id, customer_name, subtotal, discount,
+    gst_percent, gst_amount, total, extra, created_at, deleted_at
+  )
+  select id, invoice_number, customer_id, customer_name, subtotal, discount,
+    gst_percent, gst_amount, total, coalesce(extra, '{}'::jsonb), coalesce(created_at, now()), deleted_at
+  from jsonb_populate_recordset(null::public.bills, bills)
+  on conflict (id) do update set
+    invoice_number = excluded.invoice_number,
+    customer_id = excluded.customer_id,
+    customer_name = excluded.customer_name,
+    subtotal = excluded.subtotal,
+    discount = excluded.discount,
+    gst_percent = excluded.gst_percent,
+    gst_amount = excluded.gst_amount,
+    total = excluded.total,
+    extra = excluded.extra,
+    created_at = excluded.created_at,
+    deleted_at = excluded.deleted_at;
+
+  -- Edited bills must not keep stale lines
+  delete from public.bill_items
+  where bill_id in (select bill ->> 'id' from jsonb_array_elements(bills) as bill);
+
+  insert into public.bill_items (bill_id, line_no, product_id, product_name, quantity, price, total, extra)
+  select item.bill_id, item.line_no, item.product_id, item.product_name, item.quantity, item.price,
+    item.total, coalesce(item.extra, '{}'::jsonb)
+  from jsonb_array_elements(bills) as bill,
+    jsonb_populate_recordset(null::public.bill_items, coalesce(bill -> 'items', '[]'::jsonb)) as item;
+end;
+$$;
+
+-- The shop runs without sign-in, so the publishable key gets full access.
+alter table public.products enable row level security;
+alter table public.customers enable row level security;
+alter table public.bills enable row level security;
+alter table public.bill_items enable row level security;
+
+create policy "shop access" on public.products for all to anon, authenticated using (true) with check (true);
+create policy "shop access" on public.customers for all to anon, authenticated using (true) with check (true);
+create policy "shop access" on public.bills for all to anon, authenticated using (true) with check (true);
+create policy "shop access" on public.bill_items for all to anon, authenticated using (true) with check (true);
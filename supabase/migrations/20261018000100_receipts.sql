@@ -0,0 +1,27 @@
+-- Receipts for money collected against customers' outstanding bills, mirrored
+-- like the tables in 20261018000000_billing_tables.sql. How a receipt was
+-- split across bills is kept whole in `allocations`.
+
+create table public.receipts (
+  id text primary key,
+  receipt_number text not null unique,
+  customer_id text not null,
+  customer_name text not null default '',
+  amount numeric(12, 2) not null default 0,
+  mode text not null,
+  allocations jsonb not null default '[]'::jsonb,
+  extra jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz
+);
+
+create index receipts_updated_at_idx on public.receipts (updated_at, id);
+create index receipts_customer_id_idx on public.receipts (customer_id);
+
+create trigger receipts_set_updated_at before insert or update on public.receipts
+  for each row execute function public.set_updated_at();
+
+alter table public.receipts enable row level security;
+
+create policy "shop access" on public.receipts for all to anon, authenticated using (true) with check (true);
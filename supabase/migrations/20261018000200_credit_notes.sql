@@ -0,0 +1,33 @@
+-- Credit notes for goods returned against an invoice, mirrored like the tables
+-- in 20261018000000_billing_tables.sql. The returned lines and the reversed tax
+-- breakup are kept whole in `items` and `tax_breakup`.
+
+create table public.credit_notes (
+  id text primary key,
+  credit_note_number text not null unique,
+  bill_id text not null,
+  invoice_number text not null default '',
+  customer_id text not null,
+  customer_name text not null default '',
+  items jsonb not null default '[]'::jsonb,
+  taxable numeric(12, 2) not null default 0,
+  gst_amount numeric(12, 2) not null default 0,
+  tax_breakup jsonb not null default '[]'::jsonb,
+  total numeric(12, 2) not null default 0,
+  settlement text not null,
+  extra jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz
+);
+
+create index credit_notes_updated_at_idx on public.credit_notes (updated_at, id);
+create index credit_notes_bill_id_idx on public.credit_notes (bill_id);
+create index credit_notes_customer_id_idx on public.credit_notes (customer_id);
+
+create trigger credit_notes_set_updated_at before insert or update on public.credit_notes
+  for each row execute function public.set_updated_at();
+
+alter table public.credit_notes enable row level security;
+
+create policy "shop access" on public.credit_notes for all to anon, authenticated using (true) with check (true);
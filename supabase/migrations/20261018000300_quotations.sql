@@ -0,0 +1,32 @@
+-- Quotations (price estimates), mirrored like the tables in
+-- 20261018000000_billing_tables.sql. The quoted lines and tax breakup are kept
+-- whole in `items` and `tax_breakup`; bill_id is set once one is converted.
+
+create table public.quotations (
+  id text primary key,
+  quotation_number text not null unique,
+  customer_id text not null,
+  customer_name text not null default '',
+  items jsonb not null default '[]'::jsonb,
+  subtotal numeric(12, 2) not null default 0,
+  discount numeric(12, 2) not null default 0,
+  gst_amount numeric(12, 2) not null default 0,
+  tax_breakup jsonb not null default '[]'::jsonb,
+  total numeric(12, 2) not null default 0,
+  valid_until date not null,
+  bill_id text,
+  extra jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz
+);
+
+create index quotations_updated_at_idx on public.quotations (updated_at, id);
+create index quotations_customer_id_idx on public.quotations (customer_id);
+
+create trigger quotations_set_updated_at before insert or update on public.quotations
+  for each row execute function public.set_updated_at();
+
+alter table public.quotations enable row level security;
+
+create policy "shop access" on public.quotations for all to anon, authenticated using (true) with check (true);
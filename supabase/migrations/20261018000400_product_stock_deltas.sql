@@ -0,0 +1,35 @@
+-- Every device sells from the same stock, so a device pushes how far its stock
+-- moved since it last synced rather than the level it sees; two devices
+-- selling one product at the same time then both count. Each element is a
+-- products row, plus `stock_delta` when the device has synced that product
+-- before. Without one (a product the remote has not seen) stock is set as given.
+create or replace function public.save_products(products jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  product jsonb;
+begin
+  for product in select * from jsonb_array_elements(products) loop
+    insert into public.products as p (
+      id, name, parent_id, price, stock, min_stock, unit, extra, created_at, deleted_at
+    )
+    select id, name, parent_id, price, stock, min_stock, unit,
+      coalesce(extra, '{}'::jsonb), coalesce(created_at, now()), deleted_at
+    from jsonb_populate_record(null::public.products, product)
+    on conflict (id) do update set
+      name = excluded.name,
+      parent_id = excluded.parent_id,
+      price = excluded.price,
+      stock = case
+        when product ? 'stock_delta' then p.stock + (product ->> 'stock_delta')::numeric
+        else excluded.stock
+      end,
+      min_stock = excluded.min_stock,
+      unit = excluded.unit,
+      extra = excluded.extra,
+      created_at = excluded.created_at,
+      deleted_at = excluded.deleted_at;
+  end loop;
+end;
+$$;